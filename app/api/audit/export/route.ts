@@ -0,0 +1,41 @@
+import { auditFilterSchema, auditLog, toAuditLines, type AuditEntry } from "@/lib/api/audit"
+import { apiError, zodIssues } from "@/lib/api/errors"
+
+export const dynamic = "force-dynamic"
+
+// Every entry GET /api/audit pages through for the same query, archives included, as a JSON Lines download. The
+// entries are streamed file by file, so the export never holds the whole log in memory; a read error after the
+// first bytes ends the download early.
+export async function GET(request: Request) {
+  const query = Object.fromEntries(new URL(request.url).searchParams)
+  const filter = auditFilterSchema.safeParse(query)
+  if (!filter.success) return apiError(400, "invalid_request", "the audit filter is invalid", zodIssues(filter.error))
+  const entries = auditLog().stream(filter.data)[Symbol.asyncIterator]()
+  const encoder = new TextEncoder()
+  // the first entry is read up front so a log that cannot be read gets an error response
+  let first: IteratorResult<AuditEntry> | undefined
+  try {
+    first = await entries.next()
+  } catch (e) {
+    return apiError(500, "internal_error", (e as Error).message)
+  }
+  return new Response(
+    new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        const next = first ?? (await entries.next())
+        first = undefined
+        if (next.done) controller.close()
+        else controller.enqueue(encoder.encode(toAuditLines([next.value])))
+      },
+      async cancel() {
+        await entries.return?.()
+      },
+    }),
+    {
+      headers: {
+        "Content-Type": "application/x-ndjson; charset=utf-8",
+        "Content-Disposition": 'attachment; filename="audit.jsonl"',
+      },
+    },
+  )
+}
@@ -0,0 +1,45 @@
+import { NextResponse } from "next/server"
+import { auditFilterSchema, auditLog, auditPageSchema, auditRequestSchema } from "@/lib/api/audit"
+import { apiError, readJson, zodIssues } from "@/lib/api/errors"
+
+export const dynamic = "force-dynamic"
+
+const DEFAULT_PAGE = 200
+
+// Audit entries matching the query (see auditFilterSchema), oldest first: the newest `limit` (200 by default) before
+// sequence number `before` (see auditPageSchema). `nextBefore` continues with older entries; null after the oldest.
+export async function GET(request: Request) {
+  const query = Object.fromEntries(new URL(request.url).searchParams)
+  const filter = auditFilterSchema.safeParse(query)
+  if (!filter.success) return apiError(400, "invalid_request", "the audit filter is invalid", zodIssues(filter.error))
+  const page = auditPageSchema.safeParse(query)
+  if (!page.success) return apiError(400, "invalid_request", "the page is invalid", zodIssues(page.error))
+  try {
+    const limit = page.data.limit ?? DEFAULT_PAGE
+    const entries = await auditLog().list(filter.data, { ...page.data, limit: limit + 1 })
+    const more = entries.length > limit
+    return NextResponse.json({
+      entries: more ? entries.slice(1) : entries,
+      nextBefore: more ? entries[1].seq : null,
+    })
+  } catch (e) {
+    return apiError(500, "internal_error", (e as Error).message)
+  }
+}
+
+// Appends the events in the body (see auditRequestSchema) under the given actor
+export async function POST(request: Request) {
+  const read = await readJson(request)
+  if ("response" in read) return read.response
+
+  const parsed = auditRequestSchema.safeParse(read.body)
+  if (!parsed.success) {
+    return apiError(400, "invalid_request", "the audit events are invalid", zodIssues(parsed.error))
+  }
+  try {
+    const entries = await auditLog().append(parsed.data.actor ?? "anonymous", parsed.data.events)
+    return NextResponse.json({ entries }, { status: 201 })
+  } catch (e) {
+    return apiError(500, "internal_error", (e as Error).message)
+  }
+}
@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server"
+import {
+  calibrationDays,
+  parseCalibrationRequest,
+  requestSizeIssues,
+  type CalibrationResponse,
+} from "@/lib/api/calibration"
+import { apiError, readJson } from "@/lib/api/errors"
+import { calibrateWeights } from "@/lib/scheduler"
+
+// Replays simulated or saved days with many weight sets (see calibrationRequestSchema) and reports the best. The
+// search runs inside the request, so its size is capped (see MAX_REQUEST_REPLAYS).
+export async function POST(request: Request) {
+  const read = await readJson(request)
+  if ("response" in read) return read.response
+
+  const parsed = parseCalibrationRequest(read.body)
+  if ("issues" in parsed) return apiError(400, "invalid_request", "the calibration request is invalid", parsed.issues)
+
+  try {
+    const days = await calibrationDays(parsed)
+    if ("issues" in days) return apiError(400, "invalid_request", "no days to calibrate on", days.issues)
+    const tooLarge = requestSizeIssues(parsed, days.length)
+    if (tooLarge.length > 0) return apiError(400, "invalid_request", "the search is too large for a request", tooLarge)
+    const { objective, solver, search, levels, samples, refineRounds, seed } = parsed
+    const report = calibrateWeights(days, { objective, solver, search, levels, samples, refineRounds, seed })
+    return NextResponse.json<CalibrationResponse>({
+      ...report,
+      dayNames: days.map((d) => d.name),
+      generatedAt: new Date().toISOString(),
+    })
+  } catch (e) {
+    return apiError(500, "internal_error", (e as Error).message)
+  }
+}
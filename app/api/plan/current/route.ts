@@ -0,0 +1,21 @@
+import { NextResponse } from "next/server"
+import { apiError } from "@/lib/api/errors"
+import { planStore } from "@/lib/api/plan-store"
+import type { ScheduleResponse } from "@/lib/api/schedule"
+
+export const dynamic = "force-dynamic"
+
+// The latest saved plan version
+export async function GET() {
+  try {
+    const latest = await planStore().latest()
+    if (!latest) return apiError(404, "not_found", "no plan has been computed yet; POST /api/schedule first")
+    return NextResponse.json<ScheduleResponse>({
+      ...latest.result,
+      generatedAt: latest.savedAt,
+      version: latest.version,
+    })
+  } catch (e) {
+    return apiError(500, "internal_error", (e as Error).message)
+  }
+}
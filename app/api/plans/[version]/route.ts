@@ -0,0 +1,22 @@
+import { NextResponse } from "next/server"
+import { apiError } from "@/lib/api/errors"
+import { planStore } from "@/lib/api/plan-store"
+
+export const dynamic = "force-dynamic"
+
+// One saved plan version with its request and diff; "latest" for the newest
+export async function GET(_request: Request, { params }: { params: Promise<{ version: string }> }) {
+  const { version } = await params
+  const number = Number(version)
+  if (version !== "latest" && !(Number.isInteger(number) && number > 0)) {
+    return apiError(400, "invalid_request", `expected a version number or "latest", got "${version}"`)
+  }
+  try {
+    const store = planStore()
+    const found = version === "latest" ? await store.latest() : await store.get(number)
+    if (!found) return apiError(404, "not_found", `no plan version ${version}`)
+    return NextResponse.json(found)
+  } catch (e) {
+    return apiError(500, "internal_error", (e as Error).message)
+  }
+}
@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server"
+import { apiError, zodIssues } from "@/lib/api/errors"
+import { planPageSchema, planStore } from "@/lib/api/plan-store"
+
+export const dynamic = "force-dynamic"
+
+const DEFAULT_PAGE = 50
+
+// Page of the history the store keeps (see planPageSchema), newest first: `limit` versions (50 by default) before
+// version `before`. `nextBefore` continues with older versions; null after the oldest.
+export async function GET(request: Request) {
+  const query = Object.fromEntries(new URL(request.url).searchParams)
+  const page = planPageSchema.safeParse(query)
+  if (!page.success) return apiError(400, "invalid_request", "the page is invalid", zodIssues(page.error))
+  try {
+    const limit = page.data.limit ?? DEFAULT_PAGE
+    const versions = (await planStore().list({ ...page.data, limit: limit + 1 })).reverse()
+    const more = versions.length > limit
+    return NextResponse.json({
+      versions: versions.slice(0, limit),
+      nextBefore: more ? versions[limit - 1].version : null,
+    })
+  } catch (e) {
+    return apiError(500, "internal_error", (e as Error).message)
+  }
+}
@@ -0,0 +1,44 @@
+import { NextResponse } from "next/server"
+import { auditLog } from "@/lib/api/audit"
+import { apiError, readJson } from "@/lib/api/errors"
+import { planStore, recordPlan } from "@/lib/api/plan-store"
+import { parseScheduleRequest, plannedTrains, schedule, type ScheduleResponse } from "@/lib/api/schedule"
+
+// Plans the trains in the body (see scheduleRequestSchema), saves the result as a new plan version and logs the
+// solver run in the audit log
+export async function POST(request: Request) {
+  const read = await readJson(request)
+  if ("response" in read) return read.response
+
+  const parsed = parseScheduleRequest(read.body)
+  if ("issues" in parsed) return apiError(400, "invalid_request", "the schedule request is invalid", parsed.issues)
+
+  try {
+    const plan = schedule(plannedTrains(parsed), parsed.options)
+    const { version, created } = await recordPlan(planStore(), parsed.request, parsed.trigger, plan)
+    // re-plans that changed nothing are not logged either
+    if (created) {
+      const arrivals = new Map(plan.plan.platforms.flatMap((pl) => pl.trains.map((t) => [t.id, t.effectiveArrival])))
+      await auditLog().append(parsed.trigger.actor ?? "api", [
+        {
+          kind: "solver-run",
+          version: version.version,
+          trigger: parsed.trigger,
+          solver: plan.plan.solver,
+          weights: parsed.options.weights!,
+          request: parsed.request,
+          cost: plan.metrics.costBreakdown,
+          totalExtraDelay: plan.metrics.totalExtraDelay,
+          assignments: plan.plan.assignments.map((a) => ({ ...a, arrival: arrivals.get(a.trainId) ?? null })),
+        },
+      ])
+    }
+    return NextResponse.json<ScheduleResponse>({
+      ...plan,
+      generatedAt: new Date().toISOString(),
+      version: version.version,
+    })
+  } catch (e) {
+    return apiError(500, "internal_error", (e as Error).message)
+  }
+}
@@ -0,0 +1,21 @@
+import Link from "next/link"
+import AuditLogView from "@/components/audit-log"
+
+export default function AuditPage() {
+  return (
+    <main className="font-sans" aria-labelledby="page-title">
+      <section className="flex items-baseline gap-4 px-6 py-8">
+        <h1 id="page-title" className="text-balance text-3xl font-semibold text-primary">
+          Audit Log
+        </h1>
+        <Link href="/" className="text-sm text-primary underline">
+          Back to the board
+        </Link>
+      </section>
+
+      <section className="px-6 pb-10">
+        <AuditLogView />
+      </section>
+    </main>
+  )
+}
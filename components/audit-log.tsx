@@ -0,0 +1,298 @@
+"use client"
+
+import * as React from "react"
+import type { AuditEntry, AuditKind } from "@/lib/api/audit"
+import { parseTimestamp, timestampToLabel, toTimestamp } from "@/lib/scheduler"
+
+const KIND_LABELS: Record<AuditKind, string> = {
+  delay: "Delay",
+  override: "Override",
+  blockage: "Blockage",
+  "solver-run": "Solver run",
+}
+
+// Weighted terms of the plan cost, see planCostBreakdown
+const COST_TERMS = [
+  ["idleGap", "idle gaps"],
+  ["load", "load"],
+  ["delayedSpread", "delayed spread"],
+  ["margin", "conflict margins"],
+  ["platformChange", "platform changes"],
+  ["connection", "connection walks"],
+] as const
+
+const OVERRIDE_LABELS = { undo: "undid the last override", redo: "redid an override", clear: "cleared all overrides" }
+
+type Filter = {
+  kind: AuditKind | ""
+  trainId: string
+  actor: string
+  // datetime-local values
+  from: string
+  to: string
+}
+
+const NO_FILTER: Filter = { kind: "", trainId: "", actor: "", from: "", to: "" }
+
+function filterQuery(filter: Filter) {
+  const params = new URLSearchParams()
+  if (filter.kind) params.set("kind", filter.kind)
+  if (filter.trainId.trim()) params.set("trainId", filter.trainId.trim())
+  if (filter.actor.trim()) params.set("actor", filter.actor.trim())
+  for (const key of ["from", "to"] as const) {
+    const date = new Date(filter[key])
+    if (filter[key] && !Number.isNaN(date.getTime())) params.set(key, date.toISOString())
+  }
+  return params.toString()
+}
+
+function clock(iso: string | null | undefined) {
+  const t = iso ? parseTimestamp(iso, 0) : null
+  return t === null ? "–" : timestampToLabel(t)
+}
+
+function summary(entry: AuditEntry, trainId: string) {
+  switch (entry.kind) {
+    case "delay":
+      return `${entry.trainId} ETA ${clock(entry.eta)}, ${entry.delay} min late${
+        entry.reason ? ` (${entry.reason})` : ""
+      }`
+    case "override":
+      if (entry.action === "pin") return `pinned ${entry.trainId} to Platform ${entry.platformId}`
+      if (entry.action === "unpin") return `unpinned ${entry.trainId}`
+      if (entry.action === "hold") {
+        const at = entry.stationId ? ` at ${entry.stationId}` : ""
+        return `held ${entry.trainId}${at} until ${clock(entry.until)}${entry.reason ? ` (${entry.reason})` : ""}`
+      }
+      if (entry.action === "release") {
+        return `released the hold of ${entry.trainId}${entry.stationId ? ` at ${entry.stationId}` : ""}`
+      }
+      return OVERRIDE_LABELS[entry.action]
+    case "blockage": {
+      const window = entry.to ? `${clock(entry.from)} to ${clock(entry.to)}` : `from ${clock(entry.from)}`
+      const what = `Platform ${entry.platformId} ${window}${entry.reason ? ` (${entry.reason})` : ""}`
+      return entry.action === "add" ? `blocked ${what}` : `lifted the blockage of ${what}`
+    }
+    case "solver-run": {
+      const cause = `${entry.trigger.kind}${entry.trigger.detail ? `: ${entry.trigger.detail}` : ""}`
+      const run = `plan version ${entry.version} by the ${entry.solver} solver after ${cause}`
+      const placed = trainId ? entry.assignments.find((a) => a.trainId === trainId) : undefined
+      return placed
+        ? `${run}; ${trainId} on Platform ${placed.platformId} at ${clock(placed.arrival)} (${placed.reason})`
+        : run
+    }
+  }
+}
+
+// Delay updates, overrides, blockages and solver runs, oldest first, with filters and a JSON Lines export. The newest
+// page loads first; older pages load above it.
+export default function AuditLogView() {
+  const [draft, setDraft] = React.useState<Filter>(NO_FILTER)
+  const [filter, setFilter] = React.useState<Filter>(NO_FILTER)
+  const [entries, setEntries] = React.useState<AuditEntry[] | null>(null)
+  // sequence number the next older page starts before; null when the oldest listed entry is shown
+  const [nextBefore, setNextBefore] = React.useState<number | null>(null)
+  const [error, setError] = React.useState<string | null>(null)
+  const query = filterQuery(filter)
+
+  // the newest page, or the page before `before` added above the shown entries
+  const fetchPage = React.useCallback(
+    async (before?: number) => {
+      try {
+        const res = await fetch(`/api/audit?${query}${before === undefined ? "" : `&before=${before}`}`, {
+          cache: "no-store",
+        })
+        const data = await res.json()
+        if (!res.ok) throw new Error(data.error.message)
+        setEntries((prev) => (before === undefined ? data.entries : [...data.entries, ...(prev ?? [])]))
+        setNextBefore(data.nextBefore)
+        setError(null)
+      } catch (e) {
+        setError((e as Error).message)
+      }
+    },
+    [query],
+  )
+  const load = React.useCallback(() => fetchPage(), [fetchPage])
+  React.useEffect(() => {
+    load()
+  }, [load])
+
+  const field = (key: keyof Filter) => ({
+    value: draft[key],
+    onChange: (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) =>
+      setDraft((d) => ({ ...d, [key]: e.target.value })),
+  })
+
+  return (
+    <div className="flex flex-col gap-4">
+      <form
+        className="flex flex-wrap items-center gap-3"
+        aria-label="Filter"
+        onSubmit={(e) => {
+          e.preventDefault()
+          setFilter(draft)
+        }}
+      >
+        <label className="flex items-center gap-2 text-sm text-foreground">
+          Kind
+          <select {...field("kind")} className="rounded border border-border bg-background px-2 py-1 text-sm">
+            <option value="">All</option>
+            {(Object.keys(KIND_LABELS) as AuditKind[]).map((k) => (
+              <option key={k} value={k}>
+                {KIND_LABELS[k]}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-2 text-sm text-foreground">
+          Train
+          <input
+            {...field("trainId")}
+            placeholder="Train id"
+            className="w-28 rounded border border-border bg-background px-2 py-1 text-sm"
+          />
+        </label>
+        <label className="flex items-center gap-2 text-sm text-foreground">
+          Actor
+          <input {...field("actor")} className="w-32 rounded border border-border bg-background px-2 py-1 text-sm" />
+        </label>
+        <label className="flex items-center gap-2 text-sm text-foreground">
+          From
+          <input
+            type="datetime-local"
+            {...field("from")}
+            className="rounded border border-border bg-background px-2 py-1 text-sm"
+          />
+        </label>
+        <label className="flex items-center gap-2 text-sm text-foreground">
+          To
+          <input
+            type="datetime-local"
+            {...field("to")}
+            className="rounded border border-border bg-background px-2 py-1 text-sm"
+          />
+        </label>
+        <button type="submit" className="rounded border border-border bg-background px-3 py-1 text-sm text-foreground">
+          Apply
+        </button>
+        <button
+          type="button"
+          onClick={() => {
+            setDraft(NO_FILTER)
+            setFilter(NO_FILTER)
+          }}
+          className="rounded border border-border bg-background px-3 py-1 text-sm text-foreground"
+        >
+          Clear
+        </button>
+        <button
+          type="button"
+          onClick={load}
+          className="rounded border border-border bg-background px-3 py-1 text-sm text-foreground"
+        >
+          Refresh
+        </button>
+        <a href={`/api/audit/export?${query}`} download className="text-sm text-primary underline">
+          Export JSON Lines
+        </a>
+      </form>
+
+      {error ? (
+        <p className="text-sm text-rose-600" role="alert">
+          {error}
+        </p>
+      ) : null}
+
+      {entries === null ? null : entries.length === 0 ? (
+        <p className="text-sm text-foreground">No entries match.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          {nextBefore !== null ? (
+            <button
+              type="button"
+              onClick={() => fetchPage(nextBefore)}
+              className="mb-2 rounded border border-border bg-background px-3 py-1 text-sm text-foreground"
+            >
+              Load older entries
+            </button>
+          ) : null}
+          <table className="w-full border-collapse text-sm">
+            <thead>
+              <tr className="border-b border-border text-left text-foreground">
+                <th className="p-2">#</th>
+                <th className="p-2">Time</th>
+                <th className="p-2">Actor</th>
+                <th className="p-2">Kind</th>
+                <th className="p-2">What happened</th>
+              </tr>
+            </thead>
+            <tbody>
+              {entries.map((entry) => (
+                <tr key={entry.seq} className="border-b border-border align-top text-foreground">
+                  <td className="p-2">{entry.seq}</td>
+                  <td className="whitespace-nowrap p-2">{new Date(entry.at).toLocaleString()}</td>
+                  <td className="p-2">{entry.actor}</td>
+                  <td className="p-2">{KIND_LABELS[entry.kind]}</td>
+                  <td className="p-2">
+                    {summary(entry, filter.trainId.trim())}
+                    {entry.kind === "solver-run" ? <SolverRunDetails entry={entry} /> : null}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
+
+function SolverRunDetails({ entry }: { entry: Extract<AuditEntry, { kind: "solver-run" }> }) {
+  const reference = entry.assignments.length > 0 ? toTimestamp(new Date(entry.at)) : undefined
+  return (
+    <details className="mt-1 text-xs">
+      <summary className="cursor-pointer">
+        Cost {entry.cost.total.toFixed(1)}, +{entry.totalExtraDelay} min held, {entry.assignments.length} trains
+      </summary>
+      <div className="mt-1 flex flex-col gap-2">
+        <div>
+          Score breakdown:{" "}
+          {COST_TERMS.map(([key, label]) => `${label} ${entry.cost[key].toFixed(1)}`).join(" · ")}
+        </div>
+        <div>
+          Weights: {COST_TERMS.map(([key, label]) => `${label} ${entry.weights[key]}`).join(" · ")}
+        </div>
+        <table className="border-collapse">
+          <thead>
+            <tr className="text-left">
+              <th className="pr-3">Train</th>
+              <th className="pr-3">Platform</th>
+              <th className="pr-3">Arrival</th>
+              <th className="pr-3">Reason</th>
+              <th className="pr-3">Score</th>
+              <th className="pr-3">Extra delay</th>
+            </tr>
+          </thead>
+          <tbody>
+            {entry.assignments.map((a) => (
+              <tr key={a.trainId}>
+                <td className="pr-3">{a.trainId}</td>
+                <td className="pr-3">{a.platformId}</td>
+                <td className="pr-3">
+                  {a.arrival ? timestampToLabel(parseTimestamp(a.arrival, 0)!, reference) : "–"}
+                </td>
+                <td className="pr-3">
+                  {a.reason}
+                  {a.overflow ? ` (${a.overflow})` : ""}
+                </td>
+                <td className="pr-3">{a.score.toFixed(1)}</td>
+                <td className="pr-3">{a.extraDelay} min</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </details>
+  )
+}
@@ -0,0 +1,175 @@
+"use client"
+
+import * as React from "react"
+import {
+  timestampToLabel,
+  toDateTimeLocal,
+  toTimestamp,
+  type PlatformBlock,
+  type TrainImpact,
+} from "@/lib/scheduler"
+
+// Length of a new blockage unless changed, in minutes
+const DEFAULT_BLOCK_MINUTES = 60
+
+// The re-plan caused by the latest blockage
+export type BlockageReport = {
+  block: PlatformBlock
+  impacts: TrainImpact[]
+}
+
+function describeWindow(block: PlatformBlock, reference: number) {
+  const from = timestampToLabel(block.from, reference)
+  return Number.isFinite(block.to) ? `${from} to ${timestampToLabel(block.to, reference)}` : `from ${from}`
+}
+
+function describeImpact(impact: TrainImpact) {
+  if (impact.toPlatform === undefined) return `no platform left (was Platform ${impact.fromPlatform})`
+  const platform =
+    impact.fromPlatform === impact.toPlatform
+      ? `stays on Platform ${impact.toPlatform}`
+      : `Platform ${impact.fromPlatform} → Platform ${impact.toPlatform}`
+  return impact.extraDelay === 0 ? platform : `${platform}, ${impact.extraDelay > 0 ? "+" : ""}${impact.extraDelay} min`
+}
+
+// Maintenance and blockage windows: a platform out of use for a time range, or from a time on. `blocks` are the
+// windows added here; adding one re-plans the station and `report` lists the trains it moved.
+export default function BlockagePanel({
+  platformIds,
+  blocks,
+  defaultFrom,
+  report,
+  trainNames,
+  onAdd,
+  onRemove,
+}: {
+  platformIds: number[]
+  blocks: PlatformBlock[]
+  // start time offered for a new blockage
+  defaultFrom: number
+  report: BlockageReport | null
+  trainNames: Map<string, string>
+  onAdd: (block: PlatformBlock) => void
+  onRemove: (index: number) => void
+}) {
+  const [error, setError] = React.useState<string | null>(null)
+
+  function submit(e: React.FormEvent<HTMLFormElement>) {
+    e.preventDefault()
+    const data = new FormData(e.currentTarget)
+    const platformId = Number(data.get("platform"))
+    const from = new Date(String(data.get("from")))
+    const toText = String(data.get("to") ?? "")
+    const to = toText ? new Date(toText) : null
+    if (!platformIds.includes(platformId)) return setError("choose a platform")
+    if (Number.isNaN(from.getTime())) return setError("enter when the blockage starts")
+    if (to && Number.isNaN(to.getTime())) return setError("invalid end time")
+    const block: PlatformBlock = {
+      platformId,
+      from: toTimestamp(from),
+      to: to ? toTimestamp(to) : Number.POSITIVE_INFINITY,
+      reason: String(data.get("reason") ?? "").trim() || undefined,
+    }
+    if (block.to <= block.from) return setError("the blockage must end after it starts")
+    setError(null)
+    onAdd(block)
+  }
+
+  return (
+    <div className="flex flex-col gap-3 rounded border border-border p-4">
+      <h3 className="text-lg font-semibold text-primary">Platform Blockages</h3>
+
+      <form className="flex flex-wrap items-center gap-3" onSubmit={submit}>
+        <label className="flex items-center gap-2 text-sm text-foreground">
+          Platform
+          <select name="platform" className="rounded border border-border bg-background px-2 py-1 text-sm">
+            {platformIds.map((id) => (
+              <option key={id} value={id}>
+                {id}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-2 text-sm text-foreground">
+          From
+          <input
+            key={defaultFrom}
+            name="from"
+            type="datetime-local"
+            defaultValue={toDateTimeLocal(defaultFrom)}
+            className="rounded border border-border bg-background px-2 py-1 text-sm"
+          />
+        </label>
+        <label className="flex items-center gap-2 text-sm text-foreground">
+          To
+          <input
+            key={defaultFrom + DEFAULT_BLOCK_MINUTES}
+            name="to"
+            type="datetime-local"
+            defaultValue={toDateTimeLocal(defaultFrom + DEFAULT_BLOCK_MINUTES)}
+            aria-describedby="blockage-to-hint"
+            className="rounded border border-border bg-background px-2 py-1 text-sm"
+          />
+        </label>
+        <span id="blockage-to-hint" className="text-xs text-foreground">
+          leave empty for an open-ended blockage
+        </span>
+        <input
+          name="reason"
+          placeholder="Reason (maintenance, failed points…)"
+          aria-label="Reason"
+          className="w-64 rounded border border-border bg-background px-2 py-1 text-sm"
+        />
+        <button type="submit" className="rounded border border-border bg-background px-3 py-1 text-sm text-foreground">
+          Add blockage
+        </button>
+      </form>
+
+      {error ? (
+        <p className="text-sm text-rose-600" role="alert">
+          {error}
+        </p>
+      ) : null}
+
+      {blocks.length > 0 ? (
+        <ul className="flex flex-col gap-1 text-sm text-foreground" aria-label="Blockages">
+          {blocks.map((b, i) => (
+            <li key={`${b.platformId}-${b.from}-${i}`} className="flex items-center gap-2">
+              <span>
+                Platform {b.platformId} {describeWindow(b, defaultFrom)}
+                {b.reason ? ` (${b.reason})` : ""}
+              </span>
+              <button
+                type="button"
+                onClick={() => onRemove(i)}
+                className="rounded border border-border bg-background px-2 py-0.5 text-xs"
+              >
+                Remove
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : null}
+
+      {report ? (
+        <div className="rounded border border-amber-500 p-3" aria-live="polite">
+          <div className="text-sm font-medium text-foreground">
+            Re-plan after blocking Platform {report.block.platformId} {describeWindow(report.block, defaultFrom)}:{" "}
+            {report.impacts.length === 0
+              ? "no train affected"
+              : `${report.impacts.length} train${report.impacts.length === 1 ? "" : "s"} affected`}
+          </div>
+          {report.impacts.length > 0 ? (
+            <ul className="mt-1 flex flex-col gap-1 text-xs text-foreground">
+              {report.impacts.map((impact) => (
+                <li key={impact.trainId}>
+                  {trainNames.get(impact.trainId) ?? impact.trainId}: {describeImpact(impact)}
+                </li>
+              ))}
+            </ul>
+          ) : null}
+        </div>
+      ) : null}
+    </div>
+  )
+}
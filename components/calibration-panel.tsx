@@ -0,0 +1,360 @@
+"use client"
+
+import * as React from "react"
+import { cn } from "@/lib/utils"
+import { saveWeightPreset } from "@/components/weights-panel"
+import type { CalibrationRequest, CalibrationResponse } from "@/lib/api/calibration"
+import {
+  CALIBRATION_OBJECTIVES,
+  DEFAULT_CALIBRATION_SAMPLES,
+  DEFAULT_GRID_LEVELS,
+  DEFAULT_REFINE_ROUNDS,
+  type CalibrationObjective,
+  type PlanTotals,
+  type ScoringWeights,
+} from "@/lib/scheduler"
+
+const OBJECTIVE_LABELS: Record<CalibrationObjective, string> = {
+  passengerDelay: "Passenger delay",
+  totalDelay: "Total delay",
+  knockOn: "Knock-on delay",
+  platformsUsed: "Platforms used",
+  idleGap: "Total idle gap",
+  platformChanges: "Platform changes",
+}
+
+const TOTALS: { key: keyof PlanTotals; label: string; unit?: string }[] = [
+  { key: "passengerDelay", label: "Passenger delay", unit: "passenger-min" },
+  { key: "totalDelay", label: "Total delay", unit: "min" },
+  { key: "knockOn", label: "Knock-on delay", unit: "min" },
+  { key: "platformsUsed", label: "Platforms used" },
+  { key: "idleGap", label: "Total idle gap", unit: "min" },
+  { key: "platformChanges", label: "Platform changes" },
+  { key: "unassigned", label: "Without a platform" },
+]
+
+const TERMS: { key: Exclude<keyof ScoringWeights, "classWeights">; label: string }[] = [
+  { key: "idleGap", label: "Idle gap" },
+  { key: "load", label: "Load" },
+  { key: "delayedSpread", label: "Delayed spread" },
+  { key: "margin", label: "Margin" },
+  { key: "platformChange", label: "Platform change" },
+  { key: "connection", label: "Connection walk" },
+]
+
+type Form = {
+  source: "simulation" | "history"
+  days: number
+  versions: number
+  objective: CalibrationObjective
+  solver: "greedy" | "optimal"
+  search: "grid" | "random"
+  samples: number
+  // comma-separated factors
+  levels: string
+  refineRounds: number
+  seed: number
+}
+
+const DEFAULT_FORM: Form = {
+  source: "simulation",
+  days: 10,
+  versions: 10,
+  objective: "passengerDelay",
+  solver: "greedy",
+  search: "random",
+  samples: DEFAULT_CALIBRATION_SAMPLES,
+  levels: DEFAULT_GRID_LEVELS.join(", "),
+  refineRounds: DEFAULT_REFINE_ROUNDS,
+  seed: 1,
+}
+
+function requestOf(form: Form): CalibrationRequest {
+  return {
+    source: form.source,
+    days: form.source === "simulation" ? form.days : undefined,
+    versions: form.source === "history" ? form.versions : undefined,
+    objective: form.objective,
+    solver: form.solver,
+    search: form.search,
+    samples: form.search === "random" ? form.samples : undefined,
+    levels: form.search === "grid" ? form.levels.split(",").map(Number) : undefined,
+    refineRounds: form.refineRounds,
+    seed: form.seed,
+  }
+}
+
+function amount(value: number, unit?: string) {
+  const rounded = Number(value.toFixed(1))
+  return unit ? `${rounded} ${unit}` : String(rounded)
+}
+
+function describeWeights(weights: ScoringWeights) {
+  return TERMS.map(({ key, label }) => `${label} ${weights[key]}`).join(" · ")
+}
+
+// Runs POST /api/calibrate on simulated days or the plan history and shows the best weights it found, which can be
+// saved as a weight preset for the board or downloaded as a preset file
+export default function CalibrationPanel() {
+  const [form, setForm] = React.useState<Form>(DEFAULT_FORM)
+  const [running, setRunning] = React.useState(false)
+  const [report, setReport] = React.useState<CalibrationResponse | null>(null)
+  const [error, setError] = React.useState<string | null>(null)
+  const [presetName, setPresetName] = React.useState("")
+  const [savedAs, setSavedAs] = React.useState<string | null>(null)
+
+  const field = <K extends keyof Form>(key: K, parse: (value: string) => Form[K]) => ({
+    value: String(form[key]),
+    onChange: (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) =>
+      setForm((f) => ({ ...f, [key]: parse(e.target.value) })),
+  })
+  const text = (value: string) => value
+  const whole = (value: string) => Math.max(0, Math.round(Number(value) || 0))
+
+  async function run(e: React.FormEvent<HTMLFormElement>) {
+    e.preventDefault()
+    setRunning(true)
+    setError(null)
+    try {
+      const res = await fetch("/api/calibrate", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(requestOf(form)),
+      })
+      const data = await res.json()
+      if (!res.ok) {
+        const issues = (data.error.issues ?? []) as { path: string; message: string }[]
+        throw new Error([data.error.message, ...issues.map((i) => `${i.path}: ${i.message}`)].join("; "))
+      }
+      const next = data as CalibrationResponse
+      setReport(next)
+      setPresetName(`Calibrated for ${OBJECTIVE_LABELS[next.objective].toLowerCase()}`)
+      setSavedAs(null)
+    } catch (e) {
+      setError((e as Error).message)
+    } finally {
+      setRunning(false)
+    }
+  }
+
+  const preset = report ? { name: presetName.trim(), weights: report.best.weights } : null
+
+  return (
+    <div className="flex flex-col gap-6">
+      <form className="flex flex-wrap items-end gap-4" onSubmit={run} aria-label="Calibration">
+        <label className="flex flex-col gap-1 text-sm text-foreground">
+          Days
+          <select
+            {...field("source", (v) => v as Form["source"])}
+            className="rounded border border-border bg-background px-2 py-1"
+          >
+            <option value="simulation">Simulated (sample scenario)</option>
+            <option value="history">Plan history</option>
+          </select>
+        </label>
+        {form.source === "simulation" ? (
+          <label className="flex flex-col gap-1 text-sm text-foreground">
+            Runs
+            <input
+              type="number"
+              min={1}
+              max={100}
+              {...field("days", whole)}
+              className="w-20 rounded border border-border bg-background px-2 py-1"
+            />
+          </label>
+        ) : (
+          <label className="flex flex-col gap-1 text-sm text-foreground">
+            Latest versions
+            <input
+              type="number"
+              min={1}
+              max={500}
+              {...field("versions", whole)}
+              className="w-20 rounded border border-border bg-background px-2 py-1"
+            />
+          </label>
+        )}
+        <label className="flex flex-col gap-1 text-sm text-foreground">
+          Minimise
+          <select
+            {...field("objective", (v) => v as CalibrationObjective)}
+            className="rounded border border-border bg-background px-2 py-1"
+          >
+            {CALIBRATION_OBJECTIVES.map((o) => (
+              <option key={o} value={o}>
+                {OBJECTIVE_LABELS[o]}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1 text-sm text-foreground">
+          Solver
+          <select
+            {...field("solver", (v) => v as Form["solver"])}
+            className="rounded border border-border bg-background px-2 py-1"
+          >
+            <option value="greedy">Greedy</option>
+            <option value="optimal">Optimal</option>
+          </select>
+        </label>
+        <label className="flex flex-col gap-1 text-sm text-foreground">
+          Search
+          <select
+            {...field("search", (v) => v as Form["search"])}
+            className="rounded border border-border bg-background px-2 py-1"
+          >
+            <option value="random">Random</option>
+            <option value="grid">Grid</option>
+          </select>
+        </label>
+        {form.search === "random" ? (
+          <label className="flex flex-col gap-1 text-sm text-foreground">
+            Samples
+            <input
+              type="number"
+              min={1}
+              max={1000}
+              {...field("samples", whole)}
+              className="w-24 rounded border border-border bg-background px-2 py-1"
+            />
+          </label>
+        ) : (
+          <label className="flex flex-col gap-1 text-sm text-foreground">
+            Factors of the defaults
+            <input {...field("levels", text)} className="w-32 rounded border border-border bg-background px-2 py-1" />
+          </label>
+        )}
+        <label className="flex flex-col gap-1 text-sm text-foreground">
+          Refinement rounds
+          <input
+            type="number"
+            min={0}
+            max={10}
+            {...field("refineRounds", whole)}
+            className="w-20 rounded border border-border bg-background px-2 py-1"
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-sm text-foreground">
+          Seed
+          <input
+            type="number"
+            {...field("seed", whole)}
+            className="w-20 rounded border border-border bg-background px-2 py-1"
+          />
+        </label>
+        <button
+          type="submit"
+          disabled={running}
+          className="rounded border border-border bg-primary px-3 py-1 text-sm text-primary-foreground disabled:opacity-50"
+        >
+          {running ? "Calibrating…" : "Calibrate"}
+        </button>
+      </form>
+
+      {error ? (
+        <p className="text-sm text-rose-600" role="alert">
+          {error}
+        </p>
+      ) : null}
+
+      {report && preset ? (
+        <div className="flex flex-col gap-4" aria-live="polite">
+          <p className="text-sm text-foreground">
+            {report.evaluated} weight sets tried on {report.days} day{report.days === 1 ? "" : "s"} with the{" "}
+            {report.solver} solver ({report.search} search), minimising{" "}
+            {OBJECTIVE_LABELS[report.objective].toLowerCase()}.
+          </p>
+
+          <table className="w-full border-collapse text-sm">
+            <thead>
+              <tr className="border-b border-border text-left text-foreground">
+                <th className="p-2" />
+                <th className="p-2">Default weights</th>
+                <th className="p-2">Best weights</th>
+                <th className="p-2">Change</th>
+              </tr>
+            </thead>
+            <tbody>
+              {TERMS.map(({ key, label }) => (
+                <tr key={key} className="border-b border-border text-foreground">
+                  <th className="p-2 text-left font-normal">{label} weight</th>
+                  <td className="p-2">{report.baseline.weights[key]}</td>
+                  <td className="p-2">{report.best.weights[key]}</td>
+                  <td className="p-2" />
+                </tr>
+              ))}
+              {TOTALS.map(({ key, label, unit }) => {
+                const delta = report.best.totals[key] - report.baseline.totals[key]
+                return (
+                  <tr
+                    key={key}
+                    className={cn("border-b border-border text-foreground", key === report.objective && "font-medium")}
+                  >
+                    <th className="p-2 text-left font-normal">{label}</th>
+                    <td className="p-2">{amount(report.baseline.totals[key], unit)}</td>
+                    <td className="p-2">{amount(report.best.totals[key], unit)}</td>
+                    <td className={cn("p-2", delta < 0 && "text-emerald-600", delta > 0 && "text-rose-600")}>
+                      {delta === 0 ? "—" : `${delta > 0 ? "+" : ""}${amount(delta, unit)}`}
+                    </td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+
+          <form
+            className="flex flex-wrap items-center gap-2"
+            aria-label="Save as preset"
+            onSubmit={(e) => {
+              e.preventDefault()
+              if (!preset.name) return
+              saveWeightPreset(preset)
+              setSavedAs(preset.name)
+            }}
+          >
+            <input
+              value={presetName}
+              onChange={(e) => setPresetName(e.target.value)}
+              maxLength={60}
+              className="w-64 rounded border border-border bg-background px-2 py-1 text-sm"
+            />
+            <button
+              type="submit"
+              disabled={!preset.name}
+              className="rounded border border-border bg-background px-3 py-1 text-sm text-foreground disabled:opacity-50"
+            >
+              Save as preset
+            </button>
+            <a
+              href={`data:application/json,${encodeURIComponent(JSON.stringify(preset, null, 2))}`}
+              download="weight-preset.json"
+              className="text-sm text-primary underline"
+            >
+              Download preset file
+            </a>
+            {savedAs ? (
+              <span className="text-sm text-foreground">Saved; load “{savedAs}” in the board's weights panel.</span>
+            ) : null}
+          </form>
+
+          <details className="text-sm text-foreground">
+            <summary className="cursor-pointer">Best {report.top.length} weight sets</summary>
+            <ol className="mt-2 flex list-decimal flex-col gap-1 pl-6">
+              {report.top.map((trial, i) => (
+                <li key={i}>
+                  {OBJECTIVE_LABELS[report.objective]} {amount(trial.score)}: {describeWeights(trial.weights)}
+                </li>
+              ))}
+            </ol>
+          </details>
+
+          <details className="text-sm text-foreground">
+            <summary className="cursor-pointer">Days replayed</summary>
+            <p className="mt-2">{report.dayNames.join(", ")}</p>
+          </details>
+        </div>
+      ) : null}
+    </div>
+  )
+}
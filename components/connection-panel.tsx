@@ -0,0 +1,264 @@
+"use client"
+
+import * as React from "react"
+import { cn } from "@/lib/utils"
+import {
+  timestampToLabel,
+  type Connection,
+  type ConnectionHold,
+  type ConnectionState,
+  type ConnectionStatus,
+  type Train,
+} from "@/lib/scheduler"
+
+const STATE_LABELS: Record<ConnectionState, string> = {
+  ok: "OK",
+  "at-risk": "At risk",
+  broken: "Broken",
+  missing: "No platform",
+}
+
+const STATE_CLASSES: Record<ConnectionState, string> = {
+  ok: "text-emerald-700",
+  "at-risk": "text-amber-700",
+  broken: "text-rose-600",
+  missing: "text-rose-600",
+}
+
+// at-risk and broken transfers first, most passengers first
+const URGENCY: Record<ConnectionState, number> = { broken: 0, missing: 1, "at-risk": 2, ok: 3 }
+
+type Draft = {
+  fromTrain: string
+  toTrain: string
+  minTransfer: number
+  passengers: number
+}
+
+const EMPTY_DRAFT: Draft = { fromTrain: "", toTrain: "", minTransfer: 5, passengers: 50 }
+
+// Passenger connections with their status in the plan on screen: at-risk and broken transfers on top, with the
+// departure hold that would save a broken one and what it costs. Connections are added and removed here.
+export default function ConnectionPanel({
+  statuses,
+  trains,
+  reference,
+  onAdd,
+  onRemove,
+  onHold,
+  onRelease,
+}: {
+  statuses: ConnectionStatus[]
+  trains: Train[]
+  // timestamp the time labels are relative to
+  reference: number
+  onAdd: (connection: Connection) => void
+  onRemove: (connection: Connection) => void
+  // holds only apply to live trains; without these the panel shows no hold decisions
+  onHold?: (hold: ConnectionHold, connection: Connection) => void
+  // releases a departure hold of the train
+  onRelease?: (trainId: string) => void
+}) {
+  const [draft, setDraft] = React.useState<Draft>(EMPTY_DRAFT)
+  const names = new Map(trains.map((t) => [t.id, t.name]))
+  const name = (id: string) => names.get(id) ?? id
+  const held = trains.filter((t) => (t.departureHold ?? 0) > 0)
+  const ordered = [...statuses].sort(
+    (a, b) => URGENCY[a.state] - URGENCY[b.state] || b.connection.passengers - a.connection.passengers,
+  )
+  const atRisk = statuses.filter((s) => s.state !== "ok").length
+  const valid = draft.fromTrain !== "" && draft.toTrain !== "" && draft.fromTrain !== draft.toTrain
+
+  return (
+    <div className="flex flex-col gap-3">
+      <p className="text-sm text-foreground">
+        {statuses.length === 0
+          ? "No connections defined."
+          : `${statuses.length} connection${statuses.length === 1 ? "" : "s"}, ${atRisk} at risk or broken.`}
+      </p>
+
+      {ordered.length > 0 ? (
+        <div className="overflow-x-auto">
+          <table className="w-full border border-border text-left text-sm">
+            <thead>
+              <tr className="bg-background">
+                <th scope="col" className="px-3 py-2">
+                  From
+                </th>
+                <th scope="col" className="px-3 py-2">
+                  To
+                </th>
+                <th scope="col" className="px-3 py-2">
+                  Passengers
+                </th>
+                <th scope="col" className="px-3 py-2">
+                  Platforms
+                </th>
+                <th scope="col" className="px-3 py-2">
+                  Transfer (min)
+                </th>
+                <th scope="col" className="px-3 py-2">
+                  Slack (min)
+                </th>
+                <th scope="col" className="px-3 py-2">
+                  Status
+                </th>
+                <th scope="col" className="px-3 py-2">
+                  Decision
+                </th>
+              </tr>
+            </thead>
+            <tbody>
+              {ordered.map((s) => {
+                const { connection: c, hold } = s
+                return (
+                  <tr key={`${c.fromTrain}-${c.toTrain}`} className="border-t border-border align-top">
+                    <td className="px-3 py-2 text-foreground">{name(c.fromTrain)}</td>
+                    <td className="px-3 py-2 text-foreground">{name(c.toTrain)}</td>
+                    <td className="px-3 py-2 text-foreground">{c.passengers}</td>
+                    <td className="px-3 py-2 text-foreground">
+                      {s.fromPlatform ?? "—"} → {s.toPlatform ?? "—"}
+                    </td>
+                    <td className="px-3 py-2 text-foreground">
+                      {s.transferTime ?? "—"}
+                      {s.transferTime !== undefined && s.transferTime > c.minTransfer ? (
+                        <span className="ml-1 text-xs">(incl. {s.transferTime - c.minTransfer} walking)</span>
+                      ) : null}
+                    </td>
+                    <td className="px-3 py-2 text-foreground">{s.slack ?? "—"}</td>
+                    <td className={cn("px-3 py-2 font-medium", STATE_CLASSES[s.state])}>{STATE_LABELS[s.state]}</td>
+                    <td className="px-3 py-2 text-foreground">
+                      <div className="flex flex-wrap items-center gap-2">
+                        {hold && onHold ? (
+                          <button
+                            type="button"
+                            onClick={() => onHold(hold, c)}
+                            className="rounded border border-border bg-background px-2 py-0.5 text-xs"
+                            title={`Cost ${hold.cost}: ${hold.minutes} min of delay weighted by the train's priority`}
+                          >
+                            Hold {name(hold.trainId)} {hold.minutes} min (to{" "}
+                            {timestampToLabel(hold.until, reference)}), cost {hold.cost}
+                          </button>
+                        ) : s.state === "broken" && !hold ? (
+                          <span className="text-xs">too late to hold</span>
+                        ) : null}
+                        <button
+                          type="button"
+                          onClick={() => onRemove(c)}
+                          className="rounded border border-border bg-background px-2 py-0.5 text-xs"
+                        >
+                          Remove
+                        </button>
+                      </div>
+                      {hold && hold.conflicts.length > 0 ? (
+                        <ul className="mt-1 text-xs text-rose-600">
+                          {hold.conflicts.map((conflict, i) => (
+                            <li key={i}>
+                              {conflict.trainId ? `${name(conflict.trainId)}: ` : ""}
+                              {conflict.message}
+                            </li>
+                          ))}
+                        </ul>
+                      ) : null}
+                    </td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+          <p className="mt-1 text-xs text-foreground">
+            Transfer time is the connection's minimum on the same platform or island, plus walking to another one.
+          </p>
+        </div>
+      ) : null}
+
+      {onRelease && held.length > 0 ? (
+        <ul className="flex flex-col gap-1 text-sm text-foreground">
+          {held.map((t) => (
+            <li key={t.id} className="flex items-center gap-2">
+              {t.name} held {t.departureHold} min for a connection
+              <button
+                type="button"
+                onClick={() => onRelease(t.id)}
+                className="rounded border border-border bg-background px-2 py-0.5 text-xs"
+              >
+                Release
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : null}
+
+      <form
+        className="flex flex-wrap items-end gap-3"
+        aria-label="Add connection"
+        onSubmit={(e) => {
+          e.preventDefault()
+          if (!valid) return
+          onAdd(draft)
+          setDraft(EMPTY_DRAFT)
+        }}
+      >
+        <label className="flex flex-col gap-1 text-sm text-foreground">
+          From train
+          <select
+            value={draft.fromTrain}
+            onChange={(e) => setDraft((d) => ({ ...d, fromTrain: e.target.value }))}
+            className="rounded border border-border bg-background px-2 py-1"
+          >
+            <option value="">—</option>
+            {trains.map((t) => (
+              <option key={t.id} value={t.id}>
+                {t.name}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1 text-sm text-foreground">
+          To train
+          <select
+            value={draft.toTrain}
+            onChange={(e) => setDraft((d) => ({ ...d, toTrain: e.target.value }))}
+            className="rounded border border-border bg-background px-2 py-1"
+          >
+            <option value="">—</option>
+            {trains.map((t) => (
+              <option key={t.id} value={t.id}>
+                {t.name}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1 text-sm text-foreground">
+          Min. transfer (min)
+          <input
+            type="number"
+            min={0}
+            value={draft.minTransfer}
+            onChange={(e) => setDraft((d) => ({ ...d, minTransfer: Math.max(0, Number(e.target.value) || 0) }))}
+            className="w-20 rounded border border-border bg-background px-2 py-1"
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-sm text-foreground">
+          Passengers
+          <input
+            type="number"
+            min={0}
+            value={draft.passengers}
+            onChange={(e) =>
+              setDraft((d) => ({ ...d, passengers: Math.max(0, Math.round(Number(e.target.value) || 0)) }))
+            }
+            className="w-24 rounded border border-border bg-background px-2 py-1"
+          />
+        </label>
+        <button
+          type="submit"
+          disabled={!valid}
+          className="rounded border border-border bg-background px-3 py-1 text-sm text-foreground disabled:opacity-50"
+        >
+          Add connection
+        </button>
+      </form>
+    </div>
+  )
+}
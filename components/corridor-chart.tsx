@@ -0,0 +1,188 @@
+"use client"
+
+import * as React from "react"
+import { CartesianGrid, Line, LineChart, ReferenceDot, ReferenceLine, XAxis, YAxis } from "recharts"
+import { ChartContainer } from "@/components/ui/chart"
+import {
+  timestampToLabel,
+  windowEnd,
+  windowTicks,
+  type Corridor,
+  type CorridorRun,
+  type SectionConflict,
+  type TimeWindow,
+} from "@/lib/scheduler"
+
+type Point = { time: number; km: number }
+
+function minutes(value: number) {
+  return Math.round(value * 10) / 10
+}
+
+// Time-distance chart ("string line") of the corridor: one line per train through its calls, scheduled dashed and
+// projected solid, conflicts on the line marked, with the delays each train carries in and out of every station below
+export default function CorridorChart({
+  corridor,
+  runs,
+  timeWindow,
+  now,
+  settled,
+  conflicts = [],
+}: {
+  corridor: Corridor
+  runs: CorridorRun[]
+  timeWindow: TimeWindow
+  now?: number
+  // false when the corridor plan stopped before its delays settled
+  settled: boolean
+  // conflicts on the line, marked mid-section
+  conflicts?: SectionConflict[]
+}) {
+  const kmOf = new Map(corridor.stations.map((s) => [s.id, s.km]))
+  const nameAt = new Map(corridor.stations.map((s) => [s.km, s.name]))
+  const lines = runs.map((run) => {
+    const calls = run.calls.filter((c) => kmOf.has(c.stationId))
+    const first = calls.length > 0 ? kmOf.get(calls[0].stationId)! : 0
+    const last = calls.length > 0 ? kmOf.get(calls[calls.length - 1].stationId)! : 0
+    return {
+      run,
+      up: last < first,
+      scheduled: calls.flatMap((c): Point[] => [
+        { time: c.arrival, km: kmOf.get(c.stationId)! },
+        { time: c.departure, km: kmOf.get(c.stationId)! },
+      ]),
+      projected: calls.flatMap((c): Point[] => [
+        { time: c.projectedArrival, km: kmOf.get(c.stationId)! },
+        { time: c.projectedDeparture, km: kmOf.get(c.stationId)! },
+      ]),
+    }
+  })
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="overflow-x-auto">
+        <ChartContainer
+          config={{
+            scheduled: { label: "Scheduled", color: "#94A3B8" },
+            down: { label: "Down", color: "#0369A1" },
+            up: { label: "Up", color: "#B45309" },
+          }}
+          className="h-[320px] w-full rounded border border-border bg-background"
+          role="img"
+          aria-label={`Time-distance chart of ${runs.length} trains through ${corridor.stations
+            .map((s) => s.name)
+            .join(", ")}`}
+        >
+          <LineChart margin={{ left: 12, right: 24, top: 12, bottom: 8 }}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis
+              dataKey="time"
+              type="number"
+              domain={[timeWindow.start, windowEnd(timeWindow)]}
+              ticks={windowTicks(timeWindow)}
+              tickFormatter={(t: number) => timestampToLabel(t, timeWindow.start)}
+              allowDataOverflow
+            />
+            <YAxis
+              dataKey="km"
+              type="number"
+              reversed
+              domain={[0, Math.max(...corridor.stations.map((s) => s.km))]}
+              ticks={corridor.stations.map((s) => s.km)}
+              tickFormatter={(km: number) => nameAt.get(km) ?? `${km} km`}
+              width={90}
+            />
+            {now !== undefined ? <ReferenceLine x={now} stroke="#0369A1" strokeDasharray="2 2" /> : null}
+            {conflicts.map((c, i) => (
+              <ReferenceDot
+                key={i}
+                x={c.at}
+                y={(corridor.stations[c.section].km + corridor.stations[c.section + 1].km) / 2}
+                r={5}
+                fill="#E11D48"
+                stroke="none"
+                ifOverflow="hidden"
+              />
+            ))}
+            {lines.map(({ run, scheduled }) => (
+              <Line
+                key={`scheduled-${run.trainId}`}
+                data={scheduled}
+                dataKey="km"
+                name={`${run.name} (scheduled)`}
+                stroke="var(--color-scheduled)"
+                strokeDasharray="4 4"
+                dot={false}
+                isAnimationActive={false}
+              />
+            ))}
+            {lines.map(({ run, up, projected }) => (
+              <Line
+                key={run.trainId}
+                data={projected}
+                dataKey="km"
+                name={run.name}
+                stroke={up ? "var(--color-up)" : "var(--color-down)"}
+                strokeWidth={2}
+                dot={false}
+                isAnimationActive={false}
+              />
+            ))}
+          </LineChart>
+        </ChartContainer>
+      </div>
+      <p className="text-xs text-foreground">
+        Dashed: timetable. Solid: projected, blue for down trains and amber for up trains. Red dots: conflicts on the
+        line. A train leaving a station late arrives at the next as late, less the running-time allowance of the
+        section.
+        {settled ? "" : " Up and down trains were still delaying each other when the corridor plan stopped."}
+      </p>
+
+      <details className="text-sm text-foreground">
+        <summary className="cursor-pointer">Delays by station (min in / out)</summary>
+        <div className="mt-2 overflow-x-auto">
+          <table className="w-full border border-border text-left text-sm">
+            <thead>
+              <tr className="bg-background">
+                <th scope="col" className="px-3 py-2">
+                  Train
+                </th>
+                {corridor.stations.map((s) => (
+                  <th key={s.id} scope="col" className="px-3 py-2">
+                    {s.name}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {runs.map((run) => (
+                <tr key={run.trainId} className="border-t border-border">
+                  <td className="px-3 py-2 text-foreground">{run.name}</td>
+                  {corridor.stations.map((s) => {
+                    const call = run.calls.find((c) => c.stationId === s.id)
+                    return (
+                      <td key={s.id} className="px-3 py-2 text-foreground">
+                        {call ? (
+                          <>
+                            {minutes(call.arrivalDelay)} / {minutes(call.departureDelay)}
+                            {call.platformId === undefined ? (
+                              <span className="ml-1 text-xs text-rose-600">no platform</span>
+                            ) : (
+                              <span className="ml-1 text-xs">P{call.platformId}</span>
+                            )}
+                          </>
+                        ) : (
+                          "—"
+                        )}
+                      </td>
+                    )
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </details>
+    </div>
+  )
+}
@@ -0,0 +1,147 @@
+"use client"
+
+import * as React from "react"
+import { cn } from "@/lib/utils"
+import {
+  timestampToLabel,
+  type AssignedTrain,
+  type AssignmentReason,
+  type PlatformCandidate,
+  type ScoreTermKey,
+  type TrainAssignment,
+} from "@/lib/scheduler"
+
+const REASON_TEXT: Record<AssignmentReason, string> = {
+  "best-score": "lowest score among the platforms free at its arrival",
+  "opened-platform": "no platform in use could take it, so another one was opened",
+  optimized: "placed by the optimal solver; scores are against the finished plan",
+  overflow: "every platform was busy at its arrival",
+  frozen: "kept on its announced platform inside the freeze horizon",
+  pinned: "pinned by a dispatcher",
+  turnaround: "formed by the rake of the train before it on the platform",
+}
+
+const TERM_LABELS: [ScoreTermKey, string][] = [
+  ["idleGap", "Idle gap"],
+  ["load", "Load"],
+  ["delayedSpread", "Delayed spread"],
+  ["margin", "Margin"],
+  ["platformChange", "Platform change"],
+  ["connection", "Connection walk"],
+]
+
+// feasible platforms by score, then the ones ruled out
+function byScore(a: PlatformCandidate, b: PlatformCandidate) {
+  return (a.score ?? Number.POSITIVE_INFINITY) - (b.score ?? Number.POSITIVE_INFINITY) || a.platformId - b.platformId
+}
+
+// Why a train is on its platform: the solver's reason, and every platform it considered with the terms of its
+// score or the reasons it was ruled out
+export default function DecisionPanel({
+  train,
+  assignment,
+  reference,
+  onClose,
+}: {
+  train: AssignedTrain
+  assignment: TrainAssignment
+  // timestamp the time labels are relative to
+  reference: number
+  onClose: () => void
+}) {
+  const candidates = [...assignment.candidates].sort(byScore)
+  // the optimal solver minimises the cost of the whole plan, not each train's score
+  const optimized = assignment.reason === "optimized"
+  const overflow = assignment.overflow ? ` (${assignment.overflow}, +${assignment.extraDelay} min)` : ""
+
+  return (
+    <div className="flex flex-col gap-3 rounded border border-primary p-4" aria-live="polite">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-semibold text-primary">
+            {train.name} on Platform {assignment.platformId} at {timestampToLabel(train.effectiveArrival, reference)}
+          </h3>
+          <p className="text-sm text-foreground">
+            {REASON_TEXT[assignment.reason]}
+            {overflow}
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={onClose}
+          className="rounded border border-border bg-background px-3 py-1 text-sm text-foreground"
+        >
+          Close
+        </button>
+      </div>
+
+      {candidates.length === 0 ? (
+        <p className="text-sm text-foreground">No other platform was considered.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full border border-border text-left text-sm">
+            <thead>
+              <tr className="bg-background">
+                <th scope="col" className="px-3 py-2">
+                  Platform
+                </th>
+                {TERM_LABELS.map(([key, label]) => (
+                  <th key={key} scope="col" className="px-3 py-2">
+                    {label}
+                  </th>
+                ))}
+                <th scope="col" className="px-3 py-2">
+                  Score
+                </th>
+                <th scope="col" className="px-3 py-2">
+                  Outcome
+                </th>
+              </tr>
+            </thead>
+            <tbody>
+              {candidates.map((c) => {
+                const chosen = c.platformId === assignment.platformId
+                const reasons = [...c.incompatibilities, ...c.conflicts].map((r) => r.message)
+                return (
+                  <tr
+                    key={c.platformId}
+                    className={cn("border-t border-border align-top", chosen && "bg-primary/10 font-medium")}
+                  >
+                    <td className="px-3 py-2">{c.platformId}</td>
+                    {TERM_LABELS.map(([key]) => {
+                      const term = c.terms?.[key]
+                      return (
+                        <td
+                          key={key}
+                          className="px-3 py-2"
+                          title={term ? `${term.value.toFixed(1)} × weight ${term.weight}` : undefined}
+                        >
+                          {term ? term.cost.toFixed(1) : "—"}
+                        </td>
+                      )
+                    })}
+                    <td className="px-3 py-2">{c.score === undefined ? "—" : c.score.toFixed(1)}</td>
+                    <td className="px-3 py-2">
+                      {chosen ? "chosen" : reasons.length > 0 ? null : optimized ? "feasible" : "higher score"}
+                      {reasons.length > 0 ? (
+                        <ul className="text-xs text-rose-600">
+                          {reasons.map((r, i) => (
+                            <li key={i}>{r}</li>
+                          ))}
+                        </ul>
+                      ) : null}
+                    </td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+          <p className="mt-1 text-xs text-foreground">
+            Each term is its measure times its weight; hover a term for both.
+            {optimized ? "" : " The lowest score wins."}
+          </p>
+        </div>
+      )}
+    </div>
+  )
+}
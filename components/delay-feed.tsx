@@ -0,0 +1,197 @@
+"use client"
+
+import * as React from "react"
+import { cn } from "@/lib/utils"
+import {
+  dayStart,
+  delayScriptSchema,
+  randomDelayFeed,
+  scriptedDelayFeed,
+  streamDelayFeed,
+  timestampToLabel,
+  type DelayEvent,
+  type DelayFeed,
+  type FeedStatus,
+  type Train,
+} from "@/lib/scheduler"
+
+type FeedKind = "random" | "scripted" | "stream"
+
+const FEED_LABELS: Record<FeedKind, string> = {
+  random: "Random simulator",
+  scripted: "Scripted scenario",
+  stream: "Live stream",
+}
+
+// Served from public/fixtures; the mock server (pnpm mock:feed) streams the same scenario
+const SAMPLE_SCRIPT_URL = "/fixtures/delay-script.json"
+const DEFAULT_STREAM_URL = "http://localhost:4010/events"
+
+const STATUS_CLASSES: Record<FeedStatus, string> = {
+  connecting: "bg-amber-500",
+  open: "bg-emerald-500",
+  finished: "bg-slate-500",
+  closed: "bg-slate-500",
+  error: "bg-rose-500",
+}
+
+// Recent events shown under the controls
+const LOG_LENGTH = 8
+
+// Picks and runs one delay feed; every event is handed to `onEvent`, which re-plans the station. `recorded` is false
+// for events of a demo feed unless the dispatcher asked to record them, so an idle board does not fill the plan
+// history and audit log.
+export default function DelayFeedControl({
+  trains,
+  onEvent,
+}: {
+  trains: Train[]
+  onEvent: (event: DelayEvent, recorded: boolean) => void
+}) {
+  const [kind, setKind] = React.useState<FeedKind>("random")
+  const [running, setRunning] = React.useState(true)
+  const [streamUrl, setStreamUrl] = React.useState(DEFAULT_STREAM_URL)
+  const [status, setStatus] = React.useState<{ status: FeedStatus; detail?: string } | null>(null)
+  const [log, setLog] = React.useState<DelayEvent[]>([])
+  const [feed, setFeed] = React.useState<DelayFeed | null>(null)
+  const [recordDemo, setRecordDemo] = React.useState(false)
+
+  // The random simulator reads the board when it ticks; a ref keeps the subscription from restarting on every event
+  const trainsRef = React.useRef(trains)
+  trainsRef.current = trains
+  const onEventRef = React.useRef(onEvent)
+  onEventRef.current = onEvent
+  const recordDemoRef = React.useRef(recordDemo)
+  recordDemoRef.current = recordDemo
+
+  // Build the selected feed; the scripted scenario is fetched first
+  React.useEffect(() => {
+    setFeed(null)
+    setStatus(null)
+    if (kind === "random") {
+      setFeed(randomDelayFeed(() => trainsRef.current))
+      return
+    }
+    if (kind === "stream") {
+      setFeed(streamDelayFeed(streamUrl, dayStart()))
+      return
+    }
+    let cancelled = false
+    fetch(SAMPLE_SCRIPT_URL)
+      .then((res) => {
+        if (!res.ok) throw new Error(`${SAMPLE_SCRIPT_URL}: ${res.status}`)
+        return res.json()
+      })
+      .then((data) => {
+        const script = delayScriptSchema.parse(data)
+        if (!cancelled) setFeed(scriptedDelayFeed(script, dayStart()))
+      })
+      .catch((e) => {
+        if (!cancelled) setStatus({ status: "error", detail: (e as Error).message })
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [kind, streamUrl])
+
+  React.useEffect(() => {
+    if (!feed || !running) return
+    return feed.subscribe({
+      onEvent: (event) => {
+        setLog((prev) => [event, ...prev].slice(0, LOG_LENGTH))
+        onEventRef.current(event, !feed.demo || recordDemoRef.current)
+      },
+      onStatus: (next, detail) => setStatus({ status: next, detail }),
+    })
+  }, [feed, running])
+
+  const names = new Map(trains.map((t) => [t.id, t.name]))
+
+  return (
+    <div className="flex flex-col gap-3 rounded border border-border p-4">
+      <h3 className="text-lg font-semibold text-primary">Delay Feed</h3>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <div className="flex items-center gap-2" role="group" aria-label="Delay feed">
+          {(Object.keys(FEED_LABELS) as FeedKind[]).map((k) => (
+            <button
+              key={k}
+              type="button"
+              onClick={() => {
+                setKind(k)
+                setLog([])
+              }}
+              aria-pressed={kind === k}
+              className={cn(
+                "rounded border border-border px-3 py-1 text-sm",
+                kind === k ? "bg-primary text-primary-foreground" : "bg-background text-foreground",
+              )}
+            >
+              {FEED_LABELS[k]}
+            </button>
+          ))}
+        </div>
+
+        {kind === "stream" ? (
+          <form
+            className="flex items-center gap-2"
+            onSubmit={(e) => {
+              e.preventDefault()
+              const url = new FormData(e.currentTarget).get("url")
+              if (typeof url === "string" && url.trim()) setStreamUrl(url.trim())
+            }}
+          >
+            <input
+              name="url"
+              defaultValue={streamUrl}
+              aria-label="Stream URL (ws://, wss:// or http(s):// for Server-Sent Events)"
+              className="w-72 rounded border border-border bg-background px-2 py-1 text-sm"
+            />
+            <button type="submit" className="rounded border border-border bg-background px-3 py-1 text-sm">
+              Connect
+            </button>
+          </form>
+        ) : null}
+
+        <button
+          type="button"
+          onClick={() => setRunning((r) => !r)}
+          aria-pressed={!running}
+          className="rounded border border-border bg-background px-3 py-1 text-sm text-foreground"
+        >
+          {running ? "Pause" : "Resume"}
+        </button>
+
+        {feed?.demo ? (
+          <label className="flex items-center gap-2 text-sm text-foreground">
+            <input type="checkbox" checked={recordDemo} onChange={(e) => setRecordDemo(e.target.checked)} />
+            Save and audit simulated delays
+          </label>
+        ) : null}
+
+        {status ? (
+          <span className="flex items-center gap-2 text-sm text-foreground" aria-live="polite">
+            <span
+              className={cn("inline-block h-2 w-2 rounded-full", STATUS_CLASSES[status.status])}
+              aria-hidden="true"
+            />
+            {status.status}
+            {status.detail ? <span className="text-xs">({status.detail})</span> : null}
+          </span>
+        ) : null}
+      </div>
+
+      {log.length > 0 ? (
+        <ul className="flex flex-col gap-1 text-xs text-foreground" aria-label="Recent delay events">
+          {log.map((e, i) => (
+            <li key={`${e.receivedAt}-${e.trainId}-${i}`}>
+              {timestampToLabel(e.receivedAt)} · {names.get(e.trainId) ?? `unknown train ${e.trainId}`} ETA{" "}
+              {timestampToLabel(e.eta, e.receivedAt)}
+              {e.reason ? ` · ${e.reason}` : ""}
+            </li>
+          ))}
+        </ul>
+      ) : null}
+    </div>
+  )
+}
@@ -0,0 +1,295 @@
+"use client"
+
+import * as React from "react"
+import { cn } from "@/lib/utils"
+import { diffPlans, diffSize, type PlanDiff, type PlanVersion, type PlanVersionSummary } from "@/lib/api/history"
+import type { SchedulePlan } from "@/lib/api/schedule"
+import { parseTimestamp, timestampToLabel } from "@/lib/scheduler"
+
+const TRIGGER_LABELS: Record<PlanVersion["trigger"]["kind"], string> = {
+  delay: "Delay",
+  override: "Override",
+  blockage: "Blockage",
+  import: "Import",
+  settings: "Settings",
+  clock: "Clock",
+  api: "API",
+}
+
+// Clock label of an ISO time from the API; "–" for open-ended times
+function clockLabel(iso: string | null, reference?: number) {
+  const t = iso === null ? null : parseTimestamp(iso, 0)
+  return t === null ? "–" : timestampToLabel(t, reference)
+}
+
+function savedLabel(savedAt: string) {
+  return new Date(savedAt).toLocaleString()
+}
+
+// GET /api/plans: newest first
+type PlanPageResponse = { versions: PlanVersionSummary[]; nextBefore: number | null }
+
+async function fetchJson<T>(url: string): Promise<T> {
+  const res = await fetch(url, { cache: "no-store" })
+  const data = await res.json()
+  if (!res.ok) throw new Error(data.error?.message ?? `${url}: ${res.status}`)
+  return data as T
+}
+
+// Saved plan versions: open any of them, or tick two to compare them side by side
+export default function PlanHistory() {
+  const [versions, setVersions] = React.useState<PlanVersionSummary[] | null>(null)
+  // version the next older page starts before; null when the oldest kept version is listed
+  const [nextBefore, setNextBefore] = React.useState<number | null>(null)
+  const [error, setError] = React.useState<string | null>(null)
+  const [opened, setOpened] = React.useState<PlanVersion | null>(null)
+  // at most two version numbers, in the order they were ticked
+  const [compared, setCompared] = React.useState<number[]>([])
+  const [comparison, setComparison] = React.useState<[PlanVersion, PlanVersion] | null>(null)
+
+  // the newest page, or the page before `before` added below the listed versions
+  const load = React.useCallback((before?: number) => {
+    fetchJson<PlanPageResponse>(before === undefined ? "/api/plans" : `/api/plans?before=${before}`)
+      .then((data) => {
+        setVersions((prev) => (before === undefined ? data.versions : [...(prev ?? []), ...data.versions]))
+        setNextBefore(data.nextBefore)
+        setError(null)
+      })
+      .catch((e: Error) => setError(e.message))
+  }, [])
+  const refresh = React.useCallback(() => load(), [load])
+  React.useEffect(refresh, [refresh])
+
+  async function open(version: number) {
+    try {
+      setOpened(await fetchJson<PlanVersion>(`/api/plans/${version}`))
+      setComparison(null)
+    } catch (e) {
+      setError((e as Error).message)
+    }
+  }
+
+  function toggleCompare(version: number) {
+    setCompared((prev) =>
+      prev.includes(version) ? prev.filter((v) => v !== version) : [...prev, version].slice(-2),
+    )
+  }
+
+  async function compare() {
+    // older version on the left
+    const [a, b] = [...compared].sort((x, y) => x - y)
+    try {
+      const [before, after] = await Promise.all([a, b].map((v) => fetchJson<PlanVersion>(`/api/plans/${v}`)))
+      setComparison([before, after])
+      setOpened(null)
+    } catch (e) {
+      setError((e as Error).message)
+    }
+  }
+
+  return (
+    <div className="flex flex-col gap-6">
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          type="button"
+          onClick={refresh}
+          className="rounded border border-border bg-background px-3 py-1 text-sm text-foreground"
+        >
+          Refresh
+        </button>
+        <button
+          type="button"
+          onClick={compare}
+          disabled={compared.length !== 2}
+          className="rounded border border-border bg-background px-3 py-1 text-sm text-foreground disabled:opacity-50"
+        >
+          Compare {compared.length === 2 ? `versions ${compared.join(" and ")}` : "two versions"}
+        </button>
+      </div>
+
+      {error ? (
+        <p className="text-sm text-rose-600" role="alert">
+          {error}
+        </p>
+      ) : null}
+
+      {comparison ? (
+        <div className="flex flex-col gap-3">
+          <h2 className="text-lg font-semibold text-primary">
+            Version {comparison[0].version} and version {comparison[1].version}
+          </h2>
+          <DiffList
+            diff={diffPlans(comparison[0].result, comparison[1].result)}
+            names={trainNames(comparison[0].result, comparison[1].result)}
+          />
+          <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+            <PlanSnapshot version={comparison[0]} />
+            <PlanSnapshot version={comparison[1]} />
+          </div>
+        </div>
+      ) : null}
+
+      {opened ? (
+        <div className="flex flex-col gap-3">
+          <PlanSnapshot version={opened} />
+          <div className="text-sm font-medium text-foreground">Changes from the previous version</div>
+          <DiffList diff={opened.diff} names={trainNames(opened.result)} />
+        </div>
+      ) : null}
+
+      {versions === null ? null : versions.length === 0 ? (
+        <p className="text-sm text-foreground">No plan has been saved yet.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full border-collapse text-sm">
+            <thead>
+              <tr className="border-b border-border text-left text-foreground">
+                <th className="p-2">Compare</th>
+                <th className="p-2">Version</th>
+                <th className="p-2">Saved</th>
+                <th className="p-2">Trigger</th>
+                <th className="p-2">Trains</th>
+                <th className="p-2">Platforms</th>
+                <th className="p-2">Extra delay</th>
+                <th className="p-2">Changes</th>
+                <th className="p-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {versions.map((v) => (
+                <tr
+                  key={v.version}
+                  className={cn(
+                    "border-b border-border text-foreground",
+                    (opened?.version === v.version || compared.includes(v.version)) && "bg-muted",
+                  )}
+                >
+                  <td className="p-2">
+                    <input
+                      type="checkbox"
+                      checked={compared.includes(v.version)}
+                      onChange={() => toggleCompare(v.version)}
+                      aria-label={`Compare version ${v.version}`}
+                    />
+                  </td>
+                  <td className="p-2 font-medium">{v.version}</td>
+                  <td className="p-2">{savedLabel(v.savedAt)}</td>
+                  <td className="p-2">
+                    {TRIGGER_LABELS[v.trigger.kind]}
+                    {v.trigger.detail ? <span className="text-xs"> · {v.trigger.detail}</span> : null}
+                    {v.trigger.actor ? <span className="text-xs"> · by {v.trigger.actor}</span> : null}
+                  </td>
+                  <td className="p-2">{v.trains}</td>
+                  <td className="p-2">{v.platformsUsed}</td>
+                  <td className="p-2">{v.totalExtraDelay} min</td>
+                  <td className="p-2">{v.changes}</td>
+                  <td className="p-2">
+                    <button
+                      type="button"
+                      onClick={() => open(v.version)}
+                      className="rounded border border-border bg-background px-2 py-0.5 text-xs"
+                    >
+                      Open
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {nextBefore !== null ? (
+            <button
+              type="button"
+              onClick={() => load(nextBefore)}
+              className="mt-2 rounded border border-border bg-background px-3 py-1 text-sm text-foreground"
+            >
+              Load older versions
+            </button>
+          ) : null}
+        </div>
+      )}
+    </div>
+  )
+}
+
+function trainNames(...results: SchedulePlan[]) {
+  return new Map(
+    results.flatMap((r) => [
+      ...r.plan.platforms.flatMap((pl) => pl.trains.map((t) => [t.id, t.name] as const)),
+      ...r.plan.unassigned.map((u) => [u.train.id, u.train.name] as const),
+    ]),
+  )
+}
+
+function PlanSnapshot({ version }: { version: PlanVersion }) {
+  const { plan, metrics } = version.result
+  const first = plan.platforms.flatMap((pl) => pl.trains).map((t) => parseTimestamp(t.effectiveArrival!, 0)!)
+  const reference = first.length > 0 ? Math.min(...first) : undefined
+  return (
+    <div className="flex flex-col gap-2 rounded border border-border p-4">
+      <h3 className="text-base font-semibold text-primary">
+        Version {version.version} · {savedLabel(version.savedAt)}
+      </h3>
+      <div className="text-xs text-foreground">
+        {TRIGGER_LABELS[version.trigger.kind]}
+        {version.trigger.detail ? `: ${version.trigger.detail}` : ""}
+        {version.trigger.actor ? ` by ${version.trigger.actor}` : ""} · {plan.solver} solver ·{" "}
+        {metrics.platformsUsed} platforms · +{metrics.totalExtraDelay} min held
+      </div>
+      <table className="w-full border-collapse text-xs">
+        <tbody>
+          {plan.platforms.map((pl) => (
+            <tr key={pl.id} className="border-b border-border align-top text-foreground">
+              <th className="w-24 p-1 text-left">Platform {pl.id}</th>
+              <td className="p-1">
+                <ul className="flex flex-col gap-0.5">
+                  {pl.trains.map((t) => (
+                    <li key={t.id}>
+                      {t.name} {clockLabel(t.effectiveArrival, reference)}–
+                      {clockLabel(t.effectiveDeparture, reference)}
+                      {t.heldMinutes > 0 ? ` (held ${t.heldMinutes} min)` : ""}
+                    </li>
+                  ))}
+                </ul>
+              </td>
+            </tr>
+          ))}
+          {plan.unassigned.length > 0 ? (
+            <tr className="align-top text-rose-600">
+              <th className="w-24 p-1 text-left">No platform</th>
+              <td className="p-1">{plan.unassigned.map((u) => u.train.name).join(", ")}</td>
+            </tr>
+          ) : null}
+        </tbody>
+      </table>
+    </div>
+  )
+}
+
+function DiffList({ diff, names }: { diff: PlanDiff; names: Map<string, string> }) {
+  const name = (id: string) => names.get(id) ?? id
+  if (diffSize(diff) === 0) return <p className="text-sm text-foreground">No differences.</p>
+  return (
+    <ul className="flex flex-col gap-1 text-sm text-foreground" aria-label="Differences">
+      {diff.moved.map((m) => (
+        <li key={`moved-${m.trainId}`}>
+          {name(m.trainId)}: Platform {m.from} → {m.to === undefined ? "no platform" : `Platform ${m.to}`}
+        </li>
+      ))}
+      {diff.retimed.map((r) => (
+        <li key={`retimed-${r.trainId}`}>
+          {name(r.trainId)}: arrives {Math.abs(r.minutes)} min {r.minutes > 0 ? "later" : "earlier"}
+        </li>
+      ))}
+      {diff.added.map((id) => (
+        <li key={`added-${id}`} className="text-emerald-600">
+          {name(id)} added
+        </li>
+      ))}
+      {diff.removed.map((id) => (
+        <li key={`removed-${id}`} className="text-rose-600">
+          {name(id)} removed
+        </li>
+      ))}
+    </ul>
+  )
+}
@@ -0,0 +1,153 @@
+"use client"
+
+import * as React from "react"
+import {
+  sectionConflictKey,
+  timestampToLabel,
+  type Corridor,
+  type ScoredResolution,
+  type SectionConflict,
+  type SectionConflictKind,
+  type SectionHold,
+  type SectionResolution,
+} from "@/lib/scheduler"
+
+const KIND_LABELS: Record<SectionConflictKind, string> = {
+  crossing: "Crossing",
+  "catch-up": "Catch-up",
+}
+
+const WEIGHTED_DELAY_HINT =
+  "Delay the hold adds over the corridor once re-planned: every train's departure delay at every station, times its " +
+  "priority, knock-on to other trains included"
+
+// Conflicting movements on the line between the corridor's stations, each with the holds that resolve it (cheapest
+// first once scored), and the holds dispatchers have set
+export default function SectionConflictPanel({
+  corridor,
+  conflicts,
+  scores,
+  holds,
+  names,
+  reference,
+  onScore,
+  onHold,
+  onRelease,
+}: {
+  corridor: Corridor
+  conflicts: SectionConflict[]
+  // scored resolutions by sectionConflictKey, for the conflicts opened so far
+  scores: Map<string, ScoredResolution[]>
+  holds: SectionHold[]
+  // train names by id
+  names: Map<string, string>
+  // timestamp the time labels are relative to
+  reference: number
+  onScore: (conflict: SectionConflict) => void
+  onHold: (resolution: SectionResolution, conflict: SectionConflict) => void
+  onRelease: (hold: SectionHold) => void
+}) {
+  const name = (id: string) => names.get(id) ?? id
+  const stationName = new Map(corridor.stations.map((s) => [s.id, s.name]))
+  const describeSection = (index: number) => {
+    const section = corridor.sections[index]
+    const line = section.tracks === 1 ? "single line" : "double line"
+    return `${corridor.stations[index].name}–${corridor.stations[index + 1].name} (${line})`
+  }
+
+  return (
+    <div className="flex flex-col gap-3">
+      <p className="text-sm text-foreground">
+        {conflicts.length === 0
+          ? "No conflicting movements on the line."
+          : `${conflicts.length} conflicting movement${conflicts.length === 1 ? "" : "s"} on the line.`}
+      </p>
+
+      {conflicts.length > 0 ? (
+        <div className="overflow-x-auto">
+          <table className="w-full border border-border text-left text-sm">
+            <thead>
+              <tr className="bg-background">
+                <th scope="col" className="px-3 py-2">
+                  At
+                </th>
+                <th scope="col" className="px-3 py-2">
+                  Section
+                </th>
+                <th scope="col" className="px-3 py-2">
+                  Conflict
+                </th>
+                <th scope="col" className="px-3 py-2">
+                  Resolutions (weighted delay)
+                </th>
+              </tr>
+            </thead>
+            <tbody>
+              {conflicts.map((c) => {
+                const scored = scores.get(sectionConflictKey(c))
+                return (
+                  <tr key={sectionConflictKey(c)} className="border-t border-border align-top">
+                    <td className="px-3 py-2 text-foreground">{timestampToLabel(c.at, reference)}</td>
+                    <td className="px-3 py-2 text-foreground">{describeSection(c.section)}</td>
+                    <td className="px-3 py-2 text-foreground">
+                      <span className="font-medium text-rose-600">{KIND_LABELS[c.kind]}:</span> {c.message}
+                    </td>
+                    <td className="px-3 py-2 text-foreground">
+                      <div className="flex flex-wrap gap-2">
+                        {(scored ?? c.resolutions).map((r, i) => (
+                          <button
+                            key={`${r.trainId}-${r.stationId}`}
+                            type="button"
+                            onClick={() => onHold(r, c)}
+                            className="rounded border border-border bg-background px-2 py-0.5 text-xs"
+                            title={scored ? WEIGHTED_DELAY_HINT : undefined}
+                          >
+                            {scored && i === 0 ? "Best: " : ""}
+                            {name(r.trainId)} waits at {stationName.get(r.stationId) ?? r.stationId} {r.minutes} min
+                            {scored ? ` (${Number(scored[i].weightedDelay.toFixed(1))})` : ""}
+                          </button>
+                        ))}
+                        {scored ? null : (
+                          <button
+                            type="button"
+                            onClick={() => onScore(c)}
+                            className="rounded border border-border bg-background px-2 py-0.5 text-xs"
+                            title={WEIGHTED_DELAY_HINT}
+                          >
+                            Score
+                          </button>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+          <p className="mt-1 text-xs text-foreground">
+            A resolution holds one train at the station before the section; it can move the conflict further along the
+            line, which is then listed again. Scoring re-plans the corridor with each hold.
+          </p>
+        </div>
+      ) : null}
+
+      {holds.length > 0 ? (
+        <ul className="flex flex-col gap-1 text-sm text-foreground">
+          {holds.map((h) => (
+            <li key={`${h.trainId}-${h.stationId}`} className="flex items-center gap-2">
+              {name(h.trainId)} held at {stationName.get(h.stationId) ?? h.stationId} until{" "}
+              {timestampToLabel(h.until, reference)}
+              <button
+                type="button"
+                onClick={() => onRelease(h)}
+                className="rounded border border-border bg-background px-2 py-0.5 text-xs"
+              >
+                Release
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : null}
+    </div>
+  )
+}
@@ -0,0 +1,274 @@
+"use client"
+
+import * as React from "react"
+import {
+  dayStart,
+  decodeScenario,
+  encodeScenario,
+  parseScenario,
+  parseTimestamp,
+  simulateScenario,
+  simulationState,
+  timestampToLabel,
+  type PlatformBlock,
+  type Scenario,
+  type Train,
+} from "@/lib/scheduler"
+
+// Served from public/fixtures so the simulation works offline
+const SAMPLE_SCENARIO_URL = "/fixtures/scenarios/morning-peak.json"
+
+// Milliseconds between steps while playing
+const PLAY_INTERVAL_MS = 1000
+
+export type SimulationBoard = {
+  trains: Train[]
+  blocks: PlatformBlock[]
+  // simulated time after the current step; undefined before a scenario is loaded
+  clock?: number
+}
+
+// Query parameters of a share link
+function readShareLink() {
+  const params = new URLSearchParams(window.location.search)
+  const scenario = params.get("scenario")
+  if (!scenario) return null
+  const seed = Number(params.get("seed"))
+  const step = Number(params.get("step"))
+  return {
+    scenario,
+    seed: Number.isInteger(seed) && params.has("seed") ? seed : undefined,
+    step: Number.isInteger(step) && step > 0 ? step : 0,
+  }
+}
+
+export function hasShareLink() {
+  return new URLSearchParams(window.location.search).has("scenario")
+}
+
+// Seeded scenario runs, replayed step by step. `timetable` is the schedule the scenario starts from (its delays are
+// cleared); the board after the current step is handed to `onBoard`.
+export default function SimulationPanel({
+  timetable,
+  onBoard,
+}: {
+  timetable: Train[]
+  onBoard: (board: SimulationBoard) => void
+}) {
+  const [scenario, setScenario] = React.useState<Scenario | null>(null)
+  const [seed, setSeed] = React.useState(1)
+  const [step, setStep] = React.useState(0)
+  const [playing, setPlaying] = React.useState(false)
+  const [error, setError] = React.useState<string | null>(null)
+  const [shareUrl, setShareUrl] = React.useState<string | null>(null)
+
+  const base = React.useMemo(
+    () => timetable.map((t) => ({ ...t, delay: 0, status: "on-time" as const })),
+    [timetable],
+  )
+  const serviceDay = React.useMemo(
+    () => dayStart(base.length > 0 ? Math.min(...base.map((t) => t.arrival)) : undefined),
+    [base],
+  )
+  const steps = React.useMemo(
+    () => (scenario ? simulateScenario(scenario, base, serviceDay, seed) : []),
+    [scenario, base, serviceDay, seed],
+  )
+  const board = React.useMemo<SimulationBoard>(() => {
+    const clock = step > 0 ? steps[step - 1]?.clock : scenario ? parseTimestamp(scenario.start, serviceDay) : null
+    return { ...simulationState(base, steps, step), clock: clock ?? undefined }
+  }, [base, steps, step, scenario, serviceDay])
+
+  const onBoardRef = React.useRef(onBoard)
+  onBoardRef.current = onBoard
+  React.useEffect(() => onBoardRef.current(board), [board])
+
+  // A share link in the address bar loads its scenario, seed and step
+  React.useEffect(() => {
+    const link = readShareLink()
+    if (!link) return
+    const result = decodeScenario(link.scenario)
+    if ("error" in result) {
+      setError(result.error)
+      return
+    }
+    load(result.scenario, link.seed)
+    setStep(link.step)
+  }, [])
+
+  React.useEffect(() => {
+    if (!playing) return
+    if (step >= steps.length) {
+      setPlaying(false)
+      return
+    }
+    const timer = setTimeout(() => setStep((s) => s + 1), PLAY_INTERVAL_MS)
+    return () => clearTimeout(timer)
+  }, [playing, step, steps.length])
+
+  function load(next: Scenario, nextSeed: number = next.seed) {
+    setScenario(next)
+    setSeed(nextSeed)
+    setStep(0)
+    setPlaying(false)
+    setError(null)
+    setShareUrl(null)
+  }
+
+  function loadData(data: unknown) {
+    const result = parseScenario(data)
+    if ("error" in result) setError(result.error)
+    else load(result.scenario)
+  }
+
+  async function loadSample() {
+    try {
+      const res = await fetch(SAMPLE_SCENARIO_URL)
+      if (!res.ok) throw new Error(`${SAMPLE_SCENARIO_URL}: ${res.status}`)
+      loadData(await res.json())
+    } catch (e) {
+      setError((e as Error).message)
+    }
+  }
+
+  async function loadFile(list: FileList | null) {
+    const file = list?.[0]
+    if (!file) return
+    try {
+      loadData(JSON.parse(await file.text()))
+    } catch (e) {
+      setError(`invalid JSON: ${(e as Error).message}`)
+    }
+  }
+
+  async function share() {
+    if (!scenario) return
+    const params = new URLSearchParams({ scenario: encodeScenario(scenario), seed: String(seed), step: String(step) })
+    const url = `${window.location.origin}${window.location.pathname}?${params}`
+    window.history.replaceState(null, "", url)
+    setShareUrl(url)
+    await navigator.clipboard?.writeText(url).catch(() => {})
+  }
+
+  const current = step > 0 ? steps[step - 1] : undefined
+  const names = new Map(base.map((t) => [t.id, t.name]))
+
+  return (
+    <div className="flex flex-col gap-3 rounded border border-border p-4">
+      <h3 className="text-lg font-semibold text-primary">Simulation{scenario ? `: ${scenario.name}` : ""}</h3>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <button
+          type="button"
+          onClick={loadSample}
+          className="rounded border border-border bg-background px-3 py-1 text-sm text-foreground"
+        >
+          Load sample scenario
+        </button>
+        <input
+          type="file"
+          accept=".json,application/json"
+          onChange={(e) => loadFile(e.target.files)}
+          aria-label="Scenario file"
+          className="text-sm text-foreground"
+        />
+        <label className="flex items-center gap-2 text-sm text-foreground">
+          Seed
+          <input
+            type="number"
+            step={1}
+            value={seed}
+            onChange={(e) => {
+              const next = Number(e.target.value)
+              if (Number.isInteger(next)) setSeed(next)
+            }}
+            className="w-28 rounded border border-border bg-background px-2 py-1 text-sm"
+          />
+        </label>
+      </div>
+
+      {error ? (
+        <p className="text-sm text-rose-600" role="alert">
+          {error}
+        </p>
+      ) : null}
+
+      {scenario ? (
+        <>
+          <div className="flex flex-wrap items-center gap-2" role="group" aria-label="Replay">
+            <StepButton label="Reset" onClick={() => setStep(0)} disabled={step === 0} />
+            <StepButton label="Previous step" onClick={() => setStep((s) => s - 1)} disabled={step === 0} />
+            <StepButton
+              label={playing ? "Pause" : "Play"}
+              onClick={() => setPlaying((p) => !p)}
+              disabled={!playing && step >= steps.length}
+            />
+            <StepButton label="Next step" onClick={() => setStep((s) => s + 1)} disabled={step >= steps.length} />
+            <input
+              type="range"
+              min={0}
+              max={steps.length}
+              value={step}
+              onChange={(e) => setStep(Number(e.target.value))}
+              aria-label="Step"
+              className="w-48"
+            />
+            <span className="text-sm text-foreground" aria-live="polite">
+              Step {step}/{steps.length}
+              {current ? ` · ${timestampToLabel(current.clock, serviceDay)}` : ""}
+            </span>
+            <StepButton label="Copy share link" onClick={share} />
+          </div>
+
+          {shareUrl ? (
+            <input
+              readOnly
+              value={shareUrl}
+              onFocus={(e) => e.target.select()}
+              aria-label="Share link"
+              className="w-full rounded border border-border bg-background px-2 py-1 text-xs"
+            />
+          ) : null}
+
+          {current ? (
+            <ul className="flex flex-col gap-1 text-xs text-foreground" aria-label={`Step ${step} events`}>
+              {current.notes.map((note, i) => (
+                <li key={`note-${i}`} className="font-medium">
+                  {note}
+                </li>
+              ))}
+              {current.outages.map((o) => (
+                <li key={`outage-${o.platformId}-${o.from}`} className="text-rose-600">
+                  Platform {o.platformId} out of use from {timestampToLabel(o.from, serviceDay)}
+                  {Number.isFinite(o.to) ? ` to ${timestampToLabel(o.to, serviceDay)}` : ""}
+                  {o.reason ? ` (${o.reason})` : ""}
+                </li>
+              ))}
+              {current.events.map((e, i) => (
+                <li key={`event-${i}`}>
+                  {names.get(e.trainId) ?? e.trainId} ETA {timestampToLabel(e.eta, serviceDay)} · {e.reason}
+                </li>
+              ))}
+              {current.notes.length + current.outages.length + current.events.length === 0 ? (
+                <li>Nothing happened in this step.</li>
+              ) : null}
+            </ul>
+          ) : null}
+        </>
+      ) : null}
+    </div>
+  )
+}
+
+function StepButton({ label, onClick, disabled }: { label: string; onClick: () => void; disabled?: boolean }) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      disabled={disabled}
+      className="rounded border border-border bg-background px-3 py-1 text-sm text-foreground disabled:opacity-50"
+    >
+      {label}
+    </button>
+  )
+}
@@ -0,0 +1,265 @@
+"use client"
+
+import * as React from "react"
+import { cn } from "@/lib/utils"
+import {
+  dayStart,
+  fromTimestamp,
+  importGtfs,
+  importTimetableCsv,
+  importTimetableJson,
+  timestampToLabel,
+  toTimestamp,
+  type ImportResult,
+  type Train,
+} from "@/lib/scheduler"
+
+type ImportFormat = "csv" | "json" | "gtfs"
+
+const FORMAT_LABELS: Record<ImportFormat, string> = {
+  csv: "CSV",
+  json: "JSON",
+  gtfs: "GTFS static",
+}
+
+// Sample files served from public/fixtures so imports work offline
+const SAMPLE_FILES: Record<ImportFormat, string[]> = {
+  csv: ["/fixtures/timetable.csv"],
+  json: ["/fixtures/timetable.json"],
+  gtfs: ["/fixtures/gtfs/stop_times.txt", "/fixtures/gtfs/trips.txt"],
+}
+
+const DEFAULT_STOP_ID = "CEN"
+
+// Value for an <input type="date">, in local time
+function toDateInput(day: number) {
+  const d = fromTimestamp(day)
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`
+}
+
+function parseFiles(
+  format: ImportFormat,
+  files: { name: string; text: string }[],
+  stopId: string,
+  serviceDay: number,
+): ImportResult {
+  if (format === "gtfs") {
+    const stopTimes = files.find((f) => f.name.endsWith("stop_times.txt"))
+    const trips = files.find((f) => f.name.endsWith("trips.txt"))
+    if (!stopTimes) return { trains: [], errors: [{ row: 0, message: "select stop_times.txt (and trips.txt)" }] }
+    return importGtfs({ stopTimes: stopTimes.text, trips: trips?.text }, stopId.trim(), serviceDay)
+  }
+  const [file] = files
+  if (!file) return { trains: [], errors: [] }
+  return format === "json" ? importTimetableJson(file.text, serviceDay) : importTimetableCsv(file.text, serviceDay)
+}
+
+export default function TimetableImport({ onReplace }: { onReplace: (trains: Train[]) => void }) {
+  const [format, setFormat] = React.useState<ImportFormat>("csv")
+  const [stopId, setStopId] = React.useState(DEFAULT_STOP_ID)
+  // clock times in the files are on this day
+  const [serviceDay, setServiceDay] = React.useState(() => dayStart())
+  const [files, setFiles] = React.useState<{ name: string; text: string }[]>([])
+  const [loadError, setLoadError] = React.useState<string | null>(null)
+
+  const preview = React.useMemo(
+    () => (files.length > 0 ? parseFiles(format, files, stopId, serviceDay) : null),
+    [format, files, stopId, serviceDay],
+  )
+
+  async function readUploads(list: FileList | null) {
+    if (!list) return
+    setLoadError(null)
+    setFiles(await Promise.all(Array.from(list).map(async (f) => ({ name: f.name, text: await f.text() }))))
+  }
+
+  async function loadSample() {
+    setLoadError(null)
+    try {
+      const loaded = await Promise.all(
+        SAMPLE_FILES[format].map(async (url) => {
+          const res = await fetch(url)
+          if (!res.ok) throw new Error(`${url}: ${res.status}`)
+          return { name: url, text: await res.text() }
+        }),
+      )
+      setFiles(loaded)
+    } catch (e) {
+      setLoadError((e as Error).message)
+    }
+  }
+
+  function reset() {
+    setFiles([])
+    setLoadError(null)
+  }
+
+  return (
+    <div className="flex flex-col gap-3 rounded border border-border p-4">
+      <h3 id="timetable-import-heading" className="text-lg font-semibold text-primary">
+        Import Timetable
+      </h3>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <div className="flex items-center gap-2" role="group" aria-label="Timetable format">
+          {(Object.keys(FORMAT_LABELS) as ImportFormat[]).map((f) => (
+            <button
+              key={f}
+              type="button"
+              onClick={() => {
+                setFormat(f)
+                reset()
+              }}
+              aria-pressed={format === f}
+              className={cn(
+                "rounded border border-border px-3 py-1 text-sm",
+                format === f ? "bg-primary text-primary-foreground" : "bg-background text-foreground",
+              )}
+            >
+              {FORMAT_LABELS[f]}
+            </button>
+          ))}
+        </div>
+
+        <label className="flex items-center gap-2 text-sm text-foreground">
+          Service day
+          <input
+            type="date"
+            value={toDateInput(serviceDay)}
+            onChange={(e) => {
+              // date inputs parse as UTC midnight; take the local day instead
+              const [y, m, d] = e.target.value.split("-").map(Number)
+              if (y && m && d) setServiceDay(toTimestamp(new Date(y, m - 1, d)))
+            }}
+            className="rounded border border-border bg-background px-2 py-1 text-sm"
+          />
+        </label>
+
+        {format === "gtfs" ? (
+          <label className="flex items-center gap-2 text-sm text-foreground">
+            stop_id
+            <input
+              value={stopId}
+              onChange={(e) => setStopId(e.target.value)}
+              className="w-24 rounded border border-border bg-background px-2 py-1 text-sm"
+            />
+          </label>
+        ) : null}
+
+        <input
+          key={format}
+          type="file"
+          multiple={format === "gtfs"}
+          accept={format === "csv" ? ".csv,text/csv" : format === "json" ? ".json,application/json" : ".txt"}
+          onChange={(e) => readUploads(e.target.files)}
+          aria-label={format === "gtfs" ? "stop_times.txt and trips.txt" : `${FORMAT_LABELS[format]} timetable file`}
+          className="text-sm text-foreground"
+        />
+
+        <button
+          type="button"
+          onClick={loadSample}
+          className="rounded border border-border bg-background px-3 py-1 text-sm text-foreground"
+        >
+          Load sample
+        </button>
+      </div>
+
+      {loadError ? (
+        <p className="text-sm text-rose-600" role="alert">
+          Could not load sample: {loadError}
+        </p>
+      ) : null}
+
+      {preview ? (
+        <div className="flex flex-col gap-3">
+          {preview.errors.length > 0 ? (
+            <div className="rounded border border-rose-500 p-3" role="alert">
+              <div className="text-sm font-medium text-rose-600">
+                {preview.errors.length} row error{preview.errors.length === 1 ? "" : "s"} (skipped)
+              </div>
+              <ul className="mt-1 text-xs text-foreground">
+                {preview.errors.map((err, i) => (
+                  <li key={i}>
+                    {err.row > 0 ? `Row ${err.row}` : "File"}
+                    {err.field ? ` · ${err.field}` : ""}: {err.message}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ) : null}
+
+          <div className="overflow-x-auto">
+            <table className="w-full border border-border text-left text-sm" aria-label="Imported trains preview">
+              <thead>
+                <tr className="bg-background">
+                  <th scope="col" className="px-3 py-2">
+                    Train
+                  </th>
+                  <th scope="col" className="px-3 py-2">
+                    Sched. Arr
+                  </th>
+                  <th scope="col" className="px-3 py-2">
+                    Sched. Dep
+                  </th>
+                  <th scope="col" className="px-3 py-2">
+                    Delay (min)
+                  </th>
+                  <th scope="col" className="px-3 py-2">
+                    Attributes
+                  </th>
+                </tr>
+              </thead>
+              <tbody>
+                {preview.trains.map((t) => (
+                  <tr key={t.id} className="odd:bg-background even:bg-background">
+                    <td className="px-3 py-2 text-foreground">
+                      {t.name} <span className="text-xs">({t.id})</span>
+                    </td>
+                    <td className="px-3 py-2 text-foreground">{timestampToLabel(t.arrival, serviceDay)}</td>
+                    <td className="px-3 py-2 text-foreground">{timestampToLabel(t.departure, serviceDay)}</td>
+                    <td className="px-3 py-2 text-foreground">{t.delay}</td>
+                    <td className="px-3 py-2 text-xs text-foreground">
+                      {[
+                        t.trainClass,
+                        t.priority !== undefined ? `priority ${t.priority}` : null,
+                        t.rakeLength !== undefined ? `${t.rakeLength} m` : null,
+                        t.traction,
+                        t.service,
+                        t.direction,
+                        t.formsTrain ? `forms ${t.formsTrain}` : null,
+                      ]
+                        .filter(Boolean)
+                        .join(" · ") || "—"}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <button
+              type="button"
+              disabled={preview.trains.length === 0}
+              onClick={() => {
+                onReplace(preview.trains)
+                reset()
+              }}
+              className="rounded border border-border bg-primary px-3 py-1 text-sm text-primary-foreground disabled:opacity-50"
+            >
+              Replace current trains ({preview.trains.length})
+            </button>
+            <button
+              type="button"
+              onClick={reset}
+              className="rounded border border-border bg-background px-3 py-1 text-sm text-foreground"
+            >
+              Discard
+            </button>
+          </div>
+        </div>
+      ) : null}
+    </div>
+  )
+}
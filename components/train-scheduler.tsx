@@ -1,6 +1,7 @@
 "use client"
 
 import * as React from "react"
+import Link from "next/link"
 import { cn } from "@/lib/utils"
 import {
   ChartContainer,
@@ -10,52 +11,162 @@ import {
   ChartLegendContent,
 } from "@/components/ui/chart"
 import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts"
+import { Lock } from "lucide-react"
+import DelayFeedControl from "@/components/delay-feed"
+import SimulationPanel, { hasShareLink, type SimulationBoard } from "@/components/simulation-panel"
+import BlockagePanel, { type BlockageReport } from "@/components/blockage-panel"
+import ConnectionPanel from "@/components/connection-panel"
+import CorridorChart from "@/components/corridor-chart"
+import DecisionPanel from "@/components/decision-panel"
+import SectionConflictPanel from "@/components/section-conflict-panel"
+import WeightsPanel from "@/components/weights-panel"
+import TimetableImport from "@/components/timetable-import"
+import { boardRequest, restoreBoard } from "@/lib/api/board"
+import type { AuditEvent } from "@/lib/api/audit"
+import type { PlanTrigger, PlanVersion, TriggerKind } from "@/lib/api/history"
+import type { ScheduleResponse } from "@/lib/api/schedule"
+import {
+  CORRIDOR,
+  DEFAULT_PLATFORM_COUNT,
+  HOME_STATION_ID,
+  STATION_PLATFORMS,
+  STATION_RULES,
+  stationCorridorOptions,
+} from "@/lib/station"
+import {
+  applyDelayEvent,
+  applyOverride,
+  applySectionHolds,
+  assignPlatformsOptimal,
+  assignPlatformsScoreBased,
+  clearanceAfter,
+  explainCompatibility,
+  fromTimestamp,
+  atClock,
+  clearOverrides,
+  corridorTrains,
+  dayStart,
+  defaultWindow,
+  redoOverride,
+  timestampToLabel,
+  timestampToLabelWithSeconds,
+  toDateTimeLocal,
+  toTimestamp,
+  trainState,
+  undoOverride,
+  windowEnd,
+  windowPercent,
+  windowSpan,
+  windowTicks,
+  minimumDwell,
+  planImpact,
+  propagateDelays,
+  boardingFrom,
+  rakeInbounds,
+  recoveredMinutes,
+  planTotals,
+  platformsByTrain,
+  resolutionScorer,
+  sectionConflictKey,
+  sectionConflicts,
+  solve,
+  solveCorridor,
+  trainClassOf,
+  DEFAULT_FREEZE_MINUTES,
+  DEFAULT_MIN_DWELL_MINUTES,
+  DEFAULT_WEIGHTS,
+  DEFAULT_WINDOW_START_CLOCK,
+  EMPTY_OVERRIDE_HISTORY,
+  type AssignmentResult,
+  type Connection,
+  type ConnectionHold,
+  type CorridorOptions,
+  type DelayEvent,
+  type OccupationRules,
+  type OptimalAssignmentResult,
+  type OverrideHistory,
+  type Platform,
+  type PlatformBlock,
+  type PlatformSpec,
+  type ScoringWeights,
+  type ScoredResolution,
+  type SectionConflict,
+  type SectionHold,
+  type SectionResolution,
+  type SolverKind,
+  type TimeWindow,
+  type Train,
+  type TrainAssignment,
+  type TrainClass,
+  type TrainState,
+} from "@/lib/scheduler"
 
-type Train = {
-  id: string
-  name: string
-  // scheduled times in minutes from 08:00 (0 = 08:00)
-  arrival: number
-  departure: number
-  delay: number // minutes of delay (applies to both arrival & departure)
-  status: "on-time" | "delayed"
+const STATE_CLASSES: Record<TrainState, string> = {
+  "on-time": "bg-emerald-500",
+  delayed: "bg-rose-500",
+  held: "bg-amber-500",
 }
 
-type AssignedTrain = Train & {
-  effectiveArrival: number
-  effectiveDeparture: number
+const STATE_LABELS: Record<TrainState, string> = {
+  "on-time": "On-time",
+  delayed: "Delayed",
+  held: "Held",
 }
 
-type Platform = {
-  id: number
-  trains: AssignedTrain[]
-  nextFreeAt: number
+const CLASS_LABELS: Record<TrainClass, string> = {
+  express: "Express",
+  special: "Special",
+  mail: "Mail",
+  suburban: "Suburban",
+  freight: "Freight",
 }
 
-const MINUTE_START = 0 // 08:00
-const MINUTE_END = 240 // 12:00, 4 hours window
+const PLATFORM_COUNT_OPTIONS = [2, 3, 4, 5, 6, 7, 8]
+
+// Freeze horizon choices in minutes; 0 freezes only trains that have already arrived
+const FREEZE_OPTIONS = [0, 5, 10, 15, 30, 60]
+
+// How often the live clock used for the freeze horizon advances
+const CLOCK_TICK_MS = 30_000
 
-function minutesToLabel(minFromStart: number) {
-  const totalMinutes = 8 * 60 + minFromStart // base is 08:00
-  const h = Math.floor(totalMinutes / 60)
-  const m = totalMinutes % 60
-  return `${String(h).padStart(2, "0")}:${String(m).padStart(2, "0")}`
+// Window lengths offered in the view controls, in minutes
+const WINDOW_LENGTH_OPTIONS = [
+  { minutes: 4 * 60, label: "4 hours" },
+  { minutes: 8 * 60, label: "8 hours" },
+  { minutes: 12 * 60, label: "12 hours" },
+  { minutes: 24 * 60, label: "24 hours" },
+  { minutes: 48 * 60, label: "2 days" },
+  { minutes: 72 * 60, label: "3 days" },
+]
+
+// localStorage key of the dispatcher name
+const DISPATCHER_KEY = "train-scheduler.dispatcher"
+
+// drag-and-drop payload of a train block: the train id
+const DRAG_TYPE = "application/x-train-id"
+
+// Diagonal hatch used for clearance buffers on the timeline
+const BUFFER_STYLE: React.CSSProperties = {
+  backgroundImage: "repeating-linear-gradient(135deg, rgba(100, 116, 139, 0.45) 0 4px, transparent 4px 8px)",
 }
 
-function minutesToLabelWithSeconds(minFromStart: number) {
-  const baseSeconds = 8 * 60 * 60 // 08:00 in seconds
-  const totalSeconds = Math.max(0, Math.round(minFromStart * 60)) + baseSeconds
-  const h = Math.floor(totalSeconds / 3600)
-  const m = Math.floor((totalSeconds % 3600) / 60)
-  const s = totalSeconds % 60
-  return `${String(h).padStart(2, "0")}:${String(m).padStart(2, "0")}:${String(s).padStart(2, "0")}`
+// Cross hatch used for platform blockages
+const BLOCK_STYLE: React.CSSProperties = {
+  backgroundImage:
+    "repeating-linear-gradient(45deg, rgba(225, 29, 72, 0.35) 0 3px, transparent 3px 9px), " +
+    "repeating-linear-gradient(135deg, rgba(225, 29, 72, 0.35) 0 3px, transparent 3px 9px)",
 }
 
-function formatMinSec(mins: number) {
-  const totalSeconds = Math.max(0, Math.round(mins * 60))
-  const m = Math.floor(totalSeconds / 60)
-  const s = totalSeconds % 60
-  return `${m}:${String(s).padStart(2, "0")}`
+function describePlatform(spec: PlatformSpec) {
+  return [
+    `${spec.length} m`,
+    spec.approach ? `approach ${spec.approach}` : null,
+    spec.electrified ? "electrified" : "non-electrified",
+    spec.use,
+    spec.directions.join("/"),
+  ]
+    .filter(Boolean)
+    .join(" · ")
 }
 
 function LivePulse({ label }: { label: string }) {
@@ -70,168 +181,589 @@ function LivePulse({ label }: { label: string }) {
   )
 }
 
+// Minutes for the delay tables, to a tenth
+function minutes(value: number) {
+  return Number(value.toFixed(1))
+}
+
+// Short form of a placement decision for block tooltips
+function describeDecision(assignment: TrainAssignment | undefined) {
+  if (!assignment) return "Not placed"
+  const fixed = assignment.reason === "pinned" || assignment.reason === "frozen"
+  const score = fixed ? "" : `, score ${assignment.score.toFixed(1)}`
+  return `Platform ${assignment.platformId}: ${assignment.reason}${score}`
+}
+
+// A blockage as the audit log records it
+function auditedBlockage(block: PlatformBlock) {
+  return {
+    platformId: block.platformId,
+    from: fromTimestamp(block.from).toISOString(),
+    to: Number.isFinite(block.to) ? fromTimestamp(block.to).toISOString() : undefined,
+    reason: block.reason,
+  }
+}
+
 function initializeTrains(): Train[] {
-  // 18 trains across a 4-hour window
-  return [
-    { id: "T1", name: "Red Line 101", arrival: 10, departure: 40, delay: 0, status: "on-time" },
-    { id: "T2", name: "Coastal 202", arrival: 25, departure: 70, delay: 0, status: "on-time" },
-    { id: "T3", name: "Express 303", arrival: 60, departure: 100, delay: 0, status: "on-time" },
-    { id: "T4", name: "Metro 404", arrival: 80, departure: 120, delay: 0, status: "on-time" },
-    { id: "T5", name: "Regional 505", arrival: 110, departure: 150, delay: 0, status: "on-time" },
-    { id: "T6", name: "CityLink 606", arrival: 140, departure: 175, delay: 0, status: "on-time" },
-    { id: "T7", name: "Valley 707", arrival: 170, departure: 205, delay: 0, status: "on-time" },
-    { id: "T8", name: "Summit 808", arrival: 195, departure: 235, delay: 0, status: "on-time" },
+  // 18 trains across a 4-hour window from 08:00 today; times below are minutes after 08:00
+  const base = atClock(dayStart(), DEFAULT_WINDOW_START_CLOCK)
+  const trains: Train[] = [
+    { id: "T1", name: "Red Line 101", arrival: 10, departure: 40, delay: 0, status: "on-time", trainClass: "suburban" },
+    { id: "T2", name: "Coastal 202", arrival: 25, departure: 70, delay: 0, status: "on-time", trainClass: "mail" },
+    {
+      id: "T3",
+      name: "Express 303",
+      arrival: 60,
+      departure: 100,
+      delay: 0,
+      status: "on-time",
+      trainClass: "express",
+      rakeLength: 580,
+      traction: "electric",
+      direction: "up",
+    },
+    { id: "T4", name: "Metro 404", arrival: 80, departure: 120, delay: 0, status: "on-time", trainClass: "suburban" },
+    { id: "T5", name: "Regional 505", arrival: 110, departure: 150, delay: 0, status: "on-time", trainClass: "mail" },
+    {
+      id: "T6",
+      name: "CityLink 606",
+      arrival: 140,
+      departure: 175,
+      delay: 0,
+      status: "on-time",
+      trainClass: "suburban",
+    },
+    {
+      id: "T7",
+      name: "Valley 707",
+      arrival: 170,
+      departure: 205,
+      delay: 0,
+      status: "on-time",
+      trainClass: "mail",
+      traction: "electric",
+      direction: "down",
+    },
+    { id: "T8", name: "Summit 808", arrival: 195, departure: 235, delay: 0, status: "on-time", trainClass: "express" },
 
     // Added trains
-    { id: "T9", name: "Harbor 909", arrival: 0, departure: 20, delay: 0, status: "on-time" },
-    { id: "T10", name: "Forest 919", arrival: 18, departure: 55, delay: 0, status: "on-time" },
-    { id: "T11", name: "River 929", arrival: 45, departure: 85, delay: 0, status: "on-time" },
-    { id: "T12", name: "Garden 939", arrival: 90, departure: 125, delay: 0, status: "on-time" },
-    { id: "T13", name: "Meadow 949", arrival: 105, departure: 140, delay: 0, status: "on-time" },
-    { id: "T14", name: "Cedar 959", arrival: 130, departure: 165, delay: 0, status: "on-time" },
-    { id: "T15", name: "Pine 969", arrival: 155, departure: 190, delay: 0, status: "on-time" },
-    { id: "T16", name: "Oak 979", arrival: 165, departure: 200, delay: 0, status: "on-time" },
-    { id: "T17", name: "Spruce 989", arrival: 200, departure: 235, delay: 0, status: "on-time" },
-    { id: "T18", name: "Willow 999", arrival: 210, departure: 240, delay: 0, status: "on-time" },
+    {
+      id: "T9",
+      name: "Harbor 909",
+      arrival: 0,
+      departure: 20,
+      delay: 0,
+      status: "on-time",
+      trainClass: "suburban",
+      formsTrain: "T11",
+    },
+    { id: "T10", name: "Forest 919", arrival: 18, departure: 55, delay: 0, status: "on-time", trainClass: "mail" },
+    { id: "T11", name: "River 929", arrival: 45, departure: 85, delay: 0, status: "on-time", trainClass: "suburban" },
+    { id: "T12", name: "Garden 939", arrival: 90, departure: 125, delay: 0, status: "on-time", trainClass: "special" },
+    {
+      id: "T13",
+      name: "Meadow 949",
+      arrival: 105,
+      departure: 140,
+      delay: 0,
+      status: "on-time",
+      trainClass: "suburban",
+    },
+    { id: "T14", name: "Cedar 959", arrival: 130, departure: 165, delay: 0, status: "on-time", trainClass: "mail" },
+    { id: "T15", name: "Pine 969", arrival: 155, departure: 190, delay: 0, status: "on-time", trainClass: "suburban" },
+    {
+      id: "T16",
+      name: "Oak 979",
+      arrival: 165,
+      departure: 200,
+      delay: 0,
+      status: "on-time",
+      trainClass: "freight",
+      rakeLength: 680,
+      traction: "diesel",
+      service: "goods",
+    },
+    { id: "T17", name: "Spruce 989", arrival: 200, departure: 235, delay: 0, status: "on-time", trainClass: "express" },
+    {
+      id: "T18",
+      name: "Willow 999",
+      arrival: 210,
+      departure: 240,
+      delay: 0,
+      status: "on-time",
+      trainClass: "suburban",
+    },
   ]
+  return trains.map((t) => ({ ...t, arrival: base + t.arrival, departure: base + t.departure }))
 }
 
-// Greedy platform assignment:
-// - Sort by effective arrival (arrival + delay)
-// - Place train on earliest platform free by its arrival; else open a new platform
-type ScoringWeights = {
-  // smaller idle gap preferred to pack trains (minimize gaps)
-  idleGap: number
-  // lightly discourage putting too many trains on one platform (load balancing)
-  load: number
-  // spread delayed trains across platforms to reduce clustering
-  delayedSpread: number
-}
+// Passenger transfers between the sample trains; T11 to T10 only just works when they stand on the same island
+const SAMPLE_CONNECTIONS: Connection[] = [
+  { fromTrain: "T1", toTrain: "T10", minTransfer: 5, passengers: 120 },
+  { fromTrain: "T3", toTrain: "T4", minTransfer: 6, passengers: 80 },
+  { fromTrain: "T11", toTrain: "T10", minTransfer: 5, passengers: 60 },
+  { fromTrain: "T12", toTrain: "T13", minTransfer: 4, passengers: 40 },
+]
+
+type BoardMode = "live" | "simulation"
 
-const DEFAULT_WEIGHTS: ScoringWeights = {
-  idleGap: 1.0,
-  load: 0.3,
-  delayedSpread: 0.5,
+const MODE_LABELS: Record<BoardMode, string> = {
+  live: "Live feed",
+  simulation: "Simulation",
 }
 
-function assignPlatformsScoreBased(trains: Train[], weights: ScoringWeights = DEFAULT_WEIGHTS): Platform[] {
-  const withEffective: AssignedTrain[] = trains.map((t) => ({
-    ...t,
-    effectiveArrival: t.arrival + t.delay,
-    effectiveDeparture: t.departure + t.delay,
-  }))
+export default function TrainScheduler() {
+  const [liveTrains, setLiveTrains] = React.useState<Train[]>(() => initializeTrains())
 
-  withEffective.sort((a, b) => a.effectiveArrival - b.effectiveArrival)
+  // Name the board's actions are logged under
+  const [dispatcher, setDispatcher] = React.useState("")
+  React.useEffect(() => setDispatcher(localStorage.getItem(DISPATCHER_KEY) ?? ""), [])
+  const actor = React.useRef<string | undefined>(undefined)
+  actor.current = dispatcher.trim() || undefined
 
-  const platforms: Platform[] = []
+  // What caused the next re-plan, saved with its plan version; re-plans without one come from the clock. Delay
+  // updates and dispatcher actions also go to the audit log as they happen, in order.
+  const trigger = React.useRef<PlanTrigger | null>(null)
+  const auditQueue = React.useRef<Promise<void>>(Promise.resolve())
+  const [auditError, setAuditError] = React.useState<string | null>(null)
+  const because = React.useCallback((kind: TriggerKind, detail?: string, event?: AuditEvent) => {
+    trigger.current = { kind, detail }
+    if (!event) return
+    const body = JSON.stringify({ actor: actor.current, events: [event] })
+    auditQueue.current = auditQueue.current.then(async () => {
+      try {
+        const res = await fetch("/api/audit", { method: "POST", headers: { "Content-Type": "application/json" }, body })
+        if (!res.ok) throw new Error((await res.json()).error.message)
+        setAuditError(null)
+      } catch (e) {
+        setAuditError((e as Error).message)
+      }
+    })
+  }, [])
 
-  for (const train of withEffective) {
-    let bestIdx = -1
-    let bestScore = Number.POSITIVE_INFINITY
+  // Each delay event updates one train; the plans below are recomputed from the new trains. Events that are not
+  // recorded (a demo feed's) are neither audited nor saved as plan versions, see the save below.
+  const liveTrainsRef = React.useRef(liveTrains)
+  liveTrainsRef.current = liveTrains
+  const unrecorded = React.useRef(false)
+  const handleDelayEvent = React.useCallback(
+    (event: DelayEvent, recorded: boolean) => {
+      const train = liveTrainsRef.current.find((t) => t.id === event.trainId)
+      if (!train) return
+      setLiveTrains((prev) => applyDelayEvent(prev, event))
+      if (!recorded) {
+        unrecorded.current = true
+        return
+      }
+      because(
+        "delay",
+        `${event.trainId} ETA ${timestampToLabel(event.eta)}${event.reason ? ` (${event.reason})` : ""}`,
+        {
+          kind: "delay",
+          trainId: event.trainId,
+          eta: fromTimestamp(event.eta).toISOString(),
+          delay: Math.max(0, Math.round(event.eta - train.arrival)),
+          reason: event.reason,
+        },
+      )
+    },
+    [because],
+  )
 
-    for (let i = 0; i < platforms.length; i++) {
-      const pl = platforms[i]
-      // feasibility: platform must be free by train.effectiveArrival
-      if (pl.nextFreeAt <= train.effectiveArrival) {
-        const gap = Math.max(0, train.effectiveArrival - pl.nextFreeAt)
-        const load = pl.trains.length
-        const delayedCount = pl.trains.reduce((acc, t) => acc + (t.status === "delayed" ? 1 : 0), 0)
+  // In simulation mode the board shows the current step of the scenario instead of the live trains
+  const [mode, setMode] = React.useState<BoardMode>("live")
+  const [simulation, setSimulation] = React.useState<SimulationBoard | null>(null)
+  React.useEffect(() => {
+    if (hasShareLink()) setMode("simulation")
+  }, [])
+  const timetabled = mode === "simulation" && simulation ? simulation.trains : liveTrains
+  // Blockages added by dispatchers apply in both modes, on top of the scenario's outages in simulation
+  const [blockages, setBlockages] = React.useState<PlatformBlock[]>([])
+  const [blockageReport, setBlockageReport] = React.useState<BlockageReport | null>(null)
+  const outages = mode === "simulation" ? simulation?.blocks : undefined
+  const rules = React.useMemo<OccupationRules>(
+    () => ({ ...STATION_RULES, blocks: [...blockages, ...(outages ?? [])] }),
+    [blockages, outages],
+  )
 
-        const score = weights.idleGap * gap + weights.load * load + weights.delayedSpread * delayedCount
+  // Current time for the freeze horizon: the wall clock when live, the scenario clock in simulation
+  const [wallClock, setWallClock] = React.useState(() => toTimestamp(new Date()))
+  React.useEffect(() => {
+    const iv = setInterval(() => setWallClock(toTimestamp(new Date())), CLOCK_TICK_MS)
+    return () => clearInterval(iv)
+  }, [])
+  const now = mode === "simulation" ? simulation?.clock : wallClock
+  const [freezeMinutes, setFreezeMinutes] = React.useState(DEFAULT_FREEZE_MINUTES)
 
-        if (score < bestScore) {
-          bestScore = score
-          bestIdx = i
-        }
-      }
-    }
+  // Platforms of the plan on screen; each new plan keeps to them where it can and reports what moved
+  const announced = React.useRef<Record<string, number> | undefined>(undefined)
 
-    if (bestIdx >= 0) {
-      const pl = platforms[bestIdx]
-      pl.trains.push(train)
-      pl.nextFreeAt = train.effectiveDeparture
+  const [timeWindow, setTimeWindow] = React.useState<TimeWindow>(() => defaultWindow())
+
+  const [solver, setSolver] = React.useState<SolverKind>("greedy")
+  // Weights the board plans with, and the draft tuned in the weights panel
+  const [weights, setWeights] = React.useState<ScoringWeights>(DEFAULT_WEIGHTS)
+  const [draftWeights, setDraftWeights] = React.useState<ScoringWeights>(DEFAULT_WEIGHTS)
+  // undefined = open platforms on demand, without platform attributes
+  const [platformCount, setPlatformCount] = React.useState<number | undefined>(DEFAULT_PLATFORM_COUNT)
+  const inventory = React.useMemo(
+    () => (platformCount === undefined ? undefined : STATION_PLATFORMS.slice(0, platformCount)),
+    [platformCount],
+  )
+
+  // Dispatcher overrides: trains pinned to a platform by drag and drop or "Lock", with undo/redo
+  const [overrides, setOverrides] = React.useState<OverrideHistory>(EMPTY_OVERRIDE_HISTORY)
+  const pinned = overrides.present
+  const pin = (trainId: string, platformId?: number) => {
+    if (platformId === undefined) {
+      because("override", `unpinned ${trainId}`, { kind: "override", action: "unpin", trainId })
     } else {
-      platforms.push({
-        id: platforms.length + 1,
-        trains: [train],
-        nextFreeAt: train.effectiveDeparture,
+      because("override", `pinned ${trainId} to Platform ${platformId}`, {
+        kind: "override",
+        action: "pin",
+        trainId,
+        platformId,
       })
     }
+    setOverrides((h) => applyOverride(h, trainId, platformId))
   }
+  const [dropTarget, setDropTarget] = React.useState<number | null>(null)
 
-  return platforms
-}
+  // Passenger connections the plan scores platform walks for, and departure holds dispatchers set to keep them.
+  // A hold is a live train's departureHold, so it is saved and restored with the trains.
+  const [connections, setConnections] = React.useState<Connection[]>(SAMPLE_CONNECTIONS)
+  const holdForConnection = (hold: ConnectionHold, connection: Connection) => {
+    because("override", `held ${hold.trainId} ${hold.minutes} min for ${connection.fromTrain}`, {
+      kind: "override",
+      action: "hold",
+      trainId: hold.trainId,
+      until: fromTimestamp(hold.until).toISOString(),
+      reason: `connection from ${connection.fromTrain}`,
+    })
+    setLiveTrains((prev) =>
+      prev.map((t) => (t.id === hold.trainId ? { ...t, departureHold: hold.until - t.departure } : t)),
+    )
+  }
+  const releaseHold = (trainId: string) => {
+    because("override", `released the hold of ${trainId}`, { kind: "override", action: "release", trainId })
+    setLiveTrains((prev) =>
+      prev.map((t) => {
+        if (t.id !== trainId) return t
+        const { departureHold: _hold, ...released } = t
+        return released
+      }),
+    )
+  }
 
-export default function TrainScheduler() {
-  const [trains, setTrains] = React.useState<Train[]>(() => initializeTrains())
+  // Dispatcher holds of trains at corridor stations resolving conflicts on the line; like blockages they apply in
+  // both modes
+  const [sectionHolds, setSectionHolds] = React.useState<SectionHold[]>([])
+  const holdOnLine = (resolution: SectionResolution, conflict: SectionConflict) => {
+    const { trainId, stationId, until } = resolution
+    because("override", `held ${trainId} at ${stationId} ${resolution.minutes} min: ${conflict.message}`, {
+      kind: "override",
+      action: "hold",
+      trainId,
+      stationId,
+      until: fromTimestamp(until).toISOString(),
+      reason: conflict.message,
+    })
+    setSectionHolds((prev) => [
+      ...prev.filter((h) => h.trainId !== trainId || h.stationId !== stationId),
+      { trainId, stationId, until },
+    ])
+  }
+  const releaseOnLine = (hold: SectionHold) => {
+    because("override", `released the hold of ${hold.trainId} at ${hold.stationId}`, {
+      kind: "override",
+      action: "release",
+      trainId: hold.trainId,
+      stationId: hold.stationId,
+    })
+    setSectionHolds((prev) => prev.filter((h) => h !== hold))
+  }
 
-  // Maintain exactly 2 delayed trains; update their delay magnitudes periodically
+  // The station's trains run on to the neighbouring stations of the corridor, each planned with its own platforms;
+  // delays carry from station to station, and the board plans this station with the delays carried in
+  const corridorRuns = React.useMemo(
+    () => applySectionHolds(corridorTrains(timetabled, CORRIDOR, HOME_STATION_ID), sectionHolds),
+    [timetabled, sectionHolds],
+  )
+  const corridorOptions = React.useMemo<CorridorOptions>(
+    () =>
+      stationCorridorOptions({
+        solver,
+        weights,
+        platforms: inventory,
+        rules,
+        previousPlatforms: announced.current,
+        now,
+        freezeMinutes,
+        pinned,
+        connections,
+      }),
+    [solver, weights, inventory, rules, now, freezeMinutes, pinned, connections],
+  )
+  const corridorPlan = React.useMemo(
+    () => solveCorridor(corridorRuns, CORRIDOR, corridorOptions),
+    [corridorRuns, corridorOptions],
+  )
+  const trains = corridorPlan.stations.find((s) => s.station.id === HOME_STATION_ID)!.trains
+  const lineConflicts = React.useMemo(() => sectionConflicts(corridorPlan, CORRIDOR), [corridorPlan])
+
+  // Scoring a hold re-plans the whole corridor, so a conflict's holds are scored when a dispatcher opens it, each
+  // distinct hold once. The scores stand until the trains or the planning inputs change, not on every clock tick.
+  const lineScorer = React.useRef<ReturnType<typeof resolutionScorer> | null>(null)
+  const [lineScores, setLineScores] = React.useState(new Map<string, ScoredResolution[]>())
   React.useEffect(() => {
-    function tick() {
-      setTrains((prev) => {
-        const ids = prev.map((t) => t.id)
-        const shuffled = [...ids].sort(() => Math.random() - 0.5)
-        const delayedIds = new Set(shuffled.slice(0, 2)) // exactly 2
-
-        return prev.map((t) => {
-          if (delayedIds.has(t.id)) {
-            const newDelay = 5 + Math.floor(Math.random() * 14) // 5-18 minutes
-            return { ...t, delay: newDelay, status: "delayed" }
-          } else {
-            return { ...t, delay: 0, status: "on-time" }
-          }
-        })
-      })
-    }
+    lineScorer.current = null
+    setLineScores(new Map())
+  }, [corridorRuns, solver, weights, inventory, rules, freezeMinutes, pinned, connections])
+  const scoreLineConflict = (conflict: SectionConflict) => {
+    lineScorer.current ??= resolutionScorer(corridorPlan, CORRIDOR, corridorRuns, corridorOptions)
+    const scored = lineScorer.current(conflict.resolutions)
+    setLineScores((prev) => new Map(prev).set(sectionConflictKey(conflict), scored))
+  }
 
-    tick()
-    const iv = setInterval(tick, 4000) // update every 4s
-    return () => clearInterval(iv)
-  }, [])
+  // Both solvers run on the same trains so dispatchers can compare them side by side
+  const greedyResult = React.useMemo(
+    () =>
+      assignPlatformsScoreBased(trains, weights, {
+        platforms: inventory,
+        rules,
+        previousPlatforms: announced.current,
+        now,
+        freezeMinutes,
+        pinned,
+        connections,
+      }),
+    [trains, weights, inventory, rules, now, freezeMinutes, pinned, connections],
+  )
+  const optimalResult = React.useMemo(
+    () =>
+      assignPlatformsOptimal(trains, weights, {
+        platforms: inventory,
+        rules,
+        previousPlatforms: announced.current,
+        now,
+        freezeMinutes,
+        pinned,
+        connections,
+      }),
+    [trains, weights, inventory, rules, now, freezeMinutes, pinned, connections],
+  )
+  const result = solver === "optimal" ? optimalResult : greedyResult
+  const {
+    platforms,
+    assignments,
+    totalExtraDelay,
+    unassigned,
+    changes,
+    classDelays,
+    overrideConflicts,
+    rakeLinkIssues,
+    connections: transfers,
+  } = result
 
-  const platforms = React.useMemo(() => assignPlatformsScoreBased(trains), [trains])
+  // What-if plan with the draft weights, same solver and inputs; deferred so the sliders stay responsive
+  const deferredWeights = React.useDeferredValue(draftWeights)
+  const baselineTotals = React.useMemo(() => planTotals(result, rules), [result, rules])
+  const candidateTotals = React.useMemo(() => {
+    if (deferredWeights === weights) return baselineTotals
+    const candidate = solve(trains, {
+      solver,
+      weights: deferredWeights,
+      platforms: inventory,
+      rules,
+      previousPlatforms: announced.current,
+      now,
+      freezeMinutes,
+      pinned,
+      connections,
+    })
+    return planTotals(candidate, rules)
+  }, [
+    deferredWeights,
+    weights,
+    baselineTotals,
+    trains,
+    solver,
+    inventory,
+    rules,
+    now,
+    freezeMinutes,
+    pinned,
+    connections,
+  ])
 
-  const platformMetrics = React.useMemo(() => {
-    const map = new Map<number, { endMetric: number; totalDelay: number; delayedCount: number; totalTrains: number }>()
-    for (const pl of platforms) {
-      const totalTrains = pl.trains.length
-      const totalDelay = pl.trains.reduce((sum, t) => sum + t.delay, 0)
-      const delayedCount = pl.trains.filter((t) => t.status === "delayed").length
-      const endMetric = totalTrains > 0 ? (totalDelay + delayedCount) / totalTrains : 0
-      map.set(pl.id, { endMetric, totalDelay, delayedCount, totalTrains })
+  // Plan history: the latest saved version is restored on load, then every live re-plan is saved as a new version.
+  // Saves run in order so each version's diff is against the one before. Clock re-plans after unrecorded delay
+  // events are not saved; the next recorded change saves the board with them. A version holds what the dispatcher
+  // entered, the live trains and the holds on the line; the server carries the corridor's delays in again.
+  const [restored, setRestored] = React.useState(false)
+  const [saved, setSaved] = React.useState<{ version: number } | { error: string } | null>(null)
+  const saveQueue = React.useRef<Promise<void>>(Promise.resolve())
+  React.useEffect(() => {
+    fetch("/api/plans/latest")
+      .then(async (res) => {
+        if (!res.ok) return
+        const latest = (await res.json()) as PlanVersion
+        const board = restoreBoard(latest.request)
+        announced.current = Object.fromEntries(
+          latest.result.plan.platforms.flatMap((pl) => pl.trains.map((t) => [t.id, pl.id])),
+        )
+        setLiveTrains(board.trains)
+        setBlockages(board.blocks)
+        setOverrides({ ...EMPTY_OVERRIDE_HISTORY, present: board.pinned })
+        setConnections(board.connections)
+        setSectionHolds(board.sectionHolds)
+        setSolver(board.solver)
+        setWeights(board.weights)
+        setDraftWeights(board.weights)
+        setPlatformCount(board.platformCount)
+        if (board.freezeMinutes !== undefined) setFreezeMinutes(board.freezeMinutes)
+        setSaved({ version: latest.version })
+      })
+      .catch(() => {})
+      .finally(() => setRestored(true))
+  }, [])
+  // declared before the effect below so `announced` still holds the platforms this plan was made from
+  React.useEffect(() => {
+    if (!restored || mode !== "live") return
+    const cause = trigger.current
+    trigger.current = null
+    if (!cause && unrecorded.current) return
+    unrecorded.current = false
+    const body = {
+      ...boardRequest(
+        liveTrains,
+        {
+          solver,
+          weights,
+          platforms: inventory,
+          rules,
+          previousPlatforms: announced.current,
+          now,
+          freezeMinutes,
+          pinned,
+          connections,
+        },
+        sectionHolds,
+      ),
+      trigger: { ...(cause ?? { kind: "clock" }), actor: actor.current },
     }
-    return map
+    saveQueue.current = saveQueue.current.then(async () => {
+      try {
+        const res = await fetch("/api/schedule", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(body),
+        })
+        const data = await res.json()
+        setSaved(res.ok ? { version: (data as ScheduleResponse).version } : { error: data.error.message })
+      } catch (e) {
+        setSaved({ error: (e as Error).message })
+      }
+    })
+  }, [restored, mode, platforms])
+  React.useEffect(() => {
+    announced.current = platformsByTrain(platforms)
   }, [platforms])
+  const changeOf = new Map(changes.map((c) => [c.trainId, c]))
+  const nowPercent = now === undefined ? null : windowPercent(timeWindow, now)
+  const trainNames = new Map(trains.map((t) => [t.id, t.name]))
+  const inboundOf = rakeInbounds(trains)
+  const conflictOf = new Map(overrideConflicts.map((c) => [c.trainId, c]))
+  const assignmentOf = new Map(assignments.map((a) => [a.trainId, a]))
 
-  const delayComparisonData = React.useMemo(() => {
-    return platforms.flatMap((pl) => {
-      const metrics = platformMetrics.get(pl.id)
-      const endMetric = metrics ? metrics.endMetric : 0
-      return pl.trains.map((t) => {
-        const prev = t.delay
-        // New Delay (Reach Table) = |(Sched.Dep + End Time) - (Sched.Dep + Prev Delay)| = |End Time - Prev Delay|
-        const reachTableNewDelay = Math.abs(endMetric - prev)
-        return {
-          train: t.id,
-          fullName: t.name,
-          prevDelay: prev, // Train Details delay
-          newDelay: Number(reachTableNewDelay.toFixed(2)), // Reach Table New Delay (absolute)
-        }
-      })
+  // Station the timeline shows: this one, or a neighbour as the corridor plan has it (read only, no pins there)
+  const [shownStationId, setShownStationId] = React.useState(HOME_STATION_ID)
+  const neighbour =
+    shownStationId === HOME_STATION_ID ? undefined : corridorPlan.stations.find((s) => s.station.id === shownStationId)
+  const shownRules = neighbour ? (neighbour.station.rules ?? {}) : rules
+  const shownAssignmentOf = neighbour ? new Map(neighbour.result.assignments.map((a) => [a.trainId, a])) : assignmentOf
+
+  // Train whose placement is explained below the timeline (click a block)
+  const [inspected, setInspected] = React.useState<string | null>(null)
+  const inspectedTrain = (neighbour?.result.platforms ?? platforms)
+    .flatMap((pl) => pl.trains)
+    .find((t) => t.id === inspected)
+  const inspectedAssignment = inspected === null ? undefined : shownAssignmentOf.get(inspected)
+
+  // Re-plans with the new blockage right away to report the trains it moves; the board then catches up through
+  // the memos above with the same inputs
+  function addBlockage(block: PlatformBlock) {
+    const after = solve(trains, {
+      solver,
+      weights,
+      platforms: inventory,
+      rules: { ...rules, blocks: [...(rules.blocks ?? []), block] },
+      previousPlatforms: platformsByTrain(platforms),
+      now,
+      freezeMinutes,
+      pinned,
+      connections,
+    })
+    setBlockageReport({ block, impacts: planImpact(result, after) })
+    because("blockage", `Platform ${block.platformId} out of use from ${timestampToLabel(block.from)}`, {
+      kind: "blockage",
+      action: "add",
+      ...auditedBlockage(block),
     })
-  }, [platforms, platformMetrics])
+    setBlockages((prev) => [...prev, block])
+  }
+  const pinCount = Object.keys(pinned).length
+
+  // Every inventory platform gets a row, so trains can be dropped onto platforms the plan does not use
+  const rowsOf = (specs: PlatformSpec[], planned: Platform[]): Platform[] =>
+    specs.map((spec) => planned.find((pl) => pl.id === spec.id) ?? { id: spec.id, trains: [], nextFreeAt: 0, spec })
+  // this station's platforms, which blockages apply to whichever station the timeline shows
+  const homeRows = inventory ? rowsOf(inventory, platforms) : platforms
+  const timelineRows = neighbour ? rowsOf(neighbour.station.platforms, neighbour.result.platforms) : homeRows
+
+  // One delay propagation model drives the metrics and reach time tables and the delay comparison chart
+  const propagation = React.useMemo(() => propagateDelays(platforms, { rules }), [platforms, rules])
+  const placedTrains = new Map(platforms.flatMap((pl) => pl.trains.map((t) => [t.id, t])))
+  const delayComparisonData = propagation.map((p) => ({
+    train: p.trainId,
+    fullName: placedTrains.get(p.trainId)?.name ?? p.trainId,
+    prevDelay: p.reportedDelay,
+    newDelay: minutes(p.departureDelay),
+  }))
+
+  const classDelayData = classDelays.map((c) => ({
+    trainClass: CLASS_LABELS[c.trainClass],
+    delay: c.delay,
+    extraDelay: c.extraDelay,
+    pushedDown: c.pushedDown,
+  }))
+  const pushedDownTotal = classDelays.reduce((sum, c) => sum + c.pushedDown, 0)
 
   const delayedCount = trains.filter((t) => t.status === "delayed").length
   const onTimeCount = trains.length - delayedCount
+  const heldCount = platforms.reduce((sum, pl) => sum + pl.trains.filter((t) => t.heldMinutes > 0).length, 0)
+
+  // Window start and end labels; the end carries a day suffix when the window crosses midnight
+  const windowLabel = `${timestampToLabel(timeWindow.start)} to ${timestampToLabel(
+    windowEnd(timeWindow),
+    timeWindow.start,
+  )}`
 
-  const minStart = MINUTE_START
-  const maxEnd = MINUTE_END
-  const total = maxEnd - minStart
+  function fitWindowToTrains() {
+    const all = platforms.flatMap((pl) => pl.trains)
+    if (all.length === 0) return
+    const first = Math.min(...all.map((t) => t.effectiveArrival))
+    const last = Math.max(...all.map((t) => t.effectiveDeparture))
+    // whole hours around the trains, at least the shortest window length
+    const start = Math.floor(first / 60) * 60
+    const length = Math.max(WINDOW_LENGTH_OPTIONS[0].minutes, Math.ceil((last - start) / 60) * 60)
+    setTimeWindow({ start, length })
+  }
 
   return (
     <div className="flex flex-col gap-6">
       {/* Stats */}
-      <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
+      <div className="grid grid-cols-1 gap-4 md:grid-cols-4">
         <StatCard label="Platforms Used" value={String(platforms.length)} className="border-border" />
         <StatCard
           label="On-Time"
@@ -247,60 +779,461 @@ export default function TrainScheduler() {
           pillClass="bg-rose-500 text-white"
           className="border-border"
         />
+        <StatCard
+          label={`Held (+${totalExtraDelay} min)`}
+          value={String(heldCount)}
+          pillLabel="held"
+          pillClass="bg-amber-500 text-white"
+          className="border-border"
+        />
       </div>
 
+      {/* Live delay feed or seeded simulation */}
+      <div className="flex items-center gap-2" role="group" aria-label="Board mode">
+        {(Object.keys(MODE_LABELS) as BoardMode[]).map((m) => (
+          <button
+            key={m}
+            type="button"
+            onClick={() => setMode(m)}
+            aria-pressed={mode === m}
+            className={cn(
+              "rounded border border-border px-3 py-1 text-sm",
+              mode === m ? "bg-primary text-primary-foreground" : "bg-background text-foreground",
+            )}
+          >
+            {MODE_LABELS[m]}
+          </button>
+        ))}
+        <label className="ml-auto flex items-center gap-2 text-sm text-foreground">
+          Dispatcher
+          <input
+            value={dispatcher}
+            onChange={(e) => {
+              setDispatcher(e.target.value)
+              localStorage.setItem(DISPATCHER_KEY, e.target.value)
+            }}
+            placeholder="Your name"
+            className="w-36 rounded border border-border bg-background px-2 py-1 text-sm"
+          />
+        </label>
+        <span className="text-xs text-foreground" aria-live="polite">
+          {saved === null ? null : "error" in saved ? (
+            <span className="text-rose-600">Plan not saved: {saved.error}</span>
+          ) : (
+            `Plan version ${saved.version}`
+          )}
+        </span>
+        <Link href="/history" className="text-sm text-primary underline">
+          Plan history
+        </Link>
+        <Link href="/audit" className="text-sm text-primary underline">
+          Audit log
+        </Link>
+        <Link href="/calibration" className="text-sm text-primary underline">
+          Calibrate weights
+        </Link>
+      </div>
+      {auditError ? (
+        <p className="text-sm text-rose-600" role="alert">
+          Audit log not written: {auditError}
+        </p>
+      ) : null}
+      {mode === "live" ? (
+        <DelayFeedControl trains={liveTrains} onEvent={handleDelayEvent} />
+      ) : (
+        <SimulationPanel timetable={liveTrains} onBoard={setSimulation} />
+      )}
+
+      {/* Timetable import */}
+      <TimetableImport
+        onReplace={(next) => {
+          because("import", `${next.length} trains`)
+          setLiveTrains(next)
+        }}
+      />
+
+      {/* Maintenance and blockage windows */}
+      <BlockagePanel
+        platformIds={homeRows.map((p) => p.id)}
+        blocks={blockages}
+        defaultFrom={Math.ceil((now ?? timeWindow.start) / 15) * 15}
+        report={blockageReport}
+        trainNames={trainNames}
+        onAdd={addBlockage}
+        onRemove={(index) => {
+          because("blockage", `Platform ${blockages[index].platformId} back in use`, {
+            kind: "blockage",
+            action: "remove",
+            ...auditedBlockage(blockages[index]),
+          })
+          setBlockages((prev) => prev.filter((_, i) => i !== index))
+          setBlockageReport(null)
+        }}
+      />
+
+      {/* Platform inventory */}
+      <div className="flex items-center gap-2">
+        <label htmlFor="platform-count" className="text-sm text-foreground">
+          Platforms available:
+        </label>
+        <select
+          id="platform-count"
+          value={platformCount ?? ""}
+          onChange={(e) => {
+            because("settings", `platforms available: ${e.target.value || "unlimited"}`)
+            setPlatformCount(e.target.value === "" ? undefined : Number(e.target.value))
+          }}
+          className="rounded border border-border bg-background px-2 py-1 text-sm text-foreground"
+        >
+          <option value="">Unlimited</option>
+          {PLATFORM_COUNT_OPTIONS.map((n) => (
+            <option key={n} value={n}>
+              {n}
+            </option>
+          ))}
+        </select>
+
+        <label htmlFor="freeze-minutes" className="ml-4 text-sm text-foreground">
+          Freeze horizon:
+        </label>
+        <select
+          id="freeze-minutes"
+          value={freezeMinutes}
+          onChange={(e) => {
+            because("settings", `freeze horizon: ${e.target.value} min`)
+            setFreezeMinutes(Number(e.target.value))
+          }}
+          className="rounded border border-border bg-background px-2 py-1 text-sm text-foreground"
+        >
+          {FREEZE_OPTIONS.map((m) => (
+            <option key={m} value={m}>
+              {m === 0 ? "Berthed trains only" : `${m} min`}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {/* Operating window */}
+      <div className="flex flex-wrap items-center gap-3">
+        <label htmlFor="window-start" className="text-sm text-foreground">
+          Window from:
+        </label>
+        <input
+          id="window-start"
+          type="datetime-local"
+          value={toDateTimeLocal(timeWindow.start)}
+          onChange={(e) => {
+            const date = new Date(e.target.value)
+            if (!Number.isNaN(date.getTime())) setTimeWindow((w) => ({ ...w, start: toTimestamp(date) }))
+          }}
+          className="rounded border border-border bg-background px-2 py-1 text-sm text-foreground"
+        />
+        <label htmlFor="window-length" className="text-sm text-foreground">
+          Length:
+        </label>
+        <select
+          id="window-length"
+          value={timeWindow.length}
+          onChange={(e) => setTimeWindow((w) => ({ ...w, length: Number(e.target.value) }))}
+          className="rounded border border-border bg-background px-2 py-1 text-sm text-foreground"
+        >
+          {WINDOW_LENGTH_OPTIONS.some((o) => o.minutes === timeWindow.length) ? null : (
+            <option value={timeWindow.length}>{(timeWindow.length / 60).toFixed(0)} hours</option>
+          )}
+          {WINDOW_LENGTH_OPTIONS.map((o) => (
+            <option key={o.minutes} value={o.minutes}>
+              {o.label}
+            </option>
+          ))}
+        </select>
+        <button
+          type="button"
+          onClick={fitWindowToTrains}
+          className="rounded border border-border bg-background px-3 py-1 text-sm text-foreground"
+        >
+          Fit to trains
+        </button>
+      </div>
+
+      {/* Solver */}
+      <SolverComparison
+        solver={solver}
+        onSolverChange={(next) => {
+          because("settings", `solver: ${next}`)
+          setSolver(next)
+        }}
+        greedy={greedyResult}
+        optimal={optimalResult}
+      />
+
+      {/* Scoring weights */}
+      <WeightsPanel
+        weights={weights}
+        draft={draftWeights}
+        onDraft={setDraftWeights}
+        baseline={baselineTotals}
+        candidate={candidateTotals}
+        onApply={(label) => {
+          because("settings", `scoring weights: ${label ?? "tuned"}`)
+          setWeights(draftWeights)
+        }}
+      />
+
       {/* Legend */}
       <div className="flex items-center gap-4">
         <Legend swatchClass="bg-emerald-500" label="On-time" />
         <Legend swatchClass="bg-rose-500" label="Delayed" />
+        <Legend swatchClass="bg-amber-500" label="Held" />
+        <Legend swatchClass="border border-border" swatchStyle={BUFFER_STYLE} label="Clearance buffer" />
+        <Legend swatchClass="border border-rose-600" swatchStyle={BLOCK_STYLE} label="Out of use" />
+        <Legend swatchClass="ring-2 ring-sky-500" label="Platform changed" />
+        <Legend swatchClass="w-0.5 rounded-none bg-sky-700" label="Now" />
+        <Legend swatchClass="ring-2 ring-rose-600" label="Override conflict" />
       </div>
 
+      {/* Dispatcher overrides */}
+      <div className="flex flex-wrap items-center gap-2" role="group" aria-label="Overrides">
+        <span className="text-sm text-foreground">
+          {pinCount} train{pinCount === 1 ? "" : "s"} pinned. Drag a train onto another platform row to pin it there.
+        </span>
+        <button
+          type="button"
+          onClick={() => {
+            because("override", "undo", { kind: "override", action: "undo" })
+            setOverrides(undoOverride)
+          }}
+          disabled={overrides.past.length === 0}
+          className="rounded border border-border bg-background px-3 py-1 text-sm text-foreground disabled:opacity-50"
+        >
+          Undo
+        </button>
+        <button
+          type="button"
+          onClick={() => {
+            because("override", "redo", { kind: "override", action: "redo" })
+            setOverrides(redoOverride)
+          }}
+          disabled={overrides.future.length === 0}
+          className="rounded border border-border bg-background px-3 py-1 text-sm text-foreground disabled:opacity-50"
+        >
+          Redo
+        </button>
+        <button
+          type="button"
+          onClick={() => {
+            because("override", "cleared all overrides", { kind: "override", action: "clear" })
+            setOverrides(clearOverrides)
+          }}
+          disabled={pinCount === 0}
+          className="rounded border border-border bg-background px-3 py-1 text-sm text-foreground disabled:opacity-50"
+        >
+          Clear overrides
+        </button>
+      </div>
+      {overrideConflicts.length > 0 ? (
+        <div className="rounded border border-rose-600 p-3" role="alert">
+          <div className="text-sm font-medium text-rose-600">Override conflicts</div>
+          <ul className="mt-1 flex flex-col gap-2 text-sm text-foreground">
+            {overrideConflicts.map((c) => (
+              <li key={c.trainId}>
+                <span className="font-medium">
+                  {trainNames.get(c.trainId) ?? c.trainId} pinned to Platform {c.platformId}
+                </span>
+                <ul className="text-xs">
+                  {c.conflicts.map((conflict, i) => (
+                    <li key={i}>
+                      {conflict.trainId ? `${trainNames.get(conflict.trainId) ?? conflict.trainId}: ` : ""}
+                      {conflict.message}
+                    </li>
+                  ))}
+                </ul>
+              </li>
+            ))}
+          </ul>
+        </div>
+      ) : null}
+
+      {rakeLinkIssues.length > 0 ? (
+        <div className="rounded border border-amber-500 p-3" role="alert">
+          <div className="text-sm font-medium text-amber-700">Rake links</div>
+          <ul className="mt-1 flex flex-col gap-1 text-sm text-foreground">
+            {rakeLinkIssues.map((issue) => (
+              <li key={issue.inboundId}>
+                <span className={cn("font-medium", issue.kind !== "late" && "text-rose-600")}>
+                  {trainNames.get(issue.inboundId) ?? issue.inboundId} →{" "}
+                  {trainNames.get(issue.outboundId) ?? issue.outboundId}
+                  {issue.kind === "late" ? "" : " broken"}:
+                </span>{" "}
+                {issue.message}
+              </li>
+            ))}
+          </ul>
+        </div>
+      ) : null}
+
       {/* Timeline */}
       <div className="flex flex-col gap-6">
-        <TimeScale />
+        <div className="flex flex-wrap items-center gap-2">
+          <label htmlFor="timeline-station" className="text-sm text-foreground">
+            Station:
+          </label>
+          <select
+            id="timeline-station"
+            value={shownStationId}
+            onChange={(e) => setShownStationId(e.target.value)}
+            className="rounded border border-border bg-background px-2 py-1 text-sm text-foreground"
+          >
+            {CORRIDOR.stations.map((s) => (
+              <option key={s.id} value={s.id}>
+                {s.name}
+                {s.id === HOME_STATION_ID ? " (this station)" : ""}
+              </option>
+            ))}
+          </select>
+          {neighbour ? (
+            <span className="text-xs text-foreground">
+              Planned with the delays carried along the corridor. Pins and blockages apply to this station only.
+            </span>
+          ) : null}
+        </div>
+        <TimeScale timeWindow={timeWindow} />
 
         <div className="flex flex-col gap-6">
-          {platforms.map((p) => (
+          {timelineRows.map((p) => (
             <div key={p.id} className="flex flex-col gap-2">
               <div className="flex items-center justify-between">
-                <h3 className="text-lg font-semibold text-primary">Platform {p.id}</h3>
+                <h3 className="text-lg font-semibold text-primary">
+                  Platform {p.id}
+                  {p.spec ? (
+                    <span className="ml-2 text-sm font-normal text-foreground">{describePlatform(p.spec)}</span>
+                  ) : null}
+                </h3>
                 <span className="text-sm text-foreground">
                   {p.trains.length} train{p.trains.length === 1 ? "" : "s"}
                 </span>
               </div>
 
-              <div className="relative w-full border border-border p-3">
+              <div
+                className={cn(
+                  "relative w-full border border-border p-3",
+                  dropTarget === p.id && "border-primary bg-primary/5",
+                )}
+                onDragOver={(e) => {
+                  if (neighbour || !e.dataTransfer.types.includes(DRAG_TYPE)) return
+                  e.preventDefault()
+                  setDropTarget(p.id)
+                }}
+                onDragLeave={() => setDropTarget((id) => (id === p.id ? null : id))}
+                onDrop={(e) => {
+                  e.preventDefault()
+                  setDropTarget(null)
+                  const trainId = e.dataTransfer.getData(DRAG_TYPE)
+                  if (trainId) pin(trainId, p.id)
+                }}
+              >
                 <div
-                  className="relative h-16 w-full"
+                  className="relative h-16 w-full overflow-hidden"
                   role="group"
-                  aria-label={`Timeline for Platform ${p.id} from 08:00 to 12:00`}
+                  aria-label={`Timeline for Platform ${p.id} from ${windowLabel}`}
                 >
                   {p.trains.map((t) => {
-                    const start = t.effectiveArrival
-                    const end = t.effectiveDeparture
-                    const leftPct = ((start - minStart) / total) * 100
-                    const widthPct = ((end - start) / total) * 100
+                    const buffer = clearanceAfter(t, p.spec, shownRules)
+                    const span = windowSpan(timeWindow, t.effectiveDeparture, t.effectiveDeparture + buffer)
+                    if (buffer === 0 || !span) return null
+                    return (
+                      <div
+                        key={`buffer-${t.id}`}
+                        className="absolute top-0 h-full"
+                        style={{ ...BUFFER_STYLE, left: `${span.left}%`, width: `${span.width}%` }}
+                        aria-label={`Clearance buffer after ${t.name}, ${buffer} min`}
+                        title={`Clearance buffer after ${t.name}: ${buffer} min`}
+                      />
+                    )
+                  })}
+                  {(shownRules.blocks ?? [])
+                    .filter((b) => b.platformId === p.id)
+                    .map((b, i) => {
+                      const span = windowSpan(timeWindow, b.from, b.to)
+                      if (!span) return null
+                      const until = Number.isFinite(b.to) ? timestampToLabel(b.to, timeWindow.start) : "further notice"
+                      const label = `Out of use from ${timestampToLabel(b.from, timeWindow.start)} until ${until}${
+                        b.reason ? `: ${b.reason}` : ""
+                      }`
+                      return (
+                        <div
+                          key={`block-${i}`}
+                          className="absolute top-0 h-full border-x border-rose-600"
+                          style={{ ...BLOCK_STYLE, left: `${span.left}%`, width: `${span.width}%` }}
+                          aria-label={label}
+                          title={label}
+                        />
+                      )
+                    })}
+                  {nowPercent !== null && nowPercent >= 0 && nowPercent <= 100 ? (
+                    <div
+                      className="absolute top-0 z-10 h-full w-0.5 bg-sky-700"
+                      style={{ left: `${nowPercent}%` }}
+                      aria-hidden="true"
+                    />
+                  ) : null}
+                  {p.trains.map((t) => {
+                    // trains outside the window are not drawn; ones crossing its edges are cut off there
+                    const span = windowSpan(timeWindow, t.effectiveArrival, t.effectiveDeparture)
+                    if (!span) return null
 
-                    const isDelayed = t.status === "delayed"
-                    const blockClass = isDelayed ? "bg-rose-500" : "bg-emerald-500"
+                    const state = trainState(t)
+                    const blockClass = STATE_CLASSES[state]
+                    const change = neighbour ? undefined : changeOf.get(t.id)
+                    const conflict = neighbour ? undefined : conflictOf.get(t.id)
 
                     return (
                       <div
                         key={t.id}
-                        className={cn("absolute top-0 h-full rounded-sm px-2 py-1 text-sm text-white", blockClass)}
-                        style={{ left: `${leftPct}%`, width: `${widthPct}%` }}
-                        aria-label={`${t.name} ${isDelayed ? "(delayed)" : "(on-time)"} from ${minutesToLabel(
+                        draggable={!neighbour}
+                        onDragStart={(e) => {
+                          e.dataTransfer.setData(DRAG_TYPE, t.id)
+                          e.dataTransfer.effectAllowed = "move"
+                        }}
+                        onDragEnd={() => setDropTarget(null)}
+                        onClick={() => setInspected(t.id)}
+                        onKeyDown={(e) => {
+                          if (e.key === "Enter" || e.key === " ") setInspected(t.id)
+                        }}
+                        tabIndex={0}
+                        className={cn(
+                          "absolute top-0 h-full rounded-sm px-2 py-1 text-sm text-white",
+                          neighbour ? "cursor-pointer" : "cursor-grab",
+                          blockClass,
+                          change && "ring-2 ring-inset ring-sky-500",
+                          conflict && "ring-2 ring-inset ring-rose-600",
+                          inspected === t.id && "outline outline-2 outline-offset-1 outline-primary",
+                        )}
+                        title={
+                          conflict
+                            ? conflict.conflicts.map((c) => c.message).join("\n")
+                            : `${describeDecision(shownAssignmentOf.get(t.id))}. Click for the score breakdown.`
+                        }
+                        style={{ left: `${span.left}%`, width: `${span.width}%` }}
+                        aria-label={`${t.name} (${state}) from ${timestampToLabel(
                           t.effectiveArrival,
-                        )} to ${minutesToLabel(t.effectiveDeparture)}`}
+                          timeWindow.start,
+                        )} to ${timestampToLabel(t.effectiveDeparture, timeWindow.start)}`}
                         role="group"
                       >
                         <div className="flex h-full flex-col justify-between">
                           <div className="font-medium">
-                            <span className="sr-only">{isDelayed ? "Delayed" : "On-time"} </span>
+                            <span className="sr-only">{STATE_LABELS[state]} </span>
                             {t.name}
+                            {change ? <span className="ml-1 text-xs">(P{change.from}→P{change.to})</span> : null}
+                            {t.frozen ? <span className="sr-only"> frozen</span> : null}
+                            {t.pinned ? (
+                              <Lock className="ml-1 inline h-3 w-3" aria-label="pinned by dispatcher" />
+                            ) : null}
                           </div>
                           <div className="text-xs">
-                            {minutesToLabel(t.effectiveArrival)} — {minutesToLabel(t.effectiveDeparture)}
+                            {timestampToLabel(t.effectiveArrival, timeWindow.start)} —{" "}
+                            {timestampToLabel(t.effectiveDeparture, timeWindow.start)}
+                            {t.heldMinutes > 0 ? ` (+${t.heldMinutes} ${t.overflow})` : null}
                           </div>
                         </div>
                       </div>
@@ -312,6 +1245,65 @@ export default function TrainScheduler() {
           ))}
         </div>
 
+        {inspectedTrain && inspectedAssignment ? (
+          <DecisionPanel
+            train={inspectedTrain}
+            assignment={inspectedAssignment}
+            reference={timeWindow.start}
+            onClose={() => setInspected(null)}
+          />
+        ) : null}
+
+        <div className="mt-2">
+          <h3 className="mb-3 text-lg font-semibold text-primary">Passenger Connections</h3>
+          <ConnectionPanel
+            statuses={transfers}
+            // connection holds are on the live trains; holds on the line are listed with the line conflicts
+            trains={mode === "live" ? liveTrains : trains}
+            reference={timeWindow.start}
+            onAdd={(connection) => {
+              because("settings", `connection ${connection.fromTrain} to ${connection.toTrain} added`)
+              setConnections((prev) => [
+                ...prev.filter((c) => c.fromTrain !== connection.fromTrain || c.toTrain !== connection.toTrain),
+                connection,
+              ])
+            }}
+            onRemove={(connection) => {
+              because("settings", `connection ${connection.fromTrain} to ${connection.toTrain} removed`)
+              setConnections((prev) => prev.filter((c) => c !== connection))
+            }}
+            onHold={mode === "live" ? holdForConnection : undefined}
+            onRelease={mode === "live" ? releaseHold : undefined}
+          />
+        </div>
+
+        <div className="mt-2">
+          <h3 className="mb-3 text-lg font-semibold text-primary">Corridor (Time–Distance)</h3>
+          <CorridorChart
+            corridor={CORRIDOR}
+            runs={corridorPlan.runs}
+            timeWindow={timeWindow}
+            now={now}
+            settled={corridorPlan.settled}
+            conflicts={lineConflicts}
+          />
+        </div>
+
+        <div className="mt-2">
+          <h3 className="mb-3 text-lg font-semibold text-primary">Line Conflicts</h3>
+          <SectionConflictPanel
+            corridor={CORRIDOR}
+            conflicts={lineConflicts}
+            scores={lineScores}
+            holds={sectionHolds}
+            names={new Map(corridorPlan.runs.map((r) => [r.trainId, r.name]))}
+            reference={timeWindow.start}
+            onScore={scoreLineConflict}
+            onHold={holdOnLine}
+            onRelease={releaseOnLine}
+          />
+        </div>
+
         {/* Train Details - moved above Scheduling Metrics */}
         <div className="mt-2">
           <h3 id="train-details-heading" className="mb-3 text-lg font-semibold text-primary">
@@ -328,6 +1320,9 @@ export default function TrainScheduler() {
                   <th scope="col" className="px-3 py-2">
                     Train
                   </th>
+                  <th scope="col" className="px-3 py-2">
+                    Class
+                  </th>
                   <th scope="col" className="px-3 py-2">
                     Status
                   </th>
@@ -340,42 +1335,218 @@ export default function TrainScheduler() {
                   <th scope="col" className="px-3 py-2">
                     Delay (min)
                   </th>
+                  <th scope="col" className="px-3 py-2">
+                    Hold (min)
+                  </th>
                   <th scope="col" className="px-3 py-2">
                     Effective
                   </th>
+                  <th scope="col" className="px-3 py-2">
+                    Sched. Dwell (min)
+                  </th>
+                  <th scope="col" className="px-3 py-2">
+                    Planned Dwell (min)
+                  </th>
+                  <th scope="col" className="px-3 py-2">
+                    Recovered (min)
+                  </th>
                   <th scope="col" className="px-3 py-2">
                     Platform
                   </th>
+                  <th scope="col" className="px-3 py-2">
+                    Excluded Platforms
+                  </th>
                 </tr>
               </thead>
               <tbody>
                 {platforms.flatMap((pl) =>
-                  pl.trains.map((t) => (
-                    <tr key={`${pl.id}-${t.id}`} className="odd:bg-background even:bg-background">
-                      <td className="px-3 py-2 text-foreground">{t.name}</td>
-                      <td className="px-3 py-2">
-                        <span
-                          className={cn(
-                            "inline-flex items-center rounded px-2 py-0.5 text-xs font-medium",
-                            t.status === "delayed" ? "bg-rose-500 text-white" : "bg-emerald-500 text-white",
-                          )}
-                        >
-                          {t.status}
-                        </span>
-                      </td>
-                      <td className="px-3 py-2 text-foreground">{minutesToLabel(t.arrival)}</td>
-                      <td className="px-3 py-2 text-foreground">{minutesToLabel(t.departure)}</td>
-                      <td className="px-3 py-2 text-foreground">{t.delay}</td>
-                      <td className="px-3 py-2 text-foreground">
-                        {minutesToLabel(t.arrival + t.delay)} — {minutesToLabel(t.departure + t.delay)}
-                      </td>
-                      <td className="px-3 py-2 text-foreground">Platform {pl.id}</td>
-                    </tr>
-                  )),
+                  pl.trains.map((t) => {
+                    // a service formed by a rake holds the platform before its passengers can board
+                    const boarding = boardingFrom(t, inboundOf)
+                    return (
+                      <tr key={`${pl.id}-${t.id}`} className="odd:bg-background even:bg-background">
+                        <td className="px-3 py-2 text-foreground">
+                          {t.name}
+                          {t.formsTrain ? (
+                            <span className="ml-1 text-xs">(forms {trainNames.get(t.formsTrain) ?? t.formsTrain})</span>
+                          ) : null}
+                          {inboundOf.has(t.id) ? (
+                            <span className="ml-1 text-xs">
+                              (formed by {trainNames.get(inboundOf.get(t.id)!) ?? inboundOf.get(t.id)})
+                            </span>
+                          ) : null}
+                        </td>
+                        <td className="px-3 py-2 text-foreground">{CLASS_LABELS[trainClassOf(t)]}</td>
+                        <td className="px-3 py-2">
+                          <span
+                            className={cn(
+                              "inline-flex items-center rounded px-2 py-0.5 text-xs font-medium text-white",
+                              STATE_CLASSES[trainState(t)],
+                            )}
+                          >
+                            {trainState(t)}
+                          </span>
+                        </td>
+                        <td className="px-3 py-2 text-foreground">{timestampToLabel(t.arrival, timeWindow.start)}</td>
+                        <td className="px-3 py-2 text-foreground">{timestampToLabel(t.departure, timeWindow.start)}</td>
+                        <td className="px-3 py-2 text-foreground">{t.delay}</td>
+                        <td className="px-3 py-2 text-foreground">
+                          {t.heldMinutes > 0
+                            ? `${t.heldMinutes} (${t.overflow}${t.bumpedBy ? ` by ${t.bumpedBy}` : ""})`
+                            : "—"}
+                        </td>
+                        <td className="px-3 py-2 text-foreground">
+                          {timestampToLabel(boarding, timeWindow.start)} —{" "}
+                          {timestampToLabel(t.effectiveDeparture, timeWindow.start)}
+                          {boarding > t.effectiveArrival ? (
+                            <span className="ml-1 text-xs">
+                              (platform from {timestampToLabel(t.effectiveArrival, timeWindow.start)})
+                            </span>
+                          ) : null}
+                        </td>
+                        <td className="px-3 py-2 text-foreground">{t.departure - t.arrival}</td>
+                        <td className="px-3 py-2 text-foreground" title={`Minimum dwell ${minimumDwell(t, rules)} min`}>
+                          {t.effectiveDeparture - boarding}
+                        </td>
+                        <td className="px-3 py-2 text-foreground">
+                          {recoveredMinutes(t, boarding) > 0 ? recoveredMinutes(t, boarding) : "—"}
+                        </td>
+                        <td className="px-3 py-2 text-foreground">
+                          Platform {pl.id}
+                          {changeOf.has(t.id) ? (
+                            <span className="ml-1 text-xs text-sky-700">(was {changeOf.get(t.id)!.from})</span>
+                          ) : null}
+                          {t.frozen ? (
+                            <span
+                              className="ml-1 rounded border border-border px-1 text-xs"
+                              title="Inside the freeze horizon"
+                            >
+                              frozen
+                            </span>
+                          ) : null}
+                          <button
+                            type="button"
+                            onClick={() => pin(t.id, pinned[t.id] === undefined ? pl.id : undefined)}
+                            aria-pressed={pinned[t.id] !== undefined}
+                            className="ml-2 rounded border border-border bg-background px-2 py-0.5 text-xs"
+                          >
+                            {pinned[t.id] === undefined ? "Lock" : "Unlock"}
+                          </button>
+                        </td>
+                        <td className="px-3 py-2 text-foreground">
+                          <IncompatibilityList train={t} inventory={inventory} />
+                        </td>
+                      </tr>
+                    )
+                  }),
                 )}
               </tbody>
             </table>
           </div>
+          {changes.length > 0 ? (
+            <div className="mt-3 rounded border border-sky-500 p-3" aria-live="polite">
+              <div className="text-sm font-medium text-sky-700">
+                {changes.length} platform change{changes.length === 1 ? "" : "s"} since the last plan
+              </div>
+              <ul className="mt-1 flex flex-col gap-1 text-sm text-foreground">
+                {changes.map((c) => (
+                  <li key={c.trainId}>
+                    {trainNames.get(c.trainId) ?? c.trainId}: Platform {c.from} → Platform {c.to}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ) : null}
+          {unassigned.length > 0 ? (
+            <div className="mt-3 rounded border border-rose-500 p-3" role="alert">
+              <div className="text-sm font-medium text-rose-600">No compatible platform</div>
+              <ul className="mt-1 flex flex-col gap-2 text-sm text-foreground">
+                {unassigned.map(({ train, reasons }) => (
+                  <li key={train.id}>
+                    <span className="font-medium">{train.name}</span>
+                    <ul className="text-xs">
+                      {reasons.map((r) => (
+                        <li key={`${r.platformId}-${r.code}`}>
+                          Platform {r.platformId}: {r.message}
+                        </li>
+                      ))}
+                    </ul>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ) : null}
+        </div>
+
+        {/* Delay by priority class */}
+        <div className="mt-6">
+          <h3 id="class-delay-heading" className="mb-3 text-lg font-semibold text-primary">
+            Delay by Class
+          </h3>
+          <div className="overflow-x-auto">
+            <table
+              className="w-full border border-border text-left text-sm"
+              aria-labelledby="class-delay-heading"
+              role="table"
+            >
+              <thead>
+                <tr className="bg-background">
+                  <th scope="col" className="px-3 py-2">
+                    Class
+                  </th>
+                  <th scope="col" className="px-3 py-2">
+                    Trains
+                  </th>
+                  <th scope="col" className="px-3 py-2">
+                    Delay (min)
+                  </th>
+                  <th scope="col" className="px-3 py-2">
+                    Hold (min)
+                  </th>
+                  <th scope="col" className="px-3 py-2">
+                    Pushed Down (min)
+                  </th>
+                </tr>
+              </thead>
+              <tbody>
+                {classDelays.map((c) => (
+                  <tr key={c.trainClass} className="odd:bg-background even:bg-background">
+                    <td className="px-3 py-2 text-foreground">{CLASS_LABELS[c.trainClass]}</td>
+                    <td className="px-3 py-2 text-foreground">{c.trains}</td>
+                    <td className="px-3 py-2 text-foreground">{c.delay}</td>
+                    <td className="px-3 py-2 text-foreground">{c.extraDelay}</td>
+                    <td className="px-3 py-2 text-foreground">{c.pushedDown}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <p className="mt-2 text-xs text-foreground">
+            Hold delay pushed onto lower classes by higher-priority trains: {pushedDownTotal} min. The chart shows
+            reported delay, hold delay and pushed-down delay per class.
+          </p>
+          <div className="mt-3 overflow-x-auto">
+            <ChartContainer
+              config={{
+                delay: { label: "Delay", color: "#64748B" },
+                extraDelay: { label: "Hold", color: "#F59E0B" },
+                pushedDown: { label: "Pushed down", color: "#E11D48" },
+              }}
+              className="h-[260px] w-full rounded border border-border bg-background"
+              role="img"
+              aria-labelledby="class-delay-heading"
+            >
+              <BarChart data={classDelayData} margin={{ left: 12, right: 12, top: 8, bottom: 8 }}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="trainClass" />
+                <YAxis />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <Bar dataKey="delay" name="Delay" fill="var(--color-delay)" radius={2} />
+                <Bar dataKey="extraDelay" name="Hold" fill="var(--color-extraDelay)" radius={2} />
+                <Bar dataKey="pushedDown" name="Pushed down" fill="var(--color-pushedDown)" radius={2} />
+              </BarChart>
+            </ChartContainer>
+          </div>
         </div>
 
         {/* Scheduling Metrics - now below Train Details */}
@@ -401,42 +1572,45 @@ export default function TrainScheduler() {
                     Previous Delay (min)
                   </th>
                   <th scope="col" className="px-3 py-2">
-                    End Time (mm:ss)
+                    Knock-on (min)
                   </th>
                   <th scope="col" className="px-3 py-2">
-                    New Delay
+                    Recovered (min)
+                  </th>
+                  <th scope="col" className="px-3 py-2">
+                    New Delay (min)
                   </th>
                 </tr>
               </thead>
               <tbody>
-                {platforms.flatMap((pl) => {
-                  const metrics = platformMetrics.get(pl.id)
-                  const endMetric = metrics ? metrics.endMetric : 0
-                  return pl.trains.map((t) => {
-                    const prevDelay = t.delay
-                    const newDelay = Math.max(0, prevDelay - endMetric)
-                    return (
-                      <tr key={`metrics-${pl.id}-${t.id}`} className="odd:bg-background even:bg-background">
-                        <td className="px-3 py-2 text-foreground">{t.name}</td>
-                        <td className="px-3 py-2 text-foreground">Platform {pl.id}</td>
-                        <td className="px-3 py-2 text-foreground">{prevDelay}</td>
-                        <td className="px-3 py-2 text-foreground">
-                          <div className="flex items-center gap-2">
-                            <span>{formatMinSec(endMetric)}</span>
-                            <LivePulse label="Live end time updating" />
-                          </div>
-                        </td>
-                        <td className="px-3 py-2 text-foreground">{newDelay.toFixed(2)}</td>
-                      </tr>
-                    )
-                  })
-                })}
+                {propagation.map((p) => (
+                  <tr key={`metrics-${p.trainId}`} className="odd:bg-background even:bg-background">
+                    <td className="px-3 py-2 text-foreground">{trainNames.get(p.trainId) ?? p.trainId}</td>
+                    <td className="px-3 py-2 text-foreground">Platform {p.platformId}</td>
+                    <td className="px-3 py-2 text-foreground">{p.reportedDelay}</td>
+                    <td className="px-3 py-2 text-foreground">
+                      {minutes(p.knockOn)}
+                      {p.knockOnFrom ? (
+                        <span className="ml-1 text-xs">(after {trainNames.get(p.knockOnFrom) ?? p.knockOnFrom})</span>
+                      ) : null}
+                    </td>
+                    <td className="px-3 py-2 text-foreground">{minutes(p.recovered)}</td>
+                    <td className="px-3 py-2 text-foreground">
+                      <div className="flex items-center gap-2">
+                        <span>{minutes(p.departureDelay)}</span>
+                        <LivePulse label="Live projection updating" />
+                      </div>
+                    </td>
+                  </tr>
+                ))}
               </tbody>
             </table>
           </div>
           <p className="mt-2 text-xs text-foreground">
-            End Time per platform = (sum of delay minutes on the platform + number of delayed trains on the platform) /
-            total trains on the platform. New Delay = max(Previous Delay − End Time, 0).
+            Each train arrives at its reported delay, later if it is held or the train before it has not cleared the
+            platform (knock-on). It departs on time or after its minimum dwell (its own, its class's or{" "}
+            {DEFAULT_MIN_DWELL_MINUTES} min), recovering the dwell it does not need. New Delay is the projected
+            departure delay.
           </p>
         </div>
 
@@ -463,7 +1637,7 @@ export default function TrainScheduler() {
                     Sched. Dep
                   </th>
                   <th scope="col" className="px-3 py-2">
-                    End Time (mm:ss)
+                    Dwell (min)
                   </th>
                   <th scope="col" className="px-3 py-2">
                     Previous Delay (min)
@@ -477,37 +1651,26 @@ export default function TrainScheduler() {
                 </tr>
               </thead>
               <tbody>
-                {platforms.flatMap((pl) => {
-                  const metrics = platformMetrics.get(pl.id)
-                  const endMetric = metrics ? metrics.endMetric : 0
-                  return pl.trains.map((t) => {
-                    const prevDelay = t.delay
-                    // Old Reach Time = sched. departure + previous delay
-                    const oldReachTime = t.departure + prevDelay
-                    // New Reach Time = sched. departure + end time (platform end metric)
-                    const newReachTime = t.departure + endMetric
-                    // Signed minute difference (can be negative if improved)
-                    const newDelayDelta = newReachTime - oldReachTime
-                    const newDelayAbs = Math.abs(newReachTime - oldReachTime)
-
-                    return (
-                      <tr key={`reach-${pl.id}-${t.id}`} className="odd:bg-background even:bg-background">
-                        <td className="px-3 py-2 text-foreground">{t.name}</td>
-                        <td className="px-3 py-2 text-foreground">Platform {pl.id}</td>
-                        <td className="px-3 py-2 text-foreground">{minutesToLabel(t.departure)}</td>
-                        <td className="px-3 py-2 text-foreground">
-                          <div className="flex items-center gap-2">
-                            <span>{formatMinSec(endMetric)}</span>
-                            <LivePulse label="Live end time updating" />
-                          </div>
-                        </td>
-                        <td className="px-3 py-2 text-foreground">{prevDelay}</td>
-                        <td className="px-3 py-2 text-foreground">{newDelayAbs.toFixed(2)}</td>
-                        <td className="px-3 py-2 text-foreground">{minutesToLabelWithSeconds(newReachTime)}</td>
-                      </tr>
-                    )
-                  })
-                })}
+                {propagation.map((p) => (
+                  <tr key={`reach-${p.trainId}`} className="odd:bg-background even:bg-background">
+                    <td className="px-3 py-2 text-foreground">{trainNames.get(p.trainId) ?? p.trainId}</td>
+                    <td className="px-3 py-2 text-foreground">Platform {p.platformId}</td>
+                    <td className="px-3 py-2 text-foreground">
+                      {timestampToLabel(placedTrains.get(p.trainId)!.departure, timeWindow.start)}
+                    </td>
+                    <td className="px-3 py-2 text-foreground">
+                      {minutes(p.projectedDwell)}
+                      {p.projectedDwell === p.scheduledDwell ? null : (
+                        <span className="ml-1 text-xs">(scheduled {p.scheduledDwell})</span>
+                      )}
+                    </td>
+                    <td className="px-3 py-2 text-foreground">{p.reportedDelay}</td>
+                    <td className="px-3 py-2 text-foreground">{minutes(p.departureDelay)}</td>
+                    <td className="px-3 py-2 text-foreground">
+                      {timestampToLabelWithSeconds(p.projectedDeparture, timeWindow.start)}
+                    </td>
+                  </tr>
+                ))}
               </tbody>
             </table>
           </div>
@@ -515,17 +1678,16 @@ export default function TrainScheduler() {
           {/* Delay Comparison Chart */}
           <div className="mt-6">
             <h4 id="reach-delay-comparison-heading" className="mb-2 text-base font-semibold text-primary">
-              Delay Comparison (Train Details vs Reach Table)
+              Delay Comparison (Reported vs Projected)
             </h4>
             <p className="mb-3 text-xs text-foreground">
-              Compares Train Details delay with the New Delay used in Reach Time: absolute difference between End Time
-              and Previous Delay.
+              Compares the delay each train reported with its projected departure delay, after knock-on and recovery.
             </p>
             <div className="overflow-x-auto">
               <ChartContainer
                 config={{
-                  prevDelay: { label: "Train Details Delay", color: "#64748B" },
-                  newDelay: { label: "New Delay (Reach Table)", color: "#059669" },
+                  prevDelay: { label: "Reported Delay", color: "#64748B" },
+                  newDelay: { label: "Projected Delay", color: "#059669" },
                 }}
                 className="h-[320px] w-full rounded border border-border bg-background"
                 role="img"
@@ -537,8 +1699,8 @@ export default function TrainScheduler() {
                   <YAxis />
                   <ChartTooltip content={<ChartTooltipContent />} />
                   <ChartLegend content={<ChartLegendContent />} verticalAlign="bottom" />
-                  <Bar dataKey="prevDelay" name="Train Details Delay" fill="var(--color-prevDelay)" radius={2} />
-                  <Bar dataKey="newDelay" name="New Delay (Reach Table)" fill="var(--color-newDelay)" radius={2} />
+                  <Bar dataKey="prevDelay" name="Reported Delay" fill="var(--color-prevDelay)" radius={2} />
+                  <Bar dataKey="newDelay" name="Projected Delay" fill="var(--color-newDelay)" radius={2} />
                 </BarChart>
               </ChartContainer>
             </div>
@@ -577,25 +1739,121 @@ function StatCard({
   )
 }
 
-function Legend({ swatchClass, label }: { swatchClass: string; label: string }) {
+const SOLVER_LABELS: Record<SolverKind, string> = {
+  greedy: "Greedy scorer",
+  optimal: "Optimal (colouring + local search)",
+}
+
+function SolverComparison({
+  solver,
+  onSolverChange,
+  greedy,
+  optimal,
+}: {
+  solver: SolverKind
+  onSolverChange: (solver: SolverKind) => void
+  greedy: AssignmentResult
+  optimal: OptimalAssignmentResult
+}) {
+  const results: AssignmentResult[] = [greedy, optimal]
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="flex items-center gap-2" role="group" aria-label="Solver">
+        <span className="text-sm text-foreground">Solver:</span>
+        {results.map((r) => (
+          <button
+            key={r.solver}
+            type="button"
+            onClick={() => onSolverChange(r.solver)}
+            aria-pressed={solver === r.solver}
+            className={cn(
+              "rounded border border-border px-3 py-1 text-sm",
+              solver === r.solver ? "bg-primary text-primary-foreground" : "bg-background text-foreground",
+            )}
+          >
+            {SOLVER_LABELS[r.solver]}
+          </button>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+        {results.map((r) => (
+          <div
+            key={r.solver}
+            className={cn("rounded border p-4", solver === r.solver ? "border-primary" : "border-border")}
+          >
+            <div className="text-sm font-medium text-primary">{SOLVER_LABELS[r.solver]}</div>
+            <div className="mt-2 flex gap-6 text-sm text-foreground">
+              <span>
+                Platforms: <span className="font-semibold">{r.platforms.length}</span>
+              </span>
+              <span>
+                Cost: <span className="font-semibold">{r.cost.toFixed(2)}</span>
+              </span>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <p className="text-xs text-foreground">
+        Lower bound: {optimal.gap.lowerBound} platform{optimal.gap.lowerBound === 1 ? "" : "s"}. Optimality gap of the
+        greedy scorer: {optimal.gap.platformGap} platform{optimal.gap.platformGap === 1 ? "" : "s"},{" "}
+        {optimal.gap.costGap.toFixed(2)} cost.
+      </p>
+    </div>
+  )
+}
+
+function IncompatibilityList({ train, inventory }: { train: Train; inventory?: PlatformSpec[] }) {
+  const reasons = inventory ? explainCompatibility(train, inventory) : []
+  if (reasons.length === 0) return <span>—</span>
+  return (
+    <ul className="text-xs">
+      {reasons.map((r) => (
+        <li key={`${r.platformId}-${r.code}`}>
+          Platform {r.platformId}: {r.message}
+        </li>
+      ))}
+    </ul>
+  )
+}
+
+function Legend({
+  swatchClass,
+  swatchStyle,
+  label,
+}: {
+  swatchClass: string
+  swatchStyle?: React.CSSProperties
+  label: string
+}) {
   return (
     <div className="flex items-center gap-4">
-      <span className={cn("inline-block h-3 w-3 rounded", swatchClass)} aria-hidden="true" />
+      <span className={cn("inline-block h-3 w-3 rounded", swatchClass)} style={swatchStyle} aria-hidden="true" />
       <span className="text-sm text-foreground">{label}</span>
     </div>
   )
 }
 
-function TimeScale() {
-  const ticks = [0, 30, 60, 90, 120, 150, 180, 210, 240]
+function TimeScale({ timeWindow }: { timeWindow: TimeWindow }) {
+  const ticks = windowTicks(timeWindow)
   return (
     <div className="flex w-full flex-col gap-1">
-      <div className="flex items-center justify-between" aria-hidden="true">
-        {ticks.map((m) => (
-          <span key={m} className="text-xs text-foreground">
-            {minutesToLabel(m)}
-          </span>
-        ))}
+      <div className="relative h-4 w-full" aria-hidden="true">
+        {ticks.map((t) => {
+          const pct = windowPercent(timeWindow, t)
+          // keep the edge labels inside the scale
+          const shift = pct < 5 ? "0%" : pct > 95 ? "-100%" : "-50%"
+          return (
+            <span
+              key={t}
+              className="absolute top-0 whitespace-nowrap text-xs text-foreground"
+              style={{ left: `${pct}%`, transform: `translateX(${shift})` }}
+            >
+              {timestampToLabel(t, timeWindow.start)}
+            </span>
+          )
+        })}
       </div>
       <div className="h-px w-full bg-border" />
     </div>
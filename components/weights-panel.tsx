@@ -0,0 +1,335 @@
+"use client"
+
+import * as React from "react"
+import { cn } from "@/lib/utils"
+import {
+  DEFAULT_WEIGHTS,
+  TRAIN_CLASSES,
+  withDefaultWeights,
+  type PartialWeights,
+  type PlanTotals,
+  type ScoringWeights,
+  type TrainClass,
+} from "@/lib/scheduler"
+
+// localStorage key of the saved weight presets
+const PRESETS_KEY = "train-scheduler.weight-presets"
+
+export type WeightPreset = {
+  name: string
+  weights: ScoringWeights
+}
+
+// Always offered; a saved preset cannot take its name
+const DEFAULT_PRESET: WeightPreset = { name: "Default", weights: DEFAULT_WEIGHTS }
+
+type TermKey = Exclude<keyof ScoringWeights, "classWeights">
+
+// Slider range of each score term, from 0
+const TERM_SLIDERS: { key: TermKey; label: string; max: number; step: number }[] = [
+  { key: "idleGap", label: "Idle gap", max: 5, step: 0.1 },
+  { key: "load", label: "Load", max: 5, step: 0.1 },
+  { key: "delayedSpread", label: "Delayed spread", max: 5, step: 0.1 },
+  { key: "margin", label: "Margin", max: 2, step: 0.05 },
+  { key: "platformChange", label: "Platform change", max: 50, step: 1 },
+  { key: "connection", label: "Connection walk", max: 0.2, step: 0.005 },
+]
+const CLASS_WEIGHT_MAX = 10
+
+const TOTALS: { key: keyof PlanTotals; label: string; unit?: string }[] = [
+  { key: "platformsUsed", label: "Platforms used" },
+  { key: "idleGap", label: "Total idle gap", unit: "min" },
+  { key: "totalDelay", label: "Total delay", unit: "min" },
+  { key: "knockOn", label: "Knock-on delay", unit: "min" },
+  { key: "passengerDelay", label: "Passenger delay", unit: "passenger-min" },
+  { key: "platformChanges", label: "Platform changes" },
+  { key: "unassigned", label: "Without a platform" },
+]
+
+// A preset as saved or exported ({ name, weights }); missing weights are the defaults
+function toPreset(data: unknown): WeightPreset | null {
+  const p = data as { name?: unknown; weights?: unknown } | null
+  if (typeof p?.name !== "string" || !p.name.trim() || typeof p.weights !== "object" || p.weights === null) return null
+  return { name: p.name.trim(), weights: withDefaultWeights(p.weights as PartialWeights) }
+}
+
+function readPresets(): WeightPreset[] {
+  try {
+    const saved: unknown = JSON.parse(localStorage.getItem(PRESETS_KEY) ?? "[]")
+    return Array.isArray(saved) ? saved.map(toPreset).filter((p): p is WeightPreset => p !== null) : []
+  } catch {
+    return []
+  }
+}
+
+function writePresets(presets: WeightPreset[]) {
+  localStorage.setItem(PRESETS_KEY, JSON.stringify(presets))
+}
+
+// Adds the preset, replacing a saved one of the same name
+export function saveWeightPreset(preset: WeightPreset) {
+  writePresets([...readPresets().filter((p) => p.name !== preset.name), preset])
+}
+
+function amount(value: number, unit?: string) {
+  const rounded = Number(value.toFixed(1))
+  return unit ? `${rounded} ${unit}` : String(rounded)
+}
+
+function sameWeights(a: ScoringWeights, b: ScoringWeights) {
+  return (
+    TERM_SLIDERS.every(({ key }) => a[key] === b[key]) &&
+    TRAIN_CLASSES.every((c) => a.classWeights[c] === b.classWeights[c])
+  )
+}
+
+// What-if tuning of the scoring weights. The sliders set `draft`, which the board re-plans with live next to the plan
+// on screen (`baseline`); "Apply" puts the draft weights on the board. Named presets are saved in this browser.
+export default function WeightsPanel({
+  weights,
+  draft,
+  onDraft,
+  baseline,
+  candidate,
+  onApply,
+}: {
+  // weights of the plan on screen
+  weights: ScoringWeights
+  draft: ScoringWeights
+  onDraft: (weights: ScoringWeights) => void
+  baseline: PlanTotals
+  // totals of the plan with the draft weights
+  candidate: PlanTotals
+  // `label` names the preset the draft came from, if it was not changed since
+  onApply: (label?: string) => void
+}) {
+  const [presets, setPresets] = React.useState<WeightPreset[]>([])
+  React.useEffect(() => setPresets(readPresets()), [])
+  // preset last loaded or saved, until a slider moves
+  const [preset, setPreset] = React.useState<string | null>(null)
+  const [name, setName] = React.useState("")
+  const [error, setError] = React.useState<string | null>(null)
+  const all = [DEFAULT_PRESET, ...presets]
+  const changed = !sameWeights(weights, draft)
+
+  function setTerm(key: TermKey, value: number) {
+    setPreset(null)
+    onDraft({ ...draft, [key]: value })
+  }
+
+  function setClassWeight(trainClass: TrainClass, value: number) {
+    setPreset(null)
+    onDraft({ ...draft, classWeights: { ...draft.classWeights, [trainClass]: value } })
+  }
+
+  function load(presetName: string) {
+    const found = all.find((p) => p.name === presetName)
+    if (!found) return
+    setPreset(found.name)
+    setName(found === DEFAULT_PRESET ? "" : found.name)
+    onDraft(found.weights)
+  }
+
+  function save(e: React.FormEvent<HTMLFormElement>) {
+    e.preventDefault()
+    const trimmed = name.trim()
+    if (!trimmed) return setError("Give the preset a name.")
+    if (trimmed === DEFAULT_PRESET.name) return setError(`"${DEFAULT_PRESET.name}" is built in; choose another name.`)
+    const next = [...presets.filter((p) => p.name !== trimmed), { name: trimmed, weights: draft }]
+    writePresets(next)
+    setPresets(next)
+    setPreset(trimmed)
+    setError(null)
+  }
+
+  // preset files come from the calibration script or page
+  async function importFile(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0]
+    e.target.value = ""
+    if (!file) return
+    let imported = await file
+      .text()
+      .then((text) => toPreset(JSON.parse(text)))
+      .catch(() => null)
+    if (!imported) return setError(`${file.name} is not a weight preset ({ "name": …, "weights": { … } }).`)
+    if (imported.name === DEFAULT_PRESET.name) imported = { ...imported, name: `${imported.name} (imported)` }
+    saveWeightPreset(imported)
+    setPresets(readPresets())
+    setPreset(imported.name)
+    setName(imported.name)
+    setError(null)
+    onDraft(imported.weights)
+  }
+
+  function remove(presetName: string) {
+    const next = presets.filter((p) => p.name !== presetName)
+    writePresets(next)
+    setPresets(next)
+    setPreset(null)
+  }
+
+  return (
+    <div className="flex flex-col gap-4 rounded border border-border p-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-sm font-medium text-primary">Scoring weights</span>
+        <select
+          aria-label="Load preset"
+          value={preset ?? ""}
+          onChange={(e) => load(e.target.value)}
+          className="rounded border border-border bg-background px-2 py-1 text-sm text-foreground"
+        >
+          <option value="" disabled>
+            Load preset…
+          </option>
+          {all.map((p) => (
+            <option key={p.name} value={p.name}>
+              {p.name}
+            </option>
+          ))}
+        </select>
+        <form className="flex items-center gap-2" onSubmit={save} aria-label="Save preset">
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Preset name"
+            maxLength={60}
+            className="w-40 rounded border border-border bg-background px-2 py-1 text-sm"
+          />
+          <button
+            type="submit"
+            className="rounded border border-border bg-background px-3 py-1 text-sm text-foreground"
+          >
+            Save preset
+          </button>
+        </form>
+        {preset && preset !== DEFAULT_PRESET.name ? (
+          <button
+            type="button"
+            onClick={() => remove(preset)}
+            className="rounded border border-border bg-background px-3 py-1 text-sm text-foreground"
+          >
+            Delete {preset}
+          </button>
+        ) : null}
+        <label className="cursor-pointer rounded border border-border bg-background px-3 py-1 text-sm text-foreground">
+          Import preset
+          <input type="file" accept="application/json,.json" onChange={importFile} className="sr-only" />
+        </label>
+      </div>
+      {error ? (
+        <p className="text-sm text-rose-600" role="alert">
+          {error}
+        </p>
+      ) : null}
+
+      <div className="grid grid-cols-1 gap-x-6 gap-y-2 md:grid-cols-2">
+        {TERM_SLIDERS.map(({ key, label, max, step }) => (
+          <Slider
+            key={key}
+            label={label}
+            value={draft[key]}
+            max={max}
+            step={step}
+            applied={weights[key]}
+            onChange={(v) => setTerm(key, v)}
+          />
+        ))}
+        {TRAIN_CLASSES.map((c) => (
+          <Slider
+            key={c}
+            label={`Priority: ${c}`}
+            value={draft.classWeights[c]}
+            max={CLASS_WEIGHT_MAX}
+            step={0.5}
+            applied={weights.classWeights[c]}
+            onChange={(v) => setClassWeight(c, v)}
+          />
+        ))}
+      </div>
+
+      <table className="w-full border-collapse text-sm">
+        <thead>
+          <tr className="border-b border-border text-left text-foreground">
+            <th className="p-2" />
+            <th className="p-2">On the board</th>
+            <th className="p-2">With these weights</th>
+            <th className="p-2">Change</th>
+          </tr>
+        </thead>
+        <tbody>
+          {TOTALS.map(({ key, label, unit }) => {
+            const delta = candidate[key] - baseline[key]
+            return (
+              <tr key={key} className="border-b border-border text-foreground">
+                <th className="p-2 text-left font-normal">{label}</th>
+                <td className="p-2">{amount(baseline[key], unit)}</td>
+                <td className="p-2">{amount(candidate[key], unit)}</td>
+                <td className={cn("p-2 font-medium", delta < 0 && "text-emerald-600", delta > 0 && "text-rose-600")}>
+                  {delta === 0 ? "—" : `${delta > 0 ? "+" : ""}${amount(delta, unit)}`}
+                </td>
+              </tr>
+            )
+          })}
+        </tbody>
+      </table>
+
+      <div className="flex items-center gap-2">
+        <button
+          type="button"
+          onClick={() => onApply(preset ?? undefined)}
+          disabled={!changed}
+          className="rounded border border-border bg-primary px-3 py-1 text-sm text-primary-foreground disabled:opacity-50"
+        >
+          Apply to the board
+        </button>
+        <button
+          type="button"
+          onClick={() => {
+            setPreset(null)
+            onDraft(weights)
+          }}
+          disabled={!changed}
+          className="rounded border border-border bg-background px-3 py-1 text-sm text-foreground disabled:opacity-50"
+        >
+          Reset
+        </button>
+      </div>
+    </div>
+  )
+}
+
+function Slider({
+  label,
+  value,
+  max,
+  step,
+  applied,
+  onChange,
+}: {
+  label: string
+  value: number
+  max: number
+  step: number
+  // value on the board, shown while the slider differs from it
+  applied: number
+  onChange: (value: number) => void
+}) {
+  return (
+    <label className="flex items-center gap-3 text-sm text-foreground">
+      <span className="w-36 shrink-0">{label}</span>
+      <input
+        type="range"
+        min={0}
+        max={Math.max(max, value)}
+        step={step}
+        value={value}
+        onChange={(e) => onChange(Number(e.target.value))}
+        className="flex-1"
+      />
+      <span className="w-24 shrink-0 text-right tabular-nums">
+        {value}
+        {value === applied ? null : <span className="text-xs"> (was {applied})</span>}
+      </span>
+    </label>
+  )
+}
@@ -0,0 +1,66 @@
+import { mkdtemp, readdir, rm } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import path from "node:path"
+import { afterEach, beforeEach, describe, expect, it } from "vitest"
+import { fileAuditLog, type AuditEvent, type AuditLog } from "./audit"
+
+const delay = (trainId: string, minutes: number): AuditEvent => ({
+  kind: "delay",
+  trainId,
+  eta: "2025-03-14T08:20:00.000Z",
+  delay: minutes,
+})
+
+async function appendEach(log: AuditLog, count: number) {
+  for (let i = 1; i <= count; i++) await log.append(i % 2 === 0 ? "asha" : "ravi", [delay(String(i), i)])
+}
+
+async function collect(entries: AsyncIterable<{ seq: number }>) {
+  const seqs: number[] = []
+  for await (const e of entries) seqs.push(e.seq)
+  return seqs
+}
+
+describe("fileAuditLog", () => {
+  let dir: string
+  let file: string
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), "audit-"))
+    file = path.join(dir, "audit.jsonl")
+  })
+  afterEach(() => rm(dir, { recursive: true, force: true }))
+
+  it("rotates full files into archives named by their sequence numbers", async () => {
+    await appendEach(fileAuditLog(file, { rotateAt: 2 }), 7)
+    expect((await readdir(dir)).sort()).toEqual([
+      "audit.000001-000002.jsonl",
+      "audit.000003-000004.jsonl",
+      "audit.000005-000006.jsonl",
+      "audit.jsonl",
+    ])
+  })
+
+  it("lists and pages through every archive after several rotations, and after a restart", async () => {
+    await appendEach(fileAuditLog(file, { rotateAt: 2 }), 7)
+    const log = fileAuditLog(file, { rotateAt: 2 })
+    expect((await log.list()).map((e) => e.seq)).toEqual([1, 2, 3, 4, 5, 6, 7])
+    expect((await log.list({}, { limit: 3 })).map((e) => e.seq)).toEqual([5, 6, 7])
+    expect((await log.list({}, { before: 5, limit: 3 })).map((e) => e.seq)).toEqual([2, 3, 4])
+    expect((await log.list({ actor: "ravi" }, { before: 7 })).map((e) => e.seq)).toEqual([1, 3, 5])
+    expect((await log.append("asha", [delay("8", 8)]))[0].seq).toBe(8)
+  })
+
+  it("numbers on from the newest archive when the current file is missing", async () => {
+    await appendEach(fileAuditLog(file, { rotateAt: 2 }), 3)
+    await rm(file)
+    const log = fileAuditLog(file, { rotateAt: 2 })
+    expect((await log.append("asha", [delay("9", 9)]))[0].seq).toBe(3)
+  })
+
+  it("streams every matching entry, archives included, oldest first", async () => {
+    const log = fileAuditLog(file, { rotateAt: 2 })
+    await appendEach(log, 7)
+    expect(await collect(log.stream())).toEqual([1, 2, 3, 4, 5, 6, 7])
+    expect(await collect(log.stream({ actor: "asha" }))).toEqual([2, 4, 6])
+  })
+})
@@ -0,0 +1,245 @@
+import { appendFile, mkdir, readdir, readFile, rename } from "node:fs/promises"
+import path from "node:path"
+import { z } from "zod"
+import type { CostBreakdown, ScoringWeights, SolverKind, TrainAssignment } from "@/lib/scheduler"
+import type { PlanTrigger } from "./history"
+import type { ScheduleRequest } from "./schedule"
+
+// Append-only audit log of what happened on the board: delay updates, dispatcher overrides and blockages, and every
+// solver run with its inputs and result. Entries are never changed or removed; older ones are rotated into archive
+// files (see fileAuditLog).
+
+const isoTime = z.string().refine((v) => !Number.isNaN(Date.parse(v)), { message: "expected an ISO date-time" })
+const platformId = z.number().int().positive()
+
+// Events the board reports; solver runs are logged by POST /api/schedule itself
+export const auditEventSchema = z.discriminatedUnion("kind", [
+  z.object({
+    kind: z.literal("delay"),
+    trainId: z.string().min(1),
+    eta: isoTime,
+    // minutes, after the update
+    delay: z.number().nonnegative(),
+    reason: z.string().optional(),
+  }),
+  z.object({
+    kind: z.literal("override"),
+    action: z.enum(["pin", "unpin", "undo", "redo", "clear", "hold", "release"]),
+    // pin, unpin, hold and release only
+    trainId: z.string().min(1).optional(),
+    platformId: platformId.optional(),
+    // hold only: the new departure, and why
+    until: isoTime.optional(),
+    reason: z.string().optional(),
+    // hold and release: corridor station of the hold; this station when omitted
+    stationId: z.string().min(1).optional(),
+  }),
+  z.object({
+    kind: z.literal("blockage"),
+    action: z.enum(["add", "remove"]),
+    platformId,
+    from: isoTime,
+    // open-ended without
+    to: isoTime.optional(),
+    reason: z.string().optional(),
+  }),
+])
+
+export const auditRequestSchema = z.object({
+  // who made the changes; "anonymous" when omitted
+  actor: z.string().trim().min(1).max(100).optional(),
+  events: z.array(auditEventSchema).min(1).max(500),
+})
+
+export type AuditEvent = z.infer<typeof auditEventSchema>
+
+export type SolverRunEvent = {
+  kind: "solver-run"
+  // plan history version the run was saved as
+  version: number
+  trigger: PlanTrigger
+  solver: SolverKind
+  weights: ScoringWeights
+  request: ScheduleRequest
+  cost: CostBreakdown
+  totalExtraDelay: number
+  // every placement with the reason for it; `arrival` is the effective arrival
+  assignments: (TrainAssignment & { arrival: string | null })[]
+}
+
+export type AuditEntry = (AuditEvent | SolverRunEvent) & {
+  // 1, 2, 3… in the order entries were appended
+  seq: number
+  // server time the entry was appended
+  at: string
+  actor: string
+}
+
+export type AuditKind = AuditEntry["kind"]
+
+export const auditFilterSchema = z.object({
+  kind: z.enum(["delay", "override", "blockage", "solver-run"]).optional(),
+  // entries about the train: its delays and overrides, and solver runs that placed it
+  trainId: z.string().min(1).optional(),
+  actor: z.string().min(1).optional(),
+  from: isoTime.optional(),
+  to: isoTime.optional(),
+})
+
+export type AuditFilter = z.infer<typeof auditFilterSchema>
+
+function mentionsTrain(entry: AuditEntry, trainId: string) {
+  if (entry.kind === "solver-run") return entry.assignments.some((a) => a.trainId === trainId)
+  return "trainId" in entry && entry.trainId === trainId
+}
+
+export function matchesAuditFilter(entry: AuditEntry, filter: AuditFilter) {
+  const at = Date.parse(entry.at)
+  return (
+    (!filter.kind || entry.kind === filter.kind) &&
+    (!filter.trainId || mentionsTrain(entry, filter.trainId)) &&
+    (!filter.actor || entry.actor.toLowerCase().includes(filter.actor.toLowerCase())) &&
+    (!filter.from || at >= Date.parse(filter.from)) &&
+    (!filter.to || at <= Date.parse(filter.to))
+  )
+}
+
+// A page of matching entries: the `limit` newest before sequence number `before` (all of them without)
+export const auditPageSchema = z.object({
+  before: z.coerce.number().int().positive().optional(),
+  limit: z.coerce.number().int().min(1).max(1000).optional(),
+})
+
+export type AuditPage = z.infer<typeof auditPageSchema>
+
+export type AuditLog = {
+  append: (actor: string, events: (AuditEvent | SolverRunEvent)[]) => Promise<AuditEntry[]>
+  // a page of matching entries, oldest first; archives are read only as far back as the page reaches
+  list: (filter?: AuditFilter, page?: AuditPage) => Promise<AuditEntry[]>
+  // every matching entry, oldest first, reading one file at a time
+  stream: (filter?: AuditFilter) => AsyncIterable<AuditEntry>
+}
+
+export type AuditLogOptions = {
+  // entries per file; a full file is rotated into an archive
+  rotateAt?: number
+}
+
+export const DEFAULT_AUDIT_ROTATION = 10000
+
+// The log as a JSON Lines file, one entry per line; the export format is the file itself. Once the file holds
+// `rotateAt` entries it is renamed to an archive next to it, named by its sequence numbers (audit.000001-010000.jsonl
+// for audit.jsonl), and a new file is started. Only the current file is held in memory; archives are read from disk
+// when a page or an export reaches back into them.
+export function fileAuditLog(file: string, { rotateAt = DEFAULT_AUDIT_ROTATION }: AuditLogOptions = {}): AuditLog {
+  const dir = path.dirname(file)
+  const base = path.basename(file, ".jsonl")
+  const archiveName = (first: number, last: number) =>
+    `${base}.${String(first).padStart(6, "0")}-${String(last).padStart(6, "0")}.jsonl`
+  const archiveRange = (name: string) => {
+    const match = /\.(\d+)-(\d+)\.jsonl$/.exec(name)
+    return match && name.startsWith(`${base}.`) ? { first: Number(match[1]), last: Number(match[2]) } : null
+  }
+  // archive names oldest first, then the current file's entries
+  let entries: Promise<{ archives: string[]; current: AuditEntry[] }> | null = null
+  // appends run one after another so sequence numbers stay unique
+  let queue: Promise<unknown> = Promise.resolve()
+
+  async function read(name: string) {
+    try {
+      return parseAuditLines(await readFile(path.join(dir, name), "utf8"))
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code === "ENOENT") return []
+      throw e
+    }
+  }
+
+  async function archives() {
+    try {
+      // zero-padded sequence numbers sort by name
+      return (await readdir(dir)).filter((name) => archiveRange(name) !== null).sort()
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code === "ENOENT") return []
+      throw e
+    }
+  }
+
+  function load() {
+    entries ??= Promise.all([archives(), read(path.basename(file))]).then(
+      ([archives, current]) => ({ archives, current }),
+      (e) => {
+        entries = null
+        throw e
+      },
+    )
+    return entries
+  }
+
+  return {
+    append(actor, events) {
+      const appended = queue.then(async () => {
+        const log = await load()
+        if (log.current.length >= rotateAt) {
+          const name = archiveName(log.current[0].seq, log.current.at(-1)!.seq)
+          await rename(file, path.join(dir, name))
+          log.archives.push(name)
+          log.current = []
+        }
+        const at = new Date().toISOString()
+        const newestArchive = log.archives.at(-1)
+        const last = log.current.at(-1)?.seq ?? (newestArchive ? archiveRange(newestArchive)!.last : 0)
+        const next = events.map((event, i): AuditEntry => ({ ...event, seq: last + i + 1, at, actor }))
+        await mkdir(dir, { recursive: true })
+        await appendFile(file, toAuditLines(next))
+        log.current.push(...next)
+        return next
+      })
+      queue = appended.catch(() => {})
+      return appended
+    },
+    async list(filter = {}, { before, limit }: AuditPage = {}) {
+      const log = await load()
+      const wanted = (e: AuditEntry) => (before === undefined || e.seq < before) && matchesAuditFilter(e, filter)
+      let matching = log.current.filter(wanted)
+      // newest archive first, until the page is full
+      for (const name of [...log.archives].reverse()) {
+        if (limit !== undefined && matching.length >= limit) break
+        if (before !== undefined && archiveRange(name)!.first >= before) continue
+        matching = [...(await read(name)).filter(wanted), ...matching]
+      }
+      return matching.slice(limit === undefined ? 0 : Math.max(0, matching.length - limit))
+    },
+    async *stream(filter = {}) {
+      const log = await load()
+      const [names, current] = [[...log.archives], [...log.current]]
+      for (const name of names) {
+        for (const e of await read(name)) if (matchesAuditFilter(e, filter)) yield e
+      }
+      for (const e of current) if (matchesAuditFilter(e, filter)) yield e
+    },
+  }
+}
+
+export function parseAuditLines(text: string): AuditEntry[] {
+  return text
+    .split("\n")
+    .filter((line) => line.trim() !== "")
+    .map((line) => JSON.parse(line) as AuditEntry)
+}
+
+export function toAuditLines(entries: AuditEntry[]) {
+  return entries.map((e) => `${JSON.stringify(e)}\n`).join("")
+}
+
+// AUDIT_LOG_FILE overrides the default data/audit.jsonl
+const LOG_FILE = process.env.AUDIT_LOG_FILE ?? path.join(process.cwd(), "data", "audit.jsonl")
+// Entries per file; AUDIT_LOG_ROTATE_AT overrides the default
+const LOG_ROTATE_AT = Number(process.env.AUDIT_LOG_ROTATE_AT) || DEFAULT_AUDIT_ROTATION
+
+let log: AuditLog | null = null
+
+// The log API routes write to
+export function auditLog() {
+  log ??= fileAuditLog(LOG_FILE, { rotateAt: LOG_ROTATE_AT })
+  return log
+}
@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest"
+import { atClock, dayStart, solve, toTimestamp, type SolveOptions, type Train } from "@/lib/scheduler"
+import { corridorStationTrains, STATION_PLATFORMS, STATION_RULES } from "@/lib/station"
+import { boardRequest, restoreBoard, type RestoredBoard } from "./board"
+import { parseScheduleRequest, plannedTrains, schedule, serializePlan } from "./schedule"
+
+const day = dayStart(toTimestamp(new Date(2025, 2, 14)))
+const at = (h: number, m: number) => atClock(day, h * 60 + m)
+const train = (id: string, arrival: number, departure: number, extra: Partial<Train> = {}): Train => ({
+  id,
+  name: id,
+  arrival,
+  departure,
+  delay: 0,
+  status: "on-time",
+  ...extra,
+})
+
+// D1 is reported late, U1 has a connection hold here and is held at Southport on the line
+const timetable = [
+  train("D1", at(8, 0), at(8, 5), { delay: 12, status: "delayed", trainClass: "express" }),
+  train("U1", at(8, 30), at(8, 35), { direction: "up", trainClass: "mail", departureHold: 3 }),
+  train("D2", at(8, 40), at(8, 45), { trainClass: "suburban" }),
+]
+const holds = [{ trainId: "U1", stationId: "southport", until: at(8, 20) }]
+const options: SolveOptions = {
+  solver: "greedy",
+  platforms: STATION_PLATFORMS.slice(0, 4),
+  rules: { ...STATION_RULES, blocks: [{ platformId: 2, from: at(8, 0), to: at(9, 0), reason: "track work" }] },
+  pinned: { D2: 3 },
+  connections: [],
+}
+
+// the plan as the board makes it
+function boardPlan(trains: Train[], sectionHolds: typeof holds, solveOptions: SolveOptions) {
+  const planned = corridorStationTrains(trains, sectionHolds, solveOptions)
+  return serializePlan(solve(planned, solveOptions), solveOptions.rules)
+}
+
+function restoredOptions(board: RestoredBoard): SolveOptions {
+  return {
+    solver: board.solver,
+    weights: board.weights,
+    platforms: board.platformCount === undefined ? undefined : STATION_PLATFORMS.slice(0, board.platformCount),
+    rules: { ...STATION_RULES, blocks: board.blocks },
+    pinned: board.pinned,
+    connections: board.connections,
+  }
+}
+
+describe("saving and restoring the board", () => {
+  const saved = JSON.parse(JSON.stringify(boardRequest(timetable, options, holds)))
+
+  it("saves the timetable as entered, with the holds on the line next to it", () => {
+    expect(saved.trains.map((t: Train) => [t.id, t.delay, t.departureHold])).toEqual([
+      ["D1", 12, undefined],
+      ["U1", 0, 3],
+      ["D2", 0, undefined],
+    ])
+    expect(saved.sectionHolds).toEqual([
+      { trainId: "U1", stationId: "southport", until: new Date(2025, 2, 14, 8, 20).toISOString() },
+    ])
+  })
+
+  it("gives the server the board's plan", () => {
+    const parsed = parseScheduleRequest(saved)
+    if ("issues" in parsed) throw new Error(JSON.stringify(parsed.issues))
+    expect(schedule(plannedTrains(parsed), parsed.options)).toEqual(boardPlan(timetable, holds, options))
+  })
+
+  it("restores the same board and plan, however often it is saved again", () => {
+    let request = saved
+    for (let round = 0; round < 3; round++) {
+      const board = restoreBoard(request)
+      expect(board.sectionHolds).toEqual(holds)
+      expect(boardPlan(board.trains, board.sectionHolds, restoredOptions(board))).toEqual(
+        boardPlan(timetable, holds, options),
+      )
+      request = JSON.parse(JSON.stringify(boardRequest(board.trains, restoredOptions(board), board.sectionHolds)))
+      expect(request.trains).toEqual(saved.trains)
+    }
+  })
+})
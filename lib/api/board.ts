@@ -0,0 +1,81 @@
+import {
+  dayStart,
+  fromTimestamp,
+  importTimetableRecords,
+  parseTimestamp,
+  toTimestamp,
+  withDefaultWeights,
+  type Connection,
+  type PlatformBlock,
+  type ScoringWeights,
+  type SectionHold,
+  type SolveOptions,
+  type SolverKind,
+  type Train,
+} from "@/lib/scheduler"
+import type { ScheduleRequest } from "./schedule"
+
+// The board's state as a POST /api/schedule request and back, so the plan history can restore it. Client-side
+// counterpart of parseScheduleRequest; times travel as ISO date-times.
+
+function iso(t: number) {
+  return fromTimestamp(t).toISOString()
+}
+
+// `trains` are the station's timetable as the dispatcher has it (reported delays, connection holds), not the trains
+// the corridor carries in: the server runs them through the corridor again with `sectionHolds`.
+export function boardRequest(trains: Train[], options: SolveOptions, sectionHolds: SectionHold[]): ScheduleRequest {
+  const { blocks, ...rules } = options.rules ?? {}
+  return {
+    trains: trains.map(({ status: _status, ...t }) => ({ ...t, arrival: iso(t.arrival), departure: iso(t.departure) })),
+    solver: options.solver,
+    weights: options.weights,
+    platforms: options.platforms,
+    platformCount: options.platformCount,
+    maxHoldMinutes: options.maxHoldMinutes,
+    rules: {
+      ...rules,
+      blocks: blocks?.map((b) => ({ ...b, from: iso(b.from), to: Number.isFinite(b.to) ? iso(b.to) : undefined })),
+    },
+    previousPlatforms: options.previousPlatforms,
+    now: options.now === undefined ? undefined : iso(options.now),
+    freezeMinutes: options.freezeMinutes,
+    pinned: options.pinned,
+    connections: options.connections,
+    sectionHolds: sectionHolds.map((h) => ({ ...h, until: iso(h.until) })),
+  }
+}
+
+export type RestoredBoard = {
+  trains: Train[]
+  blocks: PlatformBlock[]
+  pinned: Record<string, number>
+  connections: Connection[]
+  sectionHolds: SectionHold[]
+  solver: SolverKind
+  weights: ScoringWeights
+  // number of inventory platforms; undefined when platforms were opened on demand
+  platformCount?: number
+  freezeMinutes?: number
+}
+
+// Board state of a saved request. Clock times (in requests from other API clients) are on the request's service day.
+export function restoreBoard(request: ScheduleRequest): RestoredBoard {
+  const serviceDay = request.serviceDay ? toTimestamp(new Date(`${request.serviceDay}T00:00`)) : dayStart()
+  const at = (text: string) => parseTimestamp(text, serviceDay)!
+  return {
+    trains: importTimetableRecords(request.trains, serviceDay).trains,
+    blocks: (request.rules?.blocks ?? []).map((b) => ({
+      ...b,
+      from: at(b.from),
+      to: b.to ? at(b.to) : Number.POSITIVE_INFINITY,
+    })),
+    pinned: request.pinned ?? {},
+    connections: request.connections ?? [],
+    sectionHolds: (request.sectionHolds ?? []).map((h) => ({ ...h, until: at(h.until) })),
+    solver: request.solver ?? "greedy",
+    weights: withDefaultWeights(request.weights),
+    platformCount: request.platforms?.length,
+    freezeMinutes: request.freezeMinutes,
+  }
+}
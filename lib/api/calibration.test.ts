@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest"
+import { calibrateWeights } from "@/lib/scheduler"
+import {
+  calibrationDays,
+  parseCalibrationRequest,
+  requestSizeIssues,
+  type ParsedCalibrationRequest,
+} from "./calibration"
+
+function request(body: object) {
+  const parsed = parseCalibrationRequest(body)
+  if ("issues" in parsed) throw new Error(JSON.stringify(parsed.issues))
+  return parsed
+}
+
+async function days(parsed: ParsedCalibrationRequest) {
+  const found = await calibrationDays(parsed)
+  if ("issues" in found) throw new Error(JSON.stringify(found.issues))
+  return found
+}
+
+describe("calibration on the sample days", () => {
+  it("finds weights that cut the passenger delay of the simulated days with the default search", async () => {
+    const parsed = request({})
+    const report = calibrateWeights(await days(parsed), parsed)
+    expect(report.objective).toBe("passengerDelay")
+    expect(report.baseline.totals.passengerDelay).toBeGreaterThan(0)
+    expect(report.best.score).toBeLessThan(report.baseline.score)
+  })
+
+  it("turns away searches too large for a request", () => {
+    expect(requestSizeIssues(request({ samples: 50 }), 10)).toEqual([])
+    expect(requestSizeIssues(request({ search: "grid", levels: [0.5, 1, 2, 4] }), 10)).toMatchObject([
+      { path: "levels" },
+    ])
+  })
+})
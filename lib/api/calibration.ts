@@ -0,0 +1,134 @@
+import { readFile } from "node:fs/promises"
+import path from "node:path"
+import { z } from "zod"
+import {
+  CALIBRATION_OBJECTIVES,
+  calibrationTrialLimit,
+  dayStart,
+  importTimetableRecords,
+  parseScenario,
+  simulateScenario,
+  simulationState,
+  type CalibrationDay,
+  type CalibrationReport,
+} from "@/lib/scheduler"
+import { DEFAULT_PLATFORM_COUNT, STATION_PLATFORMS, STATION_RULES } from "@/lib/station"
+import { zodIssues, type ApiIssue } from "./errors"
+import { planStore } from "./plan-store"
+import { parseScheduleRequest, plannedTrains } from "./schedule"
+
+// Request and response of POST /api/calibrate: the days to replay and how to search the weights
+
+// Used for simulated days when the request brings no scenario or timetable of its own
+const SAMPLE_SCENARIO = path.join("public", "fixtures", "scenarios", "morning-peak.json")
+const SAMPLE_TIMETABLE = path.join("public", "fixtures", "timetable.json")
+
+export const calibrationRequestSchema = z.object({
+  // "simulation": seeded runs of a scenario on the station's default platforms; "history": saved plan versions
+  source: z.enum(["simulation", "history"]).default("simulation"),
+  // simulation: number of runs, seeded from the scenario's seed up
+  days: z.number().int().positive().max(100).default(10),
+  // simulation: scenario file contents, see scenarioSchema
+  scenario: z.unknown().optional(),
+  // simulation: timetable rows, see timetableRowSchema
+  timetable: z.array(z.unknown()).min(1).optional(),
+  // history: number of latest versions to replay
+  versions: z.number().int().positive().max(500).default(10),
+  objective: z.enum(CALIBRATION_OBJECTIVES).default("passengerDelay"),
+  solver: z.enum(["greedy", "optimal"]).default("greedy"),
+  search: z.enum(["grid", "random"]).default("random"),
+  // grid: factors applied to each default weight (at most 4, so at most 4^6 weight sets; see MAX_REQUEST_REPLAYS)
+  levels: z.array(z.number().nonnegative()).min(1).max(4).optional(),
+  // random: weight sets drawn
+  samples: z.number().int().positive().max(1000).optional(),
+  refineRounds: z.number().int().nonnegative().max(10).optional(),
+  seed: z.number().int().default(1),
+})
+
+export type CalibrationRequest = z.input<typeof calibrationRequestSchema>
+export type ParsedCalibrationRequest = z.output<typeof calibrationRequestSchema>
+
+export type CalibrationResponse = CalibrationReport & {
+  // names of the days replayed, in order
+  dayNames: string[]
+  generatedAt: string
+}
+
+async function readFixture(file: string): Promise<unknown> {
+  return JSON.parse(await readFile(path.join(process.cwd(), file), "utf8"))
+}
+
+async function simulatedDays(request: ParsedCalibrationRequest): Promise<CalibrationDay[] | { issues: ApiIssue[] }> {
+  const parsed = parseScenario(request.scenario ?? (await readFixture(SAMPLE_SCENARIO)))
+  if ("error" in parsed) return { issues: [{ path: "scenario", message: parsed.error }] }
+  const { scenario } = parsed
+  const serviceDay = dayStart()
+  const rows = request.timetable ?? ((await readFixture(SAMPLE_TIMETABLE)) as { trains: unknown[] }).trains
+  const { trains, errors } = importTimetableRecords(rows, serviceDay)
+  if (errors.length > 0) {
+    return {
+      issues: errors.map((e) => ({
+        path: ["timetable", e.row - 1, e.field].filter((p) => p !== undefined).join("."),
+        message: e.message,
+      })),
+    }
+  }
+  return Array.from({ length: request.days }, (_, i) => {
+    const seed = scenario.seed + i
+    const steps = simulateScenario(scenario, trains, serviceDay, seed)
+    const end = simulationState(trains, steps, steps.length)
+    return {
+      name: `${scenario.name}, seed ${seed}`,
+      trains: end.trains,
+      options: {
+        platforms: STATION_PLATFORMS.slice(0, DEFAULT_PLATFORM_COUNT),
+        rules: { ...STATION_RULES, blocks: end.blocks },
+      },
+    }
+  })
+}
+
+async function historyDays(request: ParsedCalibrationRequest): Promise<CalibrationDay[] | { issues: ApiIssue[] }> {
+  const store = planStore()
+  const summaries = await store.list({ limit: request.versions })
+  if (summaries.length === 0) return { issues: [{ path: "source", message: "no plan version has been saved yet" }] }
+  const days: CalibrationDay[] = []
+  for (const summary of summaries) {
+    const version = await store.get(summary.version)
+    const parsed = version && parseScheduleRequest(version.request)
+    // versions saved by older builds may no longer parse; they are left out
+    if (!parsed || "issues" in parsed) continue
+    const { solver: _solver, weights: _weights, ...options } = parsed.options
+    days.push({ name: `version ${summary.version}`, trains: plannedTrains(parsed), options })
+  }
+  return days
+}
+
+// Plans POST /api/calibrate replays at most (weight sets times days): the search runs inside the request, a few
+// milliseconds a plan. Larger searches are for the offline script (pnpm calibrate).
+export const MAX_REQUEST_REPLAYS = 2000
+
+// What makes a request too large to run inside POST /api/calibrate, if anything
+export function requestSizeIssues(request: ParsedCalibrationRequest, days: number): ApiIssue[] {
+  const replays = calibrationTrialLimit(request) * days
+  if (replays <= MAX_REQUEST_REPLAYS) return []
+  const what = request.search === "grid" ? "fewer grid levels" : "fewer samples"
+  return [
+    {
+      path: request.search === "grid" ? "levels" : "samples",
+      message:
+        `the search replays up to ${replays} plans, more than the ${MAX_REQUEST_REPLAYS} a request may; use ${what} ` +
+        "or days, or run pnpm calibrate",
+    },
+  ]
+}
+
+// Days to replay for a validated request, or what is wrong with it
+export async function calibrationDays(request: ParsedCalibrationRequest) {
+  return request.source === "history" ? historyDays(request) : simulatedDays(request)
+}
+
+export function parseCalibrationRequest(body: unknown): ParsedCalibrationRequest | { issues: ApiIssue[] } {
+  const parsed = calibrationRequestSchema.safeParse(body)
+  return parsed.success ? parsed.data : { issues: zodIssues(parsed.error) }
+}
@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server"
+import type { ZodError } from "zod"
+
+// Every API error has the same shape: { error: { code, message, issues? } }
+export type ApiErrorCode = "invalid_json" | "invalid_request" | "not_found" | "internal_error"
+
+export type ApiIssue = {
+  // dotted path into the request body, e.g. "trains.3.arrival"; empty for the body as a whole
+  path: string
+  message: string
+}
+
+export type ApiErrorBody = {
+  error: {
+    code: ApiErrorCode
+    message: string
+    issues?: ApiIssue[]
+  }
+}
+
+export function apiError(status: number, code: ApiErrorCode, message: string, issues?: ApiIssue[]) {
+  return NextResponse.json<ApiErrorBody>({ error: { code, message, issues } }, { status })
+}
+
+export function zodIssues(error: ZodError, prefix = ""): ApiIssue[] {
+  return error.issues.map((i) => ({ path: [prefix, ...i.path].filter((p) => p !== "").join("."), message: i.message }))
+}
+
+// Request body as JSON, or the error response to send
+export async function readJson(request: Request): Promise<{ body: unknown } | { response: NextResponse }> {
+  try {
+    return { body: await request.json() }
+  } catch {
+    return { response: apiError(400, "invalid_json", "the request body is not valid JSON") }
+  }
+}
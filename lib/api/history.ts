@@ -0,0 +1,99 @@
+import { z } from "zod"
+import type { SchedulePlan, ScheduleRequest } from "./schedule"
+
+// Versioned plan history: every re-plan is saved with what caused it and how it differs from the version before.
+
+export const TRIGGER_KINDS = ["delay", "override", "blockage", "import", "settings", "clock", "api"] as const
+
+export type TriggerKind = (typeof TRIGGER_KINDS)[number]
+
+export const planTriggerSchema = z.object({
+  kind: z.enum(TRIGGER_KINDS),
+  // e.g. the train and its new ETA for a delay, the platform for a blockage
+  detail: z.string().max(500).optional(),
+  // who caused it, e.g. the dispatcher's name
+  actor: z.string().trim().min(1).max(100).optional(),
+})
+
+export type PlanTrigger = z.infer<typeof planTriggerSchema>
+
+export type PlanDiff = {
+  // trains on another platform; `to` is undefined when the train lost its platform
+  moved: { trainId: string; from: number; to?: number }[]
+  // trains arriving at another time, in minutes (positive = later)
+  retimed: { trainId: string; minutes: number }[]
+  added: string[]
+  removed: string[]
+}
+
+export type PlanVersion = {
+  // 1, 2, 3… in the order versions were saved
+  version: number
+  savedAt: string
+  trigger: PlanTrigger
+  // the request the plan was computed from; enough to restore the board
+  request: ScheduleRequest
+  result: SchedulePlan
+  // against the previous version; the first version lists every train as added
+  diff: PlanDiff
+}
+
+export type PlanVersionSummary = Pick<PlanVersion, "version" | "savedAt" | "trigger"> & {
+  trains: number
+  platformsUsed: number
+  totalExtraDelay: number
+  // trains moved, retimed, added or removed
+  changes: number
+}
+
+function placements(result: SchedulePlan) {
+  const placed = new Map<string, { platformId: number; arrival: number }>()
+  for (const pl of result.plan.platforms) {
+    for (const t of pl.trains) placed.set(t.id, { platformId: pl.id, arrival: Date.parse(t.effectiveArrival!) / 60000 })
+  }
+  return placed
+}
+
+function trainIds(result: SchedulePlan) {
+  return new Set([...placements(result).keys(), ...result.plan.unassigned.map((u) => u.train.id)])
+}
+
+export function diffPlans(before: SchedulePlan | null, after: SchedulePlan): PlanDiff {
+  const was = before ? placements(before) : new Map<string, { platformId: number; arrival: number }>()
+  const now = placements(after)
+  const beforeIds = before ? trainIds(before) : new Set<string>()
+  const afterIds = trainIds(after)
+  const diff: PlanDiff = {
+    moved: [],
+    retimed: [],
+    added: [...afterIds].filter((id) => !beforeIds.has(id)),
+    removed: [...beforeIds].filter((id) => !afterIds.has(id)),
+  }
+  for (const [trainId, old] of was) {
+    if (!afterIds.has(trainId)) continue
+    const placed = now.get(trainId)
+    if (placed?.platformId !== old.platformId) {
+      diff.moved.push({ trainId, from: old.platformId, to: placed?.platformId })
+    }
+    const minutes = placed ? Math.round(placed.arrival - old.arrival) : 0
+    if (minutes !== 0) diff.retimed.push({ trainId, minutes })
+  }
+  return diff
+}
+
+export function diffSize(diff: PlanDiff) {
+  return diff.moved.length + diff.retimed.length + diff.added.length + diff.removed.length
+}
+
+export function summarizeVersion(version: PlanVersion): PlanVersionSummary {
+  const { metrics, plan } = version.result
+  return {
+    version: version.version,
+    savedAt: version.savedAt,
+    trigger: version.trigger,
+    trains: plan.platforms.reduce((n, pl) => n + pl.trains.length, 0) + plan.unassigned.length,
+    platformsUsed: metrics.platformsUsed,
+    totalExtraDelay: metrics.totalExtraDelay,
+    changes: diffSize(version.diff),
+  }
+}
@@ -0,0 +1,78 @@
+import { mkdtemp, readdir, rm } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import path from "node:path"
+import { afterEach, beforeEach, describe, expect, it } from "vitest"
+import { filePlanStore, memoryPlanStore, recordPlan, type PlanStore } from "./plan-store"
+import { parseScheduleRequest, schedule, type ScheduleRequest } from "./schedule"
+
+function plan(delay: number) {
+  const request: ScheduleRequest = {
+    serviceDay: "2025-03-14",
+    trains: [
+      { id: "1", name: "Express", arrival: "08:05", departure: "08:25", delay },
+      { id: "2", name: "Local", arrival: "08:10", departure: "08:20" },
+    ],
+  }
+  const parsed = parseScheduleRequest(request)
+  if ("issues" in parsed) throw new Error(JSON.stringify(parsed.issues))
+  return { request, result: schedule(parsed.trains, parsed.options) }
+}
+
+async function saveDelays(store: PlanStore, delays: number[]) {
+  for (const delay of delays) {
+    const { request, result } = plan(delay)
+    await recordPlan(store, request, { kind: "delay", detail: `train 1 +${delay}` }, result)
+  }
+}
+
+describe("filePlanStore", () => {
+  let dir: string
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), "plans-"))
+  })
+  afterEach(() => rm(dir, { recursive: true, force: true }))
+
+  it("numbers versions, diffs them and reads them back after a restart", async () => {
+    await saveDelays(filePlanStore(dir), [0, 10, 20])
+    const reopened = filePlanStore(dir)
+    expect((await reopened.list()).map((v) => v.version)).toEqual([1, 2, 3])
+    const second = await reopened.get(2)
+    expect(second).toMatchObject({ trigger: { detail: "train 1 +10" }, diff: { added: [] } })
+    expect(second!.diff.retimed).toContainEqual({ trainId: "1", minutes: 10 })
+    expect((await reopened.latest())?.version).toBe(3)
+    expect(await reopened.get(9)).toBeNull()
+  })
+
+  it("does not save a re-plan that changes nothing", async () => {
+    const store = filePlanStore(dir)
+    await saveDelays(store, [5, 5])
+    const { request, result } = plan(5)
+    expect(await recordPlan(store, request, { kind: "clock" }, result)).toMatchObject({ created: false })
+    expect(await store.list()).toHaveLength(1)
+  })
+
+  it("pages newest versions before a given one", async () => {
+    const store = filePlanStore(dir)
+    await saveDelays(store, [1, 2, 3, 4, 5])
+    expect((await store.list({ limit: 2 })).map((v) => v.version)).toEqual([4, 5])
+    expect((await store.list({ before: 4, limit: 2 })).map((v) => v.version)).toEqual([2, 3])
+  })
+
+  it("drops the oldest versions and their files beyond the retention", async () => {
+    await saveDelays(filePlanStore(dir, { retain: 2 }), [1, 2, 3, 4])
+    const reopened = filePlanStore(dir, { retain: 2 })
+    expect((await reopened.list()).map((v) => v.version)).toEqual([3, 4])
+    expect(await reopened.get(1)).toBeNull()
+    expect(await readdir(path.join(dir, "versions"))).toEqual(["000003.json", "000004.json"])
+  })
+})
+
+describe("memoryPlanStore", () => {
+  it("keeps version numbers running past the retention", async () => {
+    const store = memoryPlanStore({ retain: 2 })
+    await saveDelays(store, [1, 2, 3])
+    expect((await store.list()).map((v) => v.version)).toEqual([2, 3])
+    expect((await store.get(3))?.version).toBe(3)
+    expect(await store.get(1)).toBeNull()
+  })
+})
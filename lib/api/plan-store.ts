@@ -0,0 +1,170 @@
+import { appendFile, mkdir, readFile, rename, rm, writeFile } from "node:fs/promises"
+import path from "node:path"
+import { z } from "zod"
+import {
+  diffPlans,
+  diffSize,
+  summarizeVersion,
+  type PlanTrigger,
+  type PlanVersion,
+  type PlanVersionSummary,
+} from "./history"
+import type { SchedulePlan, ScheduleRequest } from "./schedule"
+
+// A page of the history: the `limit` newest versions before version `before` (all versions without)
+export const planPageSchema = z.object({
+  before: z.coerce.number().int().positive().optional(),
+  limit: z.coerce.number().int().min(1).max(500).optional(),
+})
+
+export type PlanPage = z.infer<typeof planPageSchema>
+
+// Where plan versions are kept. `save` numbers versions; only the `retain` newest are kept, older ones are dropped.
+export type PlanStore = {
+  save: (version: Omit<PlanVersion, "version" | "savedAt">) => Promise<PlanVersion>
+  get: (version: number) => Promise<PlanVersion | null>
+  latest: () => Promise<PlanVersion | null>
+  // oldest first
+  list: (page?: PlanPage) => Promise<PlanVersionSummary[]>
+}
+
+export type PlanStoreOptions = {
+  // versions kept; the oldest are dropped beyond it
+  retain?: number
+}
+
+export const DEFAULT_PLAN_RETENTION = 1000
+
+function pageOf<T extends { version: number }>(versions: T[], { before, limit }: PlanPage = {}) {
+  const older = before === undefined ? versions : versions.filter((v) => v.version < before)
+  return older.slice(limit === undefined ? 0 : Math.max(0, older.length - limit))
+}
+
+// Versions in server memory, lost on restart
+export function memoryPlanStore({ retain = DEFAULT_PLAN_RETENTION }: PlanStoreOptions = {}): PlanStore {
+  const versions: PlanVersion[] = []
+  return {
+    async save(input) {
+      const version = { ...input, version: (versions.at(-1)?.version ?? 0) + 1, savedAt: new Date().toISOString() }
+      versions.push(version)
+      versions.splice(0, Math.max(0, versions.length - retain))
+      return version
+    },
+    async get(version) {
+      return versions.find((v) => v.version === version) ?? null
+    },
+    async latest() {
+      return versions.at(-1) ?? null
+    },
+    async list(page) {
+      return pageOf(versions, page).map(summarizeVersion)
+    },
+  }
+}
+
+// Versions as JSON files under `dir`: one file per version, plus index.jsonl with a summary line per version so
+// listing the history does not read every plan. Beyond `retain` versions the oldest files are deleted and the index
+// rewritten, so the directory and the index held in memory stay bounded. Works offline and survives restarts; one
+// server process per directory.
+export function filePlanStore(dir: string, { retain = DEFAULT_PLAN_RETENTION }: PlanStoreOptions = {}): PlanStore {
+  const indexFile = path.join(dir, "index.jsonl")
+  const versionFile = (version: number) => path.join(dir, "versions", `${String(version).padStart(6, "0")}.json`)
+  let index: Promise<PlanVersionSummary[]> | null = null
+  // saves run one after another so version numbers stay unique
+  let queue: Promise<unknown> = Promise.resolve()
+
+  function summaries() {
+    index ??= readFile(indexFile, "utf8").then(
+      (text) =>
+        text
+          .split("\n")
+          .filter((line) => line.trim() !== "")
+          .map((line) => JSON.parse(line) as PlanVersionSummary),
+      (e: NodeJS.ErrnoException) => {
+        if (e.code === "ENOENT") return []
+        index = null
+        throw e
+      },
+    )
+    return index
+  }
+
+  async function get(version: number) {
+    try {
+      return JSON.parse(await readFile(versionFile(version), "utf8")) as PlanVersion
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code === "ENOENT") return null
+      throw e
+    }
+  }
+
+  // drops the oldest versions beyond `retain`: the index is replaced first, so a crash leaves stray files at worst
+  async function prune(list: PlanVersionSummary[]) {
+    const dropped = list.splice(0, list.length - retain)
+    const temporary = `${indexFile}.tmp`
+    await writeFile(temporary, list.map((summary) => `${JSON.stringify(summary)}\n`).join(""))
+    await rename(temporary, indexFile)
+    await Promise.all(dropped.map((summary) => rm(versionFile(summary.version), { force: true })))
+  }
+
+  return {
+    save(input) {
+      const saved = queue.then(async () => {
+        const list = await summaries()
+        const version: PlanVersion = {
+          ...input,
+          version: (list.at(-1)?.version ?? 0) + 1,
+          savedAt: new Date().toISOString(),
+        }
+        await mkdir(path.dirname(versionFile(version.version)), { recursive: true })
+        await writeFile(versionFile(version.version), JSON.stringify(version))
+        const summary = summarizeVersion(version)
+        await appendFile(indexFile, `${JSON.stringify(summary)}\n`)
+        list.push(summary)
+        if (list.length > retain) await prune(list)
+        return version
+      })
+      queue = saved.catch(() => {})
+      return saved
+    },
+    get,
+    async latest() {
+      const last = (await summaries()).at(-1)
+      return last ? get(last.version) : null
+    },
+    async list(page) {
+      return pageOf(await summaries(), page)
+    },
+  }
+}
+
+// Directory of the server's plan store; PLAN_STORE_DIR overrides the default data/plans
+const STORE_DIR = process.env.PLAN_STORE_DIR ?? path.join(process.cwd(), "data", "plans")
+// Versions the server keeps; PLAN_STORE_RETAIN overrides the default
+const STORE_RETAIN = Number(process.env.PLAN_STORE_RETAIN) || DEFAULT_PLAN_RETENTION
+
+let store: PlanStore | null = null
+
+// The store API routes use
+export function planStore() {
+  store ??= filePlanStore(STORE_DIR, { retain: STORE_RETAIN })
+  return store
+}
+
+// Saves a re-plan as a new version with its diff against the latest one. A re-plan that changes neither the trains,
+// the holds on the line nor the plan (a clock tick, a repeated request) is not saved; the latest version is returned
+// with created: false.
+export async function recordPlan(
+  store: PlanStore,
+  request: ScheduleRequest,
+  trigger: PlanTrigger,
+  result: SchedulePlan,
+): Promise<{ version: PlanVersion; created: boolean }> {
+  const latest = await store.latest()
+  const diff = diffPlans(latest?.result ?? null, result)
+  const input = (r: ScheduleRequest) => JSON.stringify([r.trains, r.sectionHolds])
+  if (latest && diffSize(diff) === 0 && input(latest.request) === input(request)) {
+    return { version: latest, created: false }
+  }
+  return { version: await store.save({ trigger, request, result, diff }), created: true }
+}
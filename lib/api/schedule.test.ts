@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest"
+import { atClock, dayStart, toTimestamp } from "@/lib/scheduler"
+import { MAX_REQUEST_TRAINS, parseScheduleRequest, schedule } from "./schedule"
+
+const day = dayStart(toTimestamp(new Date(2025, 2, 14)))
+const trains = [
+  { id: "1", name: "Express", arrival: "08:05", departure: "08:25" },
+  { id: "2", name: "Local", arrival: "08:10", departure: "08:20" },
+]
+
+describe("parseScheduleRequest", () => {
+  it("reads times on the service day and fills in the defaults", () => {
+    const parsed = parseScheduleRequest({
+      serviceDay: "2025-03-14",
+      trains,
+      now: "08:00",
+      rules: { blocks: [{ platformId: 1, from: "08:00" }] },
+    })
+    if ("issues" in parsed) throw new Error(JSON.stringify(parsed.issues))
+    expect(parsed.trains[0].arrival).toBe(atClock(day, 8 * 60 + 5))
+    expect(parsed.options).toMatchObject({
+      solver: "greedy",
+      now: atClock(day, 8 * 60),
+      rules: { blocks: [{ platformId: 1, from: atClock(day, 8 * 60), to: Number.POSITIVE_INFINITY }] },
+    })
+    expect(parsed.trigger).toEqual({ kind: "api" })
+  })
+
+  it("reports every issue with its path, train rows included", () => {
+    const result = parseScheduleRequest({
+      solver: "fastest",
+      trains: [trains[0], { ...trains[1], departure: "08:00" }],
+      platformCount: 0,
+    })
+    expect(result).toEqual({
+      issues: [
+        expect.objectContaining({ path: "solver" }),
+        expect.objectContaining({ path: "platformCount" }),
+        { path: "trains.1.departure", message: "departure is before arrival" },
+      ],
+    })
+  })
+
+  it("judges blockages on the request's service day", () => {
+    const block = (from: string, to: string) => ({
+      serviceDay: "2025-03-14",
+      trains,
+      rules: { blocks: [{ platformId: 1, from, to }] },
+    })
+    expect(parseScheduleRequest(block("09:00", "08:00"))).toEqual({
+      issues: [{ path: "rules.blocks.0.to", message: "a blockage must end after it starts" }],
+    })
+    // overnight, into the next day
+    const overnight = block("23:30", new Date(2025, 2, 15, 0, 30).toISOString())
+    expect(parseScheduleRequest(overnight)).not.toHaveProperty("issues")
+    // a clock time on the service day against a date-time the day before
+    const before = block("08:00", new Date(2025, 2, 14, 1, 0).toISOString())
+    expect(parseScheduleRequest(before)).toHaveProperty("issues")
+  })
+
+  it("rejects dates that are not on the calendar and oversized requests", () => {
+    for (const serviceDay of ["2025-02-31", "2025-13-01", "14.03.2025"]) {
+      expect(parseScheduleRequest({ serviceDay, trains })).toEqual({
+        issues: [{ path: "serviceDay", message: "expected a date such as 2025-03-14" }],
+      })
+    }
+    const many = Array.from({ length: MAX_REQUEST_TRAINS + 1 }, (_, i) => ({ ...trains[0], id: String(i) }))
+    expect(parseScheduleRequest({ trains: many })).toEqual({
+      issues: [{ path: "trains", message: `at most ${MAX_REQUEST_TRAINS} trains per request` }],
+    })
+  })
+
+  it("requires at least one train", () => {
+    expect(parseScheduleRequest({ trains: [] })).toEqual({
+      issues: [{ path: "trains", message: "at least one train is required" }],
+    })
+  })
+})
+
+describe("schedule", () => {
+  it("returns the plan with ISO times and its metrics", () => {
+    const parsed = parseScheduleRequest({ serviceDay: "2025-03-14", trains, platformCount: 2 })
+    if ("issues" in parsed) throw new Error(JSON.stringify(parsed.issues))
+    const { plan, metrics } = schedule(parsed.trains, parsed.options)
+    expect(plan.platforms.flatMap((pl) => pl.trains.map((t) => t.arrival))).toEqual(
+      expect.arrayContaining([new Date(2025, 2, 14, 8, 5).toISOString()]),
+    )
+    expect(metrics).toMatchObject({ platformsUsed: 2, onTime: 2, delayed: 0, held: 0 })
+  })
+})
@@ -0,0 +1,317 @@
+import { z } from "zod"
+import {
+  dayStart,
+  fromTimestamp,
+  importTimetableRecords,
+  parseTimestamp,
+  platformPropagation,
+  propagateDelays,
+  solve,
+  toTimestamp,
+  trainState,
+  withDefaultWeights,
+  type AssignedTrain,
+  type AssignmentResult,
+  type CostBreakdown,
+  type OccupationRules,
+  type OptimalityGap,
+  type PlatformPropagation,
+  type SectionHold,
+  type SolveOptions,
+  type Train,
+  type TrainClass,
+  type TrainPropagation,
+} from "@/lib/scheduler"
+import { corridorStationTrains } from "@/lib/station"
+import { zodIssues, type ApiIssue } from "./errors"
+import { planTriggerSchema, type PlanTrigger } from "./history"
+
+// Request and response of POST /api/schedule. Times in requests are clock times on `serviceDay` or ISO date-times,
+// as in timetable imports; times in responses are ISO date-times.
+
+const time = z.string().refine((v) => parseTimestamp(v, 0) !== null, {
+  message: "expected a clock time such as 08:25 or an ISO date-time",
+})
+const minutes = z.number().nonnegative()
+const platformId = z.number().int().positive()
+
+const platformSpecSchema = z.object({
+  id: platformId,
+  length: z.number().positive(),
+  electrified: z.boolean(),
+  use: z.enum(["passenger", "goods", "mixed"]),
+  directions: z.array(z.enum(["up", "down"])).min(1),
+  approach: z.string().min(1).optional(),
+  clearance: minutes.optional(),
+  island: z.string().min(1).optional(),
+})
+
+// a value per train class
+const perClassSchema = z.object({
+  express: minutes,
+  mail: minutes,
+  suburban: minutes,
+  freight: minutes,
+  special: minutes,
+})
+
+const rulesSchema = z.object({
+  clearance: minutes.optional(),
+  clearanceByService: z.object({ passenger: minutes, goods: minutes }).partial().optional(),
+  headway: minutes.optional(),
+  throatConflicts: z.array(z.tuple([platformId, platformId])).optional(),
+  throatWindow: minutes.optional(),
+  minDwellByClass: perClassSchema.partial().optional(),
+  // a blockage without `to` lasts until further notice; `to` must be after `from`, see scheduleRequestSchema
+  blocks: z
+    .array(z.object({ platformId, from: time, to: time.optional(), reason: z.string().optional() }))
+    .optional(),
+})
+
+// missing weights fall back to DEFAULT_WEIGHTS
+const weightsSchema = z.object({
+  idleGap: minutes.optional(),
+  load: minutes.optional(),
+  delayedSpread: minutes.optional(),
+  margin: minutes.optional(),
+  platformChange: minutes.optional(),
+  connection: minutes.optional(),
+  classWeights: perClassSchema.partial().optional(),
+})
+
+// Local midnight of a YYYY-MM-DD date, or null when it is not a calendar date (2025-02-31, 2025-13-01)
+function calendarDay(text: string) {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(text)
+  if (!match) return null
+  const [y, m, d] = match.slice(1).map(Number)
+  const date = new Date(y, m - 1, d)
+  return date.getFullYear() === y && date.getMonth() === m - 1 && date.getDate() === d ? toTimestamp(date) : null
+}
+
+function parseServiceDay(text: string | undefined) {
+  return (text === undefined ? null : calendarDay(text)) ?? dayStart()
+}
+
+// more trains than a station sees in a day or two; keeps a single request from tying up the solver
+export const MAX_REQUEST_TRAINS = 2000
+
+const scheduleRequestObject = z.object({
+  // YYYY-MM-DD; clock times are on this day (today on the server when omitted)
+  serviceDay: z
+    .string()
+    .refine((v) => calendarDay(v) !== null, "expected a date such as 2025-03-14")
+    .optional(),
+  // timetable rows, see timetableRowSchema
+  trains: z
+    .array(z.unknown())
+    .min(1, "at least one train is required")
+    .max(MAX_REQUEST_TRAINS, `at most ${MAX_REQUEST_TRAINS} trains per request`),
+  solver: z.enum(["greedy", "optimal"]).default("greedy"),
+  // station inventory; without it platforms are opened on demand (up to platformCount)
+  platforms: z.array(platformSpecSchema).min(1).optional(),
+  platformCount: z.number().int().positive().optional(),
+  weights: weightsSchema.default({}),
+  rules: rulesSchema.default({}),
+  maxHoldMinutes: minutes.optional(),
+  // stability against a previous plan, see AssignOptions
+  previousPlatforms: z.record(z.string(), platformId).optional(),
+  now: time.optional(),
+  freezeMinutes: minutes.optional(),
+  // dispatcher overrides: train id to platform id
+  pinned: z.record(z.string(), platformId).optional(),
+  // passenger transfers between trains of the request
+  connections: z
+    .array(
+      z.object({
+        fromTrain: z.string().min(1),
+        toTrain: z.string().min(1),
+        minTransfer: minutes,
+        passengers: z.number().int().nonnegative(),
+      }),
+    )
+    .optional(),
+  // dispatcher holds of trains at corridor stations (see CORRIDOR). With them, even an empty list, the trains are
+  // the station's timetable: they run through the corridor first and the station is planned with the delays carried
+  // in, as the board plans it. Without them the trains are planned as they are.
+  sectionHolds: z
+    .array(z.object({ trainId: z.string().min(1), stationId: z.string().min(1), until: time }))
+    .optional(),
+  // what caused the re-plan, for the plan history; "api" when omitted
+  trigger: planTriggerSchema.optional(),
+})
+
+// Blockage times are read on the request's service day, so a block from 23:30 to 00:30 the next day given as
+// date-times, or one given as clock times for another day, is judged on the day it applies to
+export const scheduleRequestSchema = scheduleRequestObject.superRefine((request, ctx) => {
+  const serviceDay = parseServiceDay(request.serviceDay)
+  request.rules.blocks?.forEach((b, i) => {
+    // times that do not parse are reported by `time`
+    const [from, to] = [b.from, b.to].map((t) => (t === undefined ? null : parseTimestamp(t, serviceDay)))
+    if (from !== null && to !== null && to <= from) {
+      const path = ["rules", "blocks", i, "to"]
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "a blockage must end after it starts", path })
+    }
+  })
+})
+
+export type ScheduleRequest = Omit<z.input<typeof scheduleRequestSchema>, "trigger">
+
+export type ParsedScheduleRequest = {
+  trains: Train[]
+  options: SolveOptions
+  // see scheduleRequestSchema; undefined when the request has none
+  sectionHolds?: SectionHold[]
+  // the request as validated, without its trigger; stored with the plan
+  request: ScheduleRequest
+  trigger: PlanTrigger
+}
+
+// Validated request as engine input, or every issue found
+export function parseScheduleRequest(body: unknown): ParsedScheduleRequest | { issues: ApiIssue[] } {
+  const parsed = scheduleRequestSchema.safeParse(body)
+  // train rows are checked like a timetable import, even when the rest of the request is invalid (but not when
+  // there are too many of them)
+  const rows = parsed.success ? parsed.data.trains : (body as { trains?: unknown })?.trains
+  const serviceDay = parseServiceDay(parsed.success ? parsed.data.serviceDay : undefined)
+  const checked = Array.isArray(rows) && rows.length <= MAX_REQUEST_TRAINS ? rows : []
+  const { trains, errors } = importTimetableRecords(checked, serviceDay)
+  const issues: ApiIssue[] = [
+    ...(parsed.success ? [] : zodIssues(parsed.error)),
+    ...errors.map((e) => ({
+      path: ["trains", e.row - 1, e.field].filter((p) => p !== undefined).join("."),
+      message: e.message,
+    })),
+  ]
+  if (!parsed.success || issues.length > 0) return { issues }
+  const { trigger = { kind: "api" }, ...request } = parsed.data
+  const at = (text: string) => parseTimestamp(text, serviceDay)!
+
+  const weights = withDefaultWeights(request.weights)
+  const { blocks, ...rules } = request.rules
+  return {
+    trains,
+    options: {
+      solver: request.solver,
+      weights,
+      platforms: request.platforms,
+      platformCount: request.platformCount,
+      maxHoldMinutes: request.maxHoldMinutes,
+      rules: {
+        ...rules,
+        blocks: blocks?.map((b) => ({ ...b, from: at(b.from), to: b.to ? at(b.to) : Number.POSITIVE_INFINITY })),
+      },
+      previousPlatforms: request.previousPlatforms,
+      now: request.now ? at(request.now) : undefined,
+      freezeMinutes: request.freezeMinutes,
+      pinned: request.pinned,
+      connections: request.connections,
+    },
+    sectionHolds: request.sectionHolds?.map((h) => ({ ...h, until: at(h.until) })),
+    request,
+    trigger,
+  }
+}
+
+// The trains to plan the station with: the request's, or with section holds the ones the corridor carries in
+export function plannedTrains({ trains, options, sectionHolds }: ParsedScheduleRequest): Train[] {
+  return sectionHolds ? corridorStationTrains(trains, sectionHolds, options) : trains
+}
+
+// ISO date-time of a timestamp; null for open-ended times
+function iso(t: number) {
+  return Number.isFinite(t) ? fromTimestamp(t).toISOString() : null
+}
+
+function serializeTrain(t: Train) {
+  return { ...t, arrival: iso(t.arrival), departure: iso(t.departure) }
+}
+
+function serializeAssignedTrain(t: AssignedTrain) {
+  return {
+    ...t,
+    ...serializeTrain(t),
+    effectiveArrival: iso(t.effectiveArrival),
+    effectiveDeparture: iso(t.effectiveDeparture),
+    state: trainState(t),
+  }
+}
+
+export type ScheduleMetrics = {
+  platformsUsed: number
+  cost: number
+  // weighted terms of cost, see planCostBreakdown
+  costBreakdown: CostBreakdown
+  totalExtraDelay: number
+  onTime: number
+  delayed: number
+  held: number
+  // projected delays per train and their totals per platform, see propagateDelays
+  propagation: SerializedPropagation[]
+  platforms: PlatformPropagation[]
+  delayByClass: Partial<Record<TrainClass, number>>
+  // optimal solver only
+  gap?: OptimalityGap
+}
+
+type SerializedPropagation = Omit<TrainPropagation, "projectedArrival" | "projectedDeparture"> & {
+  projectedArrival: string | null
+  projectedDeparture: string | null
+}
+
+// The assignment with ISO times, and the metrics the board shows; `rules` are the ones the plan was made with
+export function serializePlan(result: AssignmentResult, rules: OccupationRules = {}) {
+  const trains = result.platforms.flatMap((pl) => pl.trains)
+  const propagation = propagateDelays(result.platforms, { rules })
+  const metrics: ScheduleMetrics = {
+    platformsUsed: result.platforms.length,
+    cost: result.cost,
+    costBreakdown: result.costBreakdown,
+    totalExtraDelay: result.totalExtraDelay,
+    onTime: trains.filter((t) => trainState(t) === "on-time").length,
+    delayed: trains.filter((t) => trainState(t) === "delayed").length,
+    held: trains.filter((t) => trainState(t) === "held").length,
+    propagation: propagation.map((p) => ({
+      ...p,
+      projectedArrival: iso(p.projectedArrival),
+      projectedDeparture: iso(p.projectedDeparture),
+    })),
+    platforms: platformPropagation(result.platforms, propagation),
+    delayByClass: Object.fromEntries(result.classDelays.map((c) => [c.trainClass, c.delay + c.extraDelay])),
+    gap: "gap" in result ? (result.gap as OptimalityGap) : undefined,
+  }
+  return {
+    plan: {
+      solver: result.solver,
+      platforms: result.platforms.map((pl) => ({
+        id: pl.id,
+        spec: pl.spec,
+        nextFreeAt: iso(pl.nextFreeAt),
+        trains: pl.trains.map(serializeAssignedTrain),
+      })),
+      assignments: result.assignments,
+      unassigned: result.unassigned.map((u) => ({ ...u, train: serializeTrain(u.train) })),
+      changes: result.changes,
+      classDelays: result.classDelays,
+      overrideConflicts: result.overrideConflicts,
+      rakeLinkIssues: result.rakeLinkIssues,
+      connections: result.connections.map(({ hold, ...c }) => ({
+        ...c,
+        hold: hold && { ...hold, until: iso(hold.until) },
+      })),
+    },
+    metrics,
+  }
+}
+
+export type SchedulePlan = ReturnType<typeof serializePlan>
+
+export type ScheduleResponse = SchedulePlan & {
+  // when the plan was computed
+  generatedAt: string
+  // plan history version the plan is saved as, see recordPlan
+  version: number
+}
+
+export function schedule(trains: Train[], options: SolveOptions): SchedulePlan {
+  return serializePlan(solve(trains, options), options.rules)
+}
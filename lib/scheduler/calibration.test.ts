@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest"
+import { calibrateWeights, calibrationTrialLimit, type CalibrationDay } from "./calibration"
+import { platform, train } from "./testing"
+
+// two platforms for a crowded half hour, so the weights decide who waits
+const day: CalibrationDay = {
+  name: "peak",
+  trains: [
+    train("A", 600, 615, { trainClass: "express", passengers: 400 }),
+    train("B", 602, 610, { trainClass: "suburban", passengers: 50, delay: 4, status: "delayed" }),
+    train("C", 606, 620, { trainClass: "mail", passengers: 150 }),
+    train("D", 611, 625, { trainClass: "suburban", passengers: 80 }),
+    train("E", 614, 622, { trainClass: "express", passengers: 300, delay: 3, status: "delayed" }),
+    train("F", 619, 630, { trainClass: "freight", service: "goods" }),
+  ],
+  options: { platforms: [platform(1), platform(2)], rules: { clearance: 2 } },
+}
+
+describe("calibrateWeights", () => {
+  const options = { objective: "passengerDelay", samples: 20, refineRounds: 1, seed: 7 } as const
+
+  it("never reports weights worse than the ones it started from", () => {
+    const report = calibrateWeights([day], options)
+    expect(report.best.score).toBeLessThanOrEqual(report.baseline.score)
+    expect(report.top[0]).toEqual(report.best)
+    expect(report.evaluated).toBeLessThanOrEqual(calibrationTrialLimit(options))
+  })
+
+  it("replays the same search for the same seed", () => {
+    expect(calibrateWeights([day], options).best.weights).toEqual(calibrateWeights([day], options).best.weights)
+  })
+})
@@ -0,0 +1,194 @@
+import { DEFAULT_WEIGHTS } from "./greedy"
+import { seededRandom } from "./random"
+import { solve } from "./solve"
+import { planTotals, type PlanTotals } from "./tuning"
+import type { AssignOptions, ScoringWeights, SolverKind, Train } from "./types"
+
+// Offline calibration of the scoring weights: replay a set of days through the engine with many weight sets and keep
+// the one that does best on an objective. Only the score terms are searched; class weights are a priority
+// policy, not a tuning knob, and stay as in `base`.
+
+// One day to replay: its trains (delays as they turned out) and the station setup it ran with
+export type CalibrationDay = {
+  name: string
+  trains: Train[]
+  // weights and solver are replaced by the calibration's own
+  options?: AssignOptions
+}
+
+// Plan measures (see PlanTotals) a calibration can minimise, summed over all days; trains left without a platform
+// always count first
+export const CALIBRATION_OBJECTIVES = [
+  "passengerDelay",
+  "totalDelay",
+  "knockOn",
+  "platformsUsed",
+  "idleGap",
+  "platformChanges",
+] as const
+
+export type CalibrationObjective = (typeof CALIBRATION_OBJECTIVES)[number]
+
+export type CalibrationSearch = "grid" | "random"
+
+export type CalibrationOptions = {
+  objective: CalibrationObjective
+  solver?: SolverKind
+  // "grid": every combination of `levels` times the base weights; "random": `samples` weight sets drawn
+  // log-uniformly between a quarter and four times the base weights
+  search?: CalibrationSearch
+  levels?: number[]
+  samples?: number
+  // rounds of coordinate search from the best weight set found: each term times and divided by 2, then √2, …
+  refineRounds?: number
+  seed?: number
+  // weights the search starts from and the report compares against
+  base?: ScoringWeights
+}
+
+export type CalibrationTrial = {
+  weights: ScoringWeights
+  // the objective
+  score: number
+  // summed over all days
+  totals: PlanTotals
+}
+
+export type CalibrationReport = {
+  objective: CalibrationObjective
+  solver: SolverKind
+  search: CalibrationSearch
+  days: number
+  // distinct weight sets tried
+  evaluated: number
+  baseline: CalibrationTrial
+  best: CalibrationTrial
+  // best trials first
+  top: CalibrationTrial[]
+}
+
+export const DEFAULT_GRID_LEVELS = [0.5, 1, 2]
+export const DEFAULT_CALIBRATION_SAMPLES = 100
+export const DEFAULT_REFINE_ROUNDS = 3
+
+// trials listed in the report
+const TOP_TRIALS = 10
+
+type TermKey = Exclude<keyof ScoringWeights, "classWeights">
+
+const TERMS: TermKey[] = ["idleGap", "load", "delayedSpread", "margin", "platformChange", "connection"]
+
+function sumTotals(all: PlanTotals[]): PlanTotals {
+  const sum = {
+    platformsUsed: 0,
+    idleGap: 0,
+    totalDelay: 0,
+    knockOn: 0,
+    passengerDelay: 0,
+    platformChanges: 0,
+    unassigned: 0,
+  }
+  for (const t of all) {
+    sum.platformsUsed += t.platformsUsed
+    sum.idleGap += t.idleGap
+    sum.totalDelay += t.totalDelay
+    sum.knockOn += t.knockOn
+    sum.passengerDelay += t.passengerDelay
+    sum.platformChanges += t.platformChanges
+    sum.unassigned += t.unassigned
+  }
+  return sum
+}
+
+function better(a: CalibrationTrial, b: CalibrationTrial) {
+  return a.totals.unassigned !== b.totals.unassigned ? a.totals.unassigned < b.totals.unassigned : a.score < b.score
+}
+
+// two significant digits are plenty for a weight and keep the presets readable
+function round(value: number) {
+  return Number(value.toPrecision(2))
+}
+
+function withTerms(base: ScoringWeights, values: number[]): ScoringWeights {
+  return { ...base, ...Object.fromEntries(TERMS.map((key, i) => [key, round(values[i])])) }
+}
+
+function grid(levels: number[]): number[][] {
+  return TERMS.reduce<number[][]>((combos) => combos.flatMap((c) => levels.map((l) => [...c, l])), [[]])
+}
+
+// Most weight sets a search with `options` replays on each day; fewer when weight sets repeat
+export function calibrationTrialLimit(options: Omit<CalibrationOptions, "objective">) {
+  const {
+    search = "random",
+    levels = DEFAULT_GRID_LEVELS,
+    samples = DEFAULT_CALIBRATION_SAMPLES,
+    refineRounds = DEFAULT_REFINE_ROUNDS,
+  } = options
+  // the baseline, the search, then two tries per term and round
+  return 1 + (search === "grid" ? levels.length ** TERMS.length : samples) + refineRounds * TERMS.length * 2
+}
+
+export function calibrateWeights(days: CalibrationDay[], options: CalibrationOptions): CalibrationReport {
+  const {
+    objective,
+    solver = "greedy",
+    search = "random",
+    levels = DEFAULT_GRID_LEVELS,
+    samples = DEFAULT_CALIBRATION_SAMPLES,
+    refineRounds = DEFAULT_REFINE_ROUNDS,
+    seed = 1,
+    base = DEFAULT_WEIGHTS,
+  } = options
+
+  // trials by their term values, so no weight set is replayed twice
+  const trials = new Map<string, CalibrationTrial>()
+  function evaluate(weights: ScoringWeights) {
+    const key = TERMS.map((k) => weights[k]).join(",")
+    const known = trials.get(key)
+    if (known) return known
+    const totals = sumTotals(
+      days.map((day) => planTotals(solve(day.trains, { ...day.options, solver, weights }), day.options?.rules)),
+    )
+    const trial = { weights, score: totals[objective], totals }
+    trials.set(key, trial)
+    return trial
+  }
+
+  // evaluated first, so it wins ties
+  const baseline = evaluate(base)
+  let best = baseline
+  const consider = (weights: ScoringWeights) => {
+    const trial = evaluate(weights)
+    if (better(trial, best)) best = trial
+  }
+
+  if (search === "grid") {
+    for (const combo of grid(levels)) consider(withTerms(base, TERMS.map((k, i) => base[k] * combo[i])))
+  } else {
+    const random = seededRandom(seed)
+    for (let i = 0; i < samples; i++) consider(withTerms(base, TERMS.map((k) => base[k] * 2 ** (random() * 4 - 2))))
+  }
+
+  let step = 2
+  for (let pass = 0; pass < refineRounds; pass++) {
+    for (let i = 0; i < TERMS.length; i++) {
+      for (const factor of [step, 1 / step]) {
+        consider(withTerms(best.weights, TERMS.map((k, j) => best.weights[k] * (i === j ? factor : 1))))
+      }
+    }
+    step = Math.sqrt(step)
+  }
+
+  const ranked = [...trials.values()].sort((a, b) => (better(a, b) ? -1 : better(b, a) ? 1 : 0))
+  return {
+    objective,
+    solver,
+    search,
+    days: days.length,
+    evaluated: trials.size,
+    baseline,
+    best,
+    top: ranked.slice(0, TOP_TRIALS),
+  }
+}
@@ -0,0 +1,43 @@
+import type { Incompatibility, PlatformSpec, Train } from "./types"
+
+// Reasons a train cannot use a platform. Attributes the train does not declare are not checked.
+export function platformIncompatibilities(train: Train, spec: PlatformSpec): Incompatibility[] {
+  const reasons: Incompatibility[] = []
+  const platformId = spec.id
+
+  if (train.rakeLength !== undefined && train.rakeLength > spec.length) {
+    reasons.push({
+      platformId,
+      code: "too-short",
+      message: `rake ${train.rakeLength} m is longer than platform ${spec.length} m`,
+    })
+  }
+  if (train.traction === "electric" && !spec.electrified) {
+    reasons.push({ platformId, code: "not-electrified", message: "electric traction on a non-electrified line" })
+  }
+  if (train.service !== undefined && spec.use !== "mixed" && spec.use !== train.service) {
+    reasons.push({
+      platformId,
+      code: "service-mismatch",
+      message: `${train.service} train on a ${spec.use} platform`,
+    })
+  }
+  if (train.direction !== undefined && !spec.directions.includes(train.direction)) {
+    reasons.push({
+      platformId,
+      code: "wrong-direction",
+      message: `platform cannot be reached from the ${train.direction} direction`,
+    })
+  }
+
+  return reasons
+}
+
+export function isCompatible(train: Train, spec?: PlatformSpec) {
+  return spec === undefined || platformIncompatibilities(train, spec).length === 0
+}
+
+// Incompatibilities of a train against every platform of an inventory
+export function explainCompatibility(train: Train, specs: PlatformSpec[]): Incompatibility[] {
+  return specs.flatMap((spec) => platformIncompatibilities(train, spec))
+}
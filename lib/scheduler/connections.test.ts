@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest"
+import { connectionStatuses, transferWalk } from "./connections"
+import { assignPlatformsScoreBased } from "./greedy"
+import { platform, train } from "./testing"
+
+// platforms 1 and 3 share an island; 2 stands on its own between them
+const platforms = [platform(1, { island: "I" }), platform(2), platform(3, { island: "I" })]
+// P, Q and R open all three platforms before A and B come in
+const early = [train("P", 570, 580), train("Q", 572, 582), train("R", 574, 584)]
+const connection = { fromTrain: "A", toTrain: "B", minTransfer: 3, passengers: 400 }
+
+const platformOf = (result: ReturnType<typeof assignPlatformsScoreBased>, id: string) =>
+  result.platforms.find((pl) => pl.trains.some((t) => t.id === id))?.id
+
+describe("transferWalk", () => {
+  it("is free on the same island and longer the further apart the platforms are", () => {
+    expect(transferWalk({ id: 1, spec: platforms[0] }, { id: 3, spec: platforms[2] })).toBe(0)
+    expect(transferWalk({ id: 1, spec: platforms[0] }, { id: 2, spec: platforms[1] })).toBe(2)
+    expect(transferWalk({ id: 2 }, { id: 5 })).toBe(5)
+  })
+})
+
+describe("connections", () => {
+  it("pull the connecting train onto the feeder's island", () => {
+    const trains = [...early, train("A", 600, 610), train("B", 605, 615)]
+    const alone = assignPlatformsScoreBased(trains, undefined, { platforms })
+    expect([platformOf(alone, "A"), platformOf(alone, "B")]).toEqual([3, 2])
+
+    const connected = assignPlatformsScoreBased(trains, undefined, { platforms, connections: [connection] })
+    expect([platformOf(connected, "A"), platformOf(connected, "B")]).toEqual([3, 1])
+    expect(connected.connections).toMatchObject([{ state: "ok", transferTime: 3, slack: 12 }])
+  })
+
+  it("offer a hold of the connecting train when the feeder runs late", () => {
+    const trains = [train("A", 600, 610, { delay: 10, status: "delayed" }), train("B", 605, 615)]
+    const { platforms: plan } = assignPlatformsScoreBased(trains, undefined, { platforms: [platform(1), platform(2)] })
+    const [status] = connectionStatuses(plan, [{ ...connection, minTransfer: 6 }])
+    // 6 minutes to change plus 2 to walk to the next platform, from A's arrival at 610
+    expect(status).toMatchObject({ state: "broken", slack: -3, hold: { trainId: "B", until: 618, minutes: 3 } })
+    expect(status.hold!.conflicts).toEqual([])
+  })
+
+  it("are missing when a train is not in the plan", () => {
+    const { platforms: plan } = assignPlatformsScoreBased([train("A", 600, 610)])
+    expect(connectionStatuses(plan, [connection])).toMatchObject([{ state: "missing", fromPlatform: 1 }])
+  })
+})
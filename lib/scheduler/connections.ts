@@ -0,0 +1,78 @@
+import { DEFAULT_CLASS_WEIGHTS, trainPriority } from "./priority"
+import { occupationConflicts, type Occupation } from "./rules"
+import type {
+  AssignedTrain,
+  Connection,
+  ConnectionStatus,
+  OccupationRules,
+  Platform,
+  Train,
+  TrainClass,
+} from "./types"
+
+// Walking minutes added to Connection.minTransfer between platforms on different islands
+export const TRANSFER_WALK_MINUTES = { adjacent: 2, other: 5 }
+
+// A transfer with less slack than this is at risk
+export const AT_RISK_SLACK_MINUTES = 3
+
+// Longest departure hold offered for a broken connection
+export const MAX_CONNECTION_HOLD_MINUTES = 15
+
+// Extra walking minutes between two platforms: none on the same platform or island (PlatformSpec.island), then
+// TRANSFER_WALK_MINUTES by whether the platform numbers are next to each other
+export function transferWalk(a: Pick<Occupation, "id" | "spec">, b: Pick<Occupation, "id" | "spec">) {
+  if (a.id === b.id || (a.spec?.island !== undefined && a.spec.island === b.spec?.island)) return 0
+  return Math.abs(a.id - b.id) === 1 ? TRANSFER_WALK_MINUTES.adjacent : TRANSFER_WALK_MINUTES.other
+}
+
+// Passenger-minutes walked if `train` takes `pl`, over its connections with trains already on one of `platforms`
+export function connectionWalk(train: Train, pl: Platform, platforms: Platform[], connections: Connection[]) {
+  let walked = 0
+  for (const c of connections) {
+    const other = c.fromTrain === train.id ? c.toTrain : c.toTrain === train.id ? c.fromTrain : undefined
+    const otherOn = other === undefined ? undefined : platforms.find((p) => p.trains.some((t) => t.id === other))
+    if (otherOn) walked += c.passengers * transferWalk(pl, otherOn)
+  }
+  return walked
+}
+
+// Where each connection stands in a finished plan, and for broken ones the hold of the connecting train that would
+// save it
+export function connectionStatuses(
+  platforms: Platform[],
+  connections: Connection[],
+  rules: OccupationRules = {},
+  classWeights: Record<TrainClass, number> = DEFAULT_CLASS_WEIGHTS,
+): ConnectionStatus[] {
+  const placed = new Map<string, { train: AssignedTrain; pl: Platform }>()
+  for (const pl of platforms) for (const train of pl.trains) placed.set(train.id, { train, pl })
+
+  return connections.map((connection) => {
+    const from = placed.get(connection.fromTrain)
+    const to = placed.get(connection.toTrain)
+    if (!from || !to) return { connection, state: "missing", fromPlatform: from?.pl.id, toPlatform: to?.pl.id }
+    const transferTime = connection.minTransfer + transferWalk(from.pl, to.pl)
+    const slack = to.train.effectiveDeparture - from.train.effectiveArrival - transferTime
+    const status: ConnectionStatus = {
+      connection,
+      state: slack < 0 ? "broken" : slack < AT_RISK_SLACK_MINUTES ? "at-risk" : "ok",
+      fromPlatform: from.pl.id,
+      toPlatform: to.pl.id,
+      transferTime,
+      slack,
+    }
+    if (slack < 0 && -slack <= MAX_CONNECTION_HOLD_MINUTES) {
+      const until = from.train.effectiveArrival + transferTime
+      const held = { ...to.train, effectiveDeparture: until }
+      status.hold = {
+        trainId: to.train.id,
+        until,
+        minutes: -slack,
+        cost: -slack * trainPriority(to.train, classWeights),
+        conflicts: occupationConflicts(held, to.pl, platforms, rules),
+      }
+    }
+    return status
+  })
+}
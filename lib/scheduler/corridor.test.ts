@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest"
+import { corridorTrains, solveCorridor, type Corridor } from "./corridor"
+import { platform, train } from "./testing"
+
+// three stations 10 minutes apart, with 3 minutes of allowance timetabled on each section
+const corridor: Corridor = {
+  stations: ["north", "central", "south"].map((id, i) => ({
+    id,
+    name: id,
+    km: i * 10,
+    platforms: [platform(1)],
+    dwell: 2,
+  })),
+  sections: [
+    { runningMinutes: 10, allowanceMinutes: 3, tracks: 2 },
+    { runningMinutes: 10, allowanceMinutes: 3, tracks: 2 },
+  ],
+}
+
+describe("corridorTrains", () => {
+  it("runs down trains from the first station to the last and up trains back", () => {
+    const [down, up] = corridorTrains(
+      [train("D", 600, 605), train("U", 700, 705, { direction: "up" })],
+      corridor,
+      "central",
+    )
+    expect(down.calls.map((c) => [c.stationId, c.arrival, c.departure])).toEqual([
+      ["north", 585, 587],
+      ["central", 600, 605],
+      ["south", 618, 620],
+    ])
+    expect(up.calls.map((c) => c.stationId)).toEqual(["south", "central", "north"])
+  })
+
+  it("ends a train whose rake forms another service at the station, and starts that service there", () => {
+    const [inbound, outbound] = corridorTrains(
+      [train("A", 600, 610, { formsTrain: "B" }), train("B", 620, 630, { direction: "up" })],
+      corridor,
+      "central",
+    )
+    expect(inbound.calls.map((c) => c.stationId)).toEqual(["north", "central"])
+    expect(outbound.calls.map((c) => c.stationId)).toEqual(["central", "north"])
+  })
+})
+
+describe("solveCorridor", () => {
+  it("carries a late departure to the next station less the running-time allowance", () => {
+    const trains = corridorTrains([train("D", 600, 605, { delay: 10, status: "delayed" })], corridor, "central")
+    const plan = solveCorridor(trains, corridor)
+    expect(plan.settled).toBe(true)
+    const calls = new Map(plan.runs[0].calls.map((c) => [c.stationId, c]))
+    expect(calls.get("north")!.departureDelay).toBe(0)
+    // arrives 610, leaves after the 2-minute minimum dwell at 612
+    expect(calls.get("central")!.departureDelay).toBe(7)
+    // 3 of the 7 minutes made up on the line; the 2-minute dwell has nothing to give
+    expect(calls.get("south")).toMatchObject({ arrivalDelay: 4, departureDelay: 4 })
+  })
+
+  it("carries knock-on delay at a station's single platform down the line", () => {
+    // A arrives at central at 625 and needs 10 minutes there, keeping B from the platform until 635
+    const trains = corridorTrains(
+      [train("A", 600, 620, { delay: 25, status: "delayed", minDwell: 10 }), train("B", 626, 628)],
+      corridor,
+      "central",
+    )
+    const plan = solveCorridor(trains, corridor)
+    const calls = new Map(plan.runs.find((r) => r.trainId === "B")!.calls.map((c) => [c.stationId, c]))
+    expect(calls.get("central")).toMatchObject({ projectedArrival: 635, departureDelay: 9 })
+    expect(calls.get("south")!.arrivalDelay).toBe(6)
+  })
+})
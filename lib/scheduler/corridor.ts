@@ -0,0 +1,259 @@
+import { earliestDeparture } from "./dwell"
+import { trainClassOf } from "./priority"
+import { propagateDelays } from "./propagation"
+import { solve, type SolveOptions } from "./solve"
+import type {
+  AssignmentResult,
+  AssignOptions,
+  OccupationRules,
+  PlatformSpec,
+  Train,
+  TrainClass,
+  TrainPropagation,
+} from "./types"
+
+// A corridor of stations trains run through in turn, each with its own platforms and its own run of the assignment
+// engine. The delay a train leaves one station with, less the running-time allowance it makes up on the line, is
+// its arrival delay at the next.
+
+export type CorridorStation = {
+  id: string
+  name: string
+  // distance from the first station, for the time-distance chart
+  km: number
+  platforms: PlatformSpec[]
+  rules?: OccupationRules
+  // scheduled dwell of the calls corridorTrains adds at this station
+  dwell: number
+}
+
+// The line between two neighbouring stations
+export type CorridorSection = {
+  // minimum running time; timetabled running time above it is allowance a late train makes up
+  runningMinutes: number
+  // classes running slower or faster than that, e.g. freight
+  runningMinutesByClass?: Partial<Record<TrainClass, number>>
+  // allowance corridorTrains timetables on top of the running time
+  allowanceMinutes: number
+  // 1: single line, opposing trains cross only at stations; 2: double line, a track each way
+  tracks: 1 | 2
+  // block sections per track, each holding one train at a time; defaults to 1
+  blocks?: number
+  // minutes between a train clearing a block and the next one entering it
+  headway?: number
+}
+
+export type Corridor = {
+  // in order along the line; down trains run from the first station to the last
+  stations: CorridorStation[]
+  // sections[i] joins stations[i] and stations[i + 1]
+  sections: CorridorSection[]
+}
+
+// A train's stop at one station, as timestamps
+export type StationCall = {
+  stationId: string
+  arrival: number
+  departure: number
+  // arrival delay reported at this station; the delay carried in from the station before counts when it is more
+  delay?: number
+  departureHold?: number
+}
+
+// A train through the corridor: its stops in running order. Train.formsTrain applies where it terminates.
+export type CorridorTrain = Omit<Train, "arrival" | "departure" | "delay" | "status" | "departureHold"> & {
+  calls: StationCall[]
+}
+
+export type ProjectedCall = StationCall & {
+  // the larger of the reported delay and the delay carried in from the station before
+  arrivalDelay: number
+  projectedArrival: number
+  projectedDeparture: number
+  departureDelay: number
+  // undefined when the station's plan left the train without a platform
+  platformId?: number
+}
+
+export type CorridorRun = {
+  trainId: string
+  name: string
+  calls: ProjectedCall[]
+}
+
+export type StationPlan = {
+  station: CorridorStation
+  // the trains calling at the station with their arrival delays, as planned
+  trains: Train[]
+  result: AssignmentResult
+}
+
+export type CorridorOptions = Pick<SolveOptions, "solver" | "weights" | "now" | "freezeMinutes"> & {
+  // further options for one station's run by station id, e.g. a board's pins and previous platforms
+  stations?: Record<string, AssignOptions>
+  maxRounds?: number
+}
+
+export type CorridorPlan = {
+  // in corridor order
+  stations: StationPlan[]
+  runs: CorridorRun[]
+  rounds: number
+  // false when the delays still moved in the last round (up and down trains delaying each other back and forth)
+  settled: boolean
+}
+
+// Rounds over all stations before the plan is returned unsettled
+export const DEFAULT_CORRIDOR_ROUNDS = 5
+
+// Minimum running time of `train` over `section`
+export function sectionRunningMinutes(section: CorridorSection, train: Pick<Train, "trainClass" | "service">) {
+  return section.runningMinutesByClass?.[trainClassOf(train)] ?? section.runningMinutes
+}
+
+// Running-time allowance of `train` between two of its calls: the timetabled time on the line less the minimum
+// running time
+export function runningAllowance(
+  corridor: Corridor,
+  train: Pick<Train, "trainClass" | "service">,
+  leaves: StationCall,
+  reaches: StationCall,
+) {
+  const from = corridor.stations.findIndex((s) => s.id === leaves.stationId)
+  const to = corridor.stations.findIndex((s) => s.id === reaches.stationId)
+  const running = corridor.sections
+    .slice(Math.min(from, to), Math.max(from, to))
+    .reduce((sum, s) => sum + sectionRunningMinutes(s, train), 0)
+  return Math.max(0, reaches.arrival - leaves.departure - running)
+}
+
+function stationTrain(train: CorridorTrain, index: number, carried: number): Train {
+  const { calls, formsTrain, ...rest } = train
+  const call = calls[index]
+  const delay = Math.max(call.delay ?? 0, carried)
+  return {
+    ...rest,
+    arrival: call.arrival,
+    departure: call.departure,
+    delay,
+    status: delay > 0 ? "delayed" : "on-time",
+    departureHold: call.departureHold,
+    // the rake turns round where the train terminates
+    formsTrain: index === calls.length - 1 ? formsTrain : undefined,
+  }
+}
+
+// Projected times at a station: from the plan's delay propagation, or for a train without a platform its own delay
+// less what its dwell recovers
+function projected(train: Train, propagation: TrainPropagation | undefined, rules?: OccupationRules) {
+  if (propagation) {
+    const { projectedArrival, projectedDeparture, platformId } = propagation
+    return { projectedArrival, projectedDeparture, platformId }
+  }
+  const projectedArrival = train.arrival + train.delay
+  const projectedDeparture = earliestDeparture(train, projectedArrival, rules)
+  return { projectedArrival, projectedDeparture, platformId: undefined }
+}
+
+// Plans every station of the corridor. Stations are planned in corridor order, each with the delays carried in so
+// far, so delays of down trains reach the end of the line in one round; rounds repeat until no carried delay
+// changes (up trains take a round per station) or `maxRounds` is reached. Calls at stations the corridor does not
+// have are left out.
+export function solveCorridor(
+  trains: CorridorTrain[],
+  corridor: Corridor,
+  options: CorridorOptions = {},
+): CorridorPlan {
+  const { stations: byStation = {}, maxRounds = DEFAULT_CORRIDOR_ROUNDS, ...solveOptions } = options
+  const indexOf = new Map(corridor.stations.map((s, i) => [s.id, i]))
+  const runs = trains.map((t) => ({ train: t, calls: t.calls.filter((c) => indexOf.has(c.stationId)) }))
+  // arrival delay carried into each call, by train id
+  const carried = new Map(runs.map(({ train, calls }) => [train.id, calls.map(() => 0)]))
+
+  const planStation = (station: CorridorStation) => {
+    const calling = runs.flatMap(({ train, calls }) => {
+      const i = calls.findIndex((c) => c.stationId === station.id)
+      return i < 0 ? [] : [{ train: { ...train, calls }, i }]
+    })
+    const stationTrains = calling.map(({ train, i }) => stationTrain(train, i, carried.get(train.id)![i]))
+    const result = solve(stationTrains, {
+      platforms: station.platforms,
+      rules: station.rules,
+      ...solveOptions,
+      ...byStation[station.id],
+    })
+    const propagation = new Map(propagateDelays(result.platforms, { rules: station.rules }).map((p) => [p.trainId, p]))
+    return { station, trains: stationTrains, result, calling, propagation }
+  }
+
+  let plans: ReturnType<typeof planStation>[] = []
+  let rounds = 0
+  let settled = false
+  while (!settled && rounds < maxRounds) {
+    rounds++
+    settled = true
+    plans = corridor.stations.map((station) => {
+      const plan = planStation(station)
+      plan.calling.forEach(({ train, i }, k) => {
+        const next = train.calls[i + 1]
+        if (!next) return
+        const { projectedDeparture } = projected(plan.trains[k], plan.propagation.get(train.id), station.rules)
+        const call = train.calls[i]
+        const carry = Math.max(0, projectedDeparture - call.departure - runningAllowance(corridor, train, call, next))
+        const into = carried.get(train.id)!
+        if (into[i + 1] !== carry) {
+          into[i + 1] = carry
+          settled = false
+        }
+      })
+      return plan
+    })
+  }
+
+  return {
+    stations: plans.map(({ station, trains, result }) => ({ station, trains, result })),
+    runs: runs.map(({ train, calls }) => ({
+      trainId: train.id,
+      name: train.name,
+      calls: calls.map((call) => {
+        const plan = plans[indexOf.get(call.stationId)!]
+        const t = plan.trains.find((s) => s.id === train.id)!
+        const times = projected(t, plan.propagation.get(train.id), plan.station.rules)
+        return { ...call, arrivalDelay: t.delay, ...times, departureDelay: times.projectedDeparture - call.departure }
+      }),
+    })),
+    rounds,
+    settled,
+  }
+}
+
+// Runs through the whole corridor for trains timetabled at one station (`stationId`) only: down trains (and trains
+// without a direction) run from the first station to the last, up trains back, timed by each section's running time
+// and allowance and each station's dwell. The reported delay and any departure hold stay with the call at
+// `stationId`. A train whose rake forms another service terminates at `stationId`, and that service starts there.
+export function corridorTrains(trains: Train[], corridor: Corridor, stationId: string): CorridorTrain[] {
+  const { stations, sections } = corridor
+  const home = stations.findIndex((s) => s.id === stationId)
+  if (home < 0) return []
+  const formed = new Set(trains.flatMap((t) => (t.formsTrain === undefined ? [] : [t.formsTrain])))
+  return trains.map(({ arrival, departure, delay, status: _status, departureHold, ...train }) => {
+    const step = train.direction === "up" ? -1 : 1
+    const calls: StationCall[] = [{ stationId, arrival, departure, delay, departureHold }]
+    if (!formed.has(train.id)) {
+      for (let i = home - step; i >= 0 && i < stations.length; i -= step) {
+        const section = sections[Math.min(i, i + step)]
+        const leaves = calls[0].arrival - sectionRunningMinutes(section, train) - section.allowanceMinutes
+        calls.unshift({ stationId: stations[i].id, arrival: leaves - stations[i].dwell, departure: leaves })
+      }
+    }
+    if (train.formsTrain === undefined) {
+      for (let i = home + step; i >= 0 && i < stations.length; i += step) {
+        const section = sections[Math.min(i, i - step)]
+        const running = sectionRunningMinutes(section, train) + section.allowanceMinutes
+        const reaches = calls[calls.length - 1].departure + running
+        calls.push({ stationId: stations[i].id, arrival: reaches, departure: reaches + stations[i].dwell })
+      }
+    }
+    return { ...train, calls }
+  })
+}
@@ -0,0 +1,58 @@
+import { transferWalk } from "./connections"
+import { conflictMargin, occupiedUntil } from "./rules"
+import type { Connection, CostBreakdown, OccupationRules, Platform, ScoringWeights } from "./types"
+
+// Total plan cost, using the same per-placement terms the greedy scorer uses:
+// every train after the first on a platform pays
+//   idleGap * gap + load * trainsAlreadyOnPlatform + delayedSpread * delayedAlreadyOnPlatform
+// where the gap is measured from the end of the previous train's clearance buffer, and every train pays
+//   margin * conflictMargin (each interfering pair of movements counted once)
+// and every train moved off its platform in `previous` (train id to platform id) pays platformChange, and every
+// connection pays connection * passengers * transferWalk between its two platforms,
+// so plans produced by different solvers can be compared on one scale.
+export function planCost(
+  platforms: Platform[],
+  weights: ScoringWeights,
+  rules: OccupationRules = {},
+  previous: Record<string, number> = {},
+  connections: Connection[] = [],
+) {
+  return planCostBreakdown(platforms, weights, rules, previous, connections).total
+}
+
+// planCost split into its weighted terms
+export function planCostBreakdown(
+  platforms: Platform[],
+  weights: ScoringWeights,
+  rules: OccupationRules = {},
+  previous: Record<string, number> = {},
+  connections: Connection[] = [],
+): CostBreakdown {
+  const cost = { idleGap: 0, load: 0, delayedSpread: 0, margin: 0, platformChange: 0, connection: 0 }
+  for (const pl of platforms) {
+    const ordered = [...pl.trains].sort((a, b) => a.effectiveArrival - b.effectiveArrival)
+    let delayedCount = 0
+    for (let i = 0; i < ordered.length; i++) {
+      const t = ordered[i]
+      if (i > 0) {
+        const gap = Math.max(0, t.effectiveArrival - occupiedUntil(ordered[i - 1], pl.spec, rules))
+        cost.idleGap += weights.idleGap * gap
+        cost.load += weights.load * i
+        cost.delayedSpread += weights.delayedSpread * delayedCount
+      }
+      if (t.status === "delayed") delayedCount++
+      if (previous[t.id] !== undefined && previous[t.id] !== pl.id) cost.platformChange += weights.platformChange
+      cost.margin += (weights.margin * conflictMargin(t, pl, platforms, rules)) / 2
+    }
+  }
+  const platformOf = new Map(platforms.flatMap((pl) => pl.trains.map((t) => [t.id, pl])))
+  for (const c of connections) {
+    const from = platformOf.get(c.fromTrain)
+    const to = platformOf.get(c.toTrain)
+    if (from && to) cost.connection += weights.connection * c.passengers * transferWalk(from, to)
+  }
+  return {
+    ...cost,
+    total: cost.idleGap + cost.load + cost.delayedSpread + cost.margin + cost.platformChange + cost.connection,
+  }
+}
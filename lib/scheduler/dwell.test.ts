@@ -0,0 +1,28 @@
+import { describe, expect, it } from "vitest"
+import { DEFAULT_MIN_DWELL_MINUTES, earliestDeparture, minimumDwell, recoveredMinutes } from "./dwell"
+import { toAssignedTrain } from "./greedy"
+import { train } from "./testing"
+
+describe("dwell", () => {
+  it("takes the train's own minimum dwell, then its class's, then the default, capped by the scheduled dwell", () => {
+    const rules = { minDwellByClass: { express: 3 } }
+    expect(minimumDwell(train("A", 600, 610, { minDwell: 4, trainClass: "express" }), rules)).toBe(4)
+    expect(minimumDwell(train("A", 600, 610, { trainClass: "express" }), rules)).toBe(3)
+    expect(minimumDwell(train("A", 600, 610), rules)).toBe(DEFAULT_MIN_DWELL_MINUTES)
+    expect(minimumDwell(train("A", 600, 601, { minDwell: 4 }), rules)).toBe(1)
+  })
+
+  it("leaves on time when the dwell absorbs the delay, else after the minimum dwell", () => {
+    const a = train("A", 600, 610)
+    expect(earliestDeparture(a, 605)).toBe(610)
+    expect(earliestDeparture(a, 615)).toBe(617)
+    expect(earliestDeparture({ ...a, departureHold: 5 }, 600)).toBe(615)
+  })
+
+  it("counts the arrival delay made up at the platform", () => {
+    const late = toAssignedTrain(train("A", 600, 610, { delay: 12, status: "delayed" }))
+    expect(late.effectiveDeparture).toBe(614)
+    expect(recoveredMinutes(late)).toBe(8)
+    expect(recoveredMinutes(late, 605)).toBe(1)
+  })
+})
@@ -0,0 +1,25 @@
+import { trainClassOf } from "./priority"
+import type { AssignedTrain, OccupationRules, Train } from "./types"
+
+// Minutes a train needs at the platform however late it is (doors, boarding, brake test), when neither the train nor
+// its class sets one
+export const DEFAULT_MIN_DWELL_MINUTES = 2
+
+// Technical minimum dwell of `train`: its own, else its class's (OccupationRules.minDwellByClass), else the default;
+// never longer than the scheduled dwell
+export function minimumDwell(train: Train, rules: OccupationRules = {}) {
+  const own = train.minDwell ?? rules.minDwellByClass?.[trainClassOf(train)] ?? DEFAULT_MIN_DWELL_MINUTES
+  return Math.min(own, train.departure - train.arrival)
+}
+
+// Earliest feasible departure of `train` arriving at `arrival`: the timetabled departure (plus any departure hold), or
+// the minimum dwell after an arrival too late for it. A late train recovers the scheduled dwell it does not need.
+export function earliestDeparture(train: Train, arrival: number, rules: OccupationRules = {}) {
+  return Math.max(train.departure + (train.departureHold ?? 0), arrival + minimumDwell(train, rules))
+}
+
+// Minutes of arrival delay made up at the platform: arrival delay less departure delay. `arrived` is when the train
+// was there for its passengers (see boardingFrom), by default its effective arrival.
+export function recoveredMinutes(train: AssignedTrain, arrived = train.effectiveArrival) {
+  return arrived - train.arrival - (train.effectiveDeparture - train.departure)
+}
@@ -0,0 +1,66 @@
+import { platformIncompatibilities } from "./compat"
+import { connectionWalk } from "./connections"
+import { conflictMargin, occupationConflicts, occupiedUntil } from "./rules"
+import type {
+  AssignedTrain,
+  Connection,
+  OccupationRules,
+  Platform,
+  PlatformCandidate,
+  ScoreTerm,
+  ScoreTermKey,
+  ScoringWeights,
+} from "./types"
+
+function term(value: number, weight: number): ScoreTerm {
+  return { value, weight, cost: weight * value }
+}
+
+// Terms of the greedy score for `train` on `pl`: the idle gap since the occupation before it ends, the trains and
+// delayed trains on the platform, the closeness to headway and throat limits (see conflictMargin), moving the
+// train off `previous`, its platform in the plan being replaced, and the walk to its connecting trains already placed
+// (see connectionWalk). `train` itself is skipped where it already appears.
+export function scoreTerms(
+  train: AssignedTrain,
+  pl: Platform,
+  platforms: Platform[],
+  rules: OccupationRules,
+  weights: ScoringWeights,
+  previous?: number,
+  connections: Connection[] = [],
+): Record<ScoreTermKey, ScoreTerm> {
+  const others = pl.trains.filter((t) => t.id !== train.id)
+  // idle time since the occupation before this one ends (frozen trains may already sit later on the platform)
+  const before = others.filter((t) => t.effectiveArrival <= train.effectiveArrival)
+  const freeSince = Math.max(...before.map((t) => occupiedUntil(t, pl.spec, rules)), Number.NEGATIVE_INFINITY)
+  const gap = Number.isFinite(freeSince) ? Math.max(0, train.effectiveArrival - freeSince) : 0
+  return {
+    idleGap: term(gap, weights.idleGap),
+    load: term(others.length, weights.load),
+    delayedSpread: term(others.filter((t) => t.status === "delayed").length, weights.delayedSpread),
+    margin: term(conflictMargin(train, pl, platforms, rules), weights.margin),
+    platformChange: term(previous !== undefined && previous !== pl.id ? 1 : 0, weights.platformChange),
+    connection: term(connectionWalk(train, pl, platforms, connections), weights.connection),
+  }
+}
+
+// `train` on `pl` at its effective arrival: the score and its terms when the platform can take it, otherwise the
+// incompatibilities and occupation conflicts that rule it out
+export function evaluatePlatform(
+  train: AssignedTrain,
+  pl: Platform,
+  platforms: Platform[],
+  rules: OccupationRules,
+  weights: ScoringWeights,
+  previous?: number,
+  connections: Connection[] = [],
+): PlatformCandidate {
+  const incompatibilities = pl.spec ? platformIncompatibilities(train, pl.spec) : []
+  const conflicts = incompatibilities.length > 0 ? [] : occupationConflicts(train, pl, platforms, rules)
+  if (incompatibilities.length > 0 || conflicts.length > 0) {
+    return { platformId: pl.id, incompatibilities, conflicts }
+  }
+  const terms = scoreTerms(train, pl, platforms, rules, weights, previous, connections)
+  const score = Object.values(terms).reduce((sum, t) => sum + t.cost, 0)
+  return { platformId: pl.id, score, terms, incompatibilities, conflicts }
+}
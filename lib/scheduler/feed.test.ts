@@ -0,0 +1,70 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { applyDelayEvent, parseDelayEvent, scriptedDelayFeed, type DelayEvent } from "./feed"
+import { train } from "./testing"
+import { atClock, dayStart, toTimestamp } from "./time"
+
+const day = dayStart(toTimestamp(new Date(2025, 2, 1)))
+
+describe("parseDelayEvent", () => {
+  it("reads clock ETAs on the service day", () => {
+    const result = parseDelayEvent({ trainId: "12951", eta: "08:17", reason: "signal failure" }, day)
+    expect(result).toMatchObject({
+      event: { trainId: "12951", eta: atClock(day, 8 * 60 + 17), reason: "signal failure" },
+    })
+  })
+
+  it("names the field that is wrong", () => {
+    expect(parseDelayEvent({ eta: "08:17" }, day)).toEqual({ error: expect.stringContaining("trainId") })
+    expect(parseDelayEvent({ trainId: "1", eta: "soon" }, day)).toEqual({ error: 'eta: invalid time "soon"' })
+  })
+})
+
+describe("applyDelayEvent", () => {
+  const trains = [train("A", 600, 610), train("B", 620, 630, { delay: 5, status: "delayed" })]
+  const event = (trainId: string, eta: number): DelayEvent => ({ trainId, eta, receivedAt: 0 })
+
+  it("sets the delay from the ETA and clears it for an ETA on time", () => {
+    expect(applyDelayEvent(trains, event("A", 612))[0]).toMatchObject({ delay: 12, status: "delayed" })
+    expect(applyDelayEvent(trains, event("B", 618))[1]).toMatchObject({ delay: 0, status: "on-time" })
+  })
+
+  it("leaves the trains alone for an unknown train", () => {
+    expect(applyDelayEvent(trains, event("X", 700))).toBe(trains)
+  })
+})
+
+describe("scriptedDelayFeed", () => {
+  beforeEach(() => vi.useFakeTimers())
+  afterEach(() => vi.useRealTimers())
+
+  it("plays events at their offsets and reports events that do not parse", () => {
+    const script = {
+      name: "Fog",
+      events: [
+        { trainId: "B", eta: "08:40", after: 2 },
+        { trainId: "A", eta: "08:20", after: 0 },
+        { trainId: "C", eta: "later", after: 3 },
+      ],
+    }
+    const onEvent = vi.fn()
+    const onStatus = vi.fn()
+    scriptedDelayFeed(script, day, { speed: 2 }).subscribe({ onEvent, onStatus })
+
+    vi.advanceTimersByTime(0)
+    expect(onEvent.mock.calls.map(([e]) => e.trainId)).toEqual(["A"])
+    vi.advanceTimersByTime(1000)
+    expect(onEvent.mock.calls.map(([e]) => e.trainId)).toEqual(["A", "B"])
+    vi.advanceTimersByTime(500)
+    expect(onStatus).toHaveBeenCalledWith("error", expect.stringContaining("event 3"))
+    expect(onStatus).toHaveBeenLastCalledWith("finished")
+  })
+
+  it("stops delivering once unsubscribed", () => {
+    const onEvent = vi.fn()
+    const script = { name: "One", events: [{ trainId: "A", eta: "08:20", after: 5 }] }
+    const stop = scriptedDelayFeed(script, day).subscribe({ onEvent })
+    stop()
+    vi.advanceTimersByTime(10000)
+    expect(onEvent).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,237 @@
+import { z } from "zod"
+import { randomInt, shuffled, type Random } from "./random"
+import { parseTimestamp, toTimestamp } from "./time"
+import type { Train } from "./types"
+
+// A train's new expected arrival, as reported by a delay feed
+export type DelayEvent = {
+  trainId: string
+  // new expected arrival (timestamp)
+  eta: number
+  reason?: string
+  // when the event was received
+  receivedAt: number
+}
+
+export type FeedStatus = "connecting" | "open" | "finished" | "closed" | "error"
+
+export type DelayFeedHandlers = {
+  onEvent: (event: DelayEvent) => void
+  onStatus?: (status: FeedStatus, detail?: string) => void
+}
+
+// A source of delay events. `subscribe` starts delivering events and returns a function that stops the feed;
+// a feed can be subscribed again after it was stopped.
+export type DelayFeed = {
+  name: string
+  // simulated events (the random simulator, scripted scenarios); the board does not save or audit them by default
+  demo?: boolean
+  subscribe(handlers: DelayFeedHandlers): () => void
+}
+
+// Wire format of one event, shared by the stream client, scripted scenarios and the mock server. `eta` is an ISO
+// 8601 date-time or a clock time on the service day.
+export const delayEventSchema = z.object({
+  trainId: z.string().min(1),
+  eta: z.string().min(1),
+  reason: z.string().optional(),
+})
+
+export type DelayEventMessage = z.input<typeof delayEventSchema>
+
+export function parseDelayEvent(data: unknown, serviceDay: number): { event: DelayEvent } | { error: string } {
+  const parsed = delayEventSchema.safeParse(data)
+  if (!parsed.success) {
+    return { error: parsed.error.issues.map((i) => `${i.path.join(".") || "event"}: ${i.message}`).join("; ") }
+  }
+  const eta = parseTimestamp(parsed.data.eta, serviceDay)
+  if (eta === null) return { error: `eta: invalid time "${parsed.data.eta}"` }
+  return {
+    event: { trainId: parsed.data.trainId, eta, reason: parsed.data.reason, receivedAt: toTimestamp(new Date()) },
+  }
+}
+
+// Trains with the event applied: the delay becomes the ETA's lateness against the scheduled arrival (an ETA at or
+// before it clears the delay). Unknown train ids leave the trains unchanged.
+export function applyDelayEvent(trains: Train[], event: DelayEvent): Train[] {
+  if (!trains.some((t) => t.id === event.trainId)) return trains
+  return trains.map((t) => {
+    if (t.id !== event.trainId) return t
+    const delay = Math.max(0, Math.round(event.eta - t.arrival))
+    return { ...t, delay, status: delay > 0 ? "delayed" : "on-time" }
+  })
+}
+
+export type RandomFeedOptions = {
+  intervalMs?: number
+  // trains delayed at a time; every other delayed train recovers
+  delayedCount?: number
+  minDelay?: number
+  maxDelay?: number
+  // Math.random unless given; pass seededRandom(seed) for a repeatable run
+  random?: Random
+}
+
+// The original demo simulator: every interval (and once on subscribe) picks `delayedCount` random trains, delays
+// them by minDelay–maxDelay minutes and brings every other delayed train back on time. `getTrains` returns the
+// trains currently on the board.
+export function randomDelayFeed(
+  getTrains: () => Train[],
+  { intervalMs = 4000, delayedCount = 2, minDelay = 5, maxDelay = 18, random = Math.random }: RandomFeedOptions = {},
+): DelayFeed {
+  return {
+    name: "Random simulator",
+    demo: true,
+    subscribe({ onEvent, onStatus }) {
+      function tick() {
+        const trains = getTrains()
+        const delayedIds = new Set(shuffled(trains, random).slice(0, delayedCount).map((t) => t.id))
+        const receivedAt = toTimestamp(new Date())
+        for (const t of trains) {
+          if (delayedIds.has(t.id)) {
+            const delay = randomInt(random, minDelay, maxDelay)
+            onEvent({ trainId: t.id, eta: t.arrival + delay, reason: "simulated delay", receivedAt })
+          } else if (t.delay > 0) {
+            onEvent({ trainId: t.id, eta: t.arrival, reason: "simulated recovery", receivedAt })
+          }
+        }
+      }
+
+      onStatus?.("open")
+      tick()
+      const iv = setInterval(tick, intervalMs)
+      return () => {
+        clearInterval(iv)
+        onStatus?.("closed")
+      }
+    },
+  }
+}
+
+// A scripted scenario: events played back at fixed offsets from the start
+export const delayScriptSchema = z.object({
+  name: z.string().min(1),
+  events: z.array(
+    delayEventSchema.extend({
+      // seconds after the start of playback
+      after: z.number().nonnegative(),
+    }),
+  ),
+})
+
+export type DelayScript = z.output<typeof delayScriptSchema>
+
+export type ScriptedFeedOptions = {
+  // playback speed; 2 plays the script twice as fast
+  speed?: number
+  // start over after the last event
+  loop?: boolean
+}
+
+// Deterministic playback of a script; ETAs are read on `serviceDay`. Events that do not parse are reported
+// through onStatus("error") and skipped.
+export function scriptedDelayFeed(
+  script: DelayScript,
+  serviceDay: number,
+  { speed = 1, loop = false }: ScriptedFeedOptions = {},
+): DelayFeed {
+  const events = [...script.events].sort((a, b) => a.after - b.after)
+  const length = events.length > 0 ? events[events.length - 1].after : 0
+  return {
+    name: script.name,
+    demo: true,
+    subscribe({ onEvent, onStatus }) {
+      let timer: ReturnType<typeof setTimeout> | undefined
+      let stopped = false
+
+      function play(index: number, startedAt: number) {
+        if (stopped) return
+        if (index >= events.length) {
+          if (loop && events.length > 0) {
+            // the next round starts one second after the last event
+            timer = setTimeout(() => play(0, Date.now()), 1000 / speed)
+          } else {
+            onStatus?.("finished")
+          }
+          return
+        }
+        const wait = Math.max(0, (events[index].after * 1000) / speed - (Date.now() - startedAt))
+        timer = setTimeout(() => {
+          const result = parseDelayEvent(events[index], serviceDay)
+          if ("event" in result) onEvent(result.event)
+          else onStatus?.("error", `event ${index + 1}: ${result.error}`)
+          play(index + 1, startedAt)
+        }, wait)
+      }
+
+      onStatus?.("open", `${events.length} events over ${length} s`)
+      play(0, Date.now())
+      return () => {
+        stopped = true
+        clearTimeout(timer)
+        onStatus?.("closed")
+      }
+    },
+  }
+}
+
+// Live events from a server: a WebSocket for ws:// and wss:// URLs, Server-Sent Events otherwise. Each message is
+// one JSON object in the wire format (see delayEventSchema). ETAs given as clock times are read on `serviceDay`.
+// WebSockets are not reconnected; EventSource reconnects by itself.
+export function streamDelayFeed(url: string, serviceDay: number): DelayFeed {
+  const isSocket = /^wss?:\/\//i.test(url)
+  return {
+    name: `${isSocket ? "WebSocket" : "SSE"} ${url}`,
+    subscribe({ onEvent, onStatus }) {
+      function receive(data: string) {
+        let message: unknown
+        try {
+          message = JSON.parse(data)
+        } catch {
+          onStatus?.("error", `not JSON: ${data.slice(0, 80)}`)
+          return
+        }
+        const result = parseDelayEvent(message, serviceDay)
+        if ("event" in result) onEvent(result.event)
+        else onStatus?.("error", result.error)
+      }
+
+      onStatus?.("connecting")
+
+      if (isSocket) {
+        let socket: WebSocket
+        try {
+          socket = new WebSocket(url)
+        } catch (e) {
+          onStatus?.("error", (e as Error).message)
+          return () => {}
+        }
+        socket.onopen = () => onStatus?.("open")
+        socket.onmessage = (e) => receive(String(e.data))
+        socket.onerror = () => onStatus?.("error", "connection failed")
+        socket.onclose = () => onStatus?.("closed")
+        return () => {
+          socket.onclose = null
+          socket.close()
+          onStatus?.("closed")
+        }
+      }
+
+      let source: EventSource
+      try {
+        source = new EventSource(url)
+      } catch (e) {
+        onStatus?.("error", (e as Error).message)
+        return () => {}
+      }
+      source.onopen = () => onStatus?.("open")
+      source.onmessage = (e) => receive(e.data)
+      source.onerror = () =>
+        onStatus?.(source.readyState === EventSource.CLOSED ? "closed" : "error", "connection lost, retrying")
+      return () => {
+        source.close()
+        onStatus?.("closed")
+      }
+    },
+  }
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest"
+import { assignPlatformsScoreBased } from "./greedy"
+import { occupiedUntil } from "./rules"
+import { platform, train } from "./testing"
+
+describe("assignPlatformsScoreBased", () => {
+  it("shares a platform between trains that do not overlap and splits those that do", () => {
+    const result = assignPlatformsScoreBased([train("A", 600, 610), train("B", 620, 630), train("C", 605, 625)])
+    expect(result.platforms).toHaveLength(2)
+    const platformOf = new Map(result.assignments.map((a) => [a.trainId, a.platformId]))
+    expect(platformOf.get("A")).toBe(platformOf.get("B"))
+    expect(platformOf.get("C")).not.toBe(platformOf.get("A"))
+    expect(result.totalExtraDelay).toBe(0)
+  })
+
+  it("holds a train at the signal when every platform is taken", () => {
+    const result = assignPlatformsScoreBased([train("A", 600, 620), train("B", 610, 630)], undefined, {
+      platforms: [platform(1)],
+    })
+    const b = result.platforms[0].trains.find((t) => t.id === "B")!
+    expect(b.overflow).toBe("hold")
+    expect(b.effectiveArrival).toBe(620)
+    expect(b.heldMinutes).toBe(10)
+  })
+
+  it("keeps trains off platforms they are not compatible with", () => {
+    const result = assignPlatformsScoreBased([train("A", 600, 610, { rakeLength: 500 })], undefined, {
+      platforms: [platform(1, { length: 300 }), platform(2)],
+    })
+    expect(result.assignments).toMatchObject([{ trainId: "A", platformId: 2 }])
+  })
+
+  it("frees a platform by what is left on it after bumping its last occupant", () => {
+    // E bumps the freight S off platform 2; S moves to platform 3 once its blockage ends
+    const trains = [
+      train("Y", 600, 640, { trainClass: "express" }),
+      train("S", 601, 620, { trainClass: "freight", rakeLength: 200 }),
+      train("E", 605, 615, { trainClass: "express", rakeLength: 500 }),
+    ]
+    const result = assignPlatformsScoreBased(trains, undefined, {
+      platforms: [platform(1), platform(2), platform(3, { length: 300 })],
+      rules: { blocks: [{ platformId: 3, from: 0, to: 610 }] },
+    })
+    const s = result.platforms.flatMap((pl) => pl.trains).find((t) => t.id === "S")!
+    expect(s.overflow).toBe("bump")
+    for (const pl of result.platforms) {
+      expect(pl.nextFreeAt).toBe(Math.max(...pl.trains.map((t) => occupiedUntil(t, pl.spec, {}))))
+    }
+  })
+})
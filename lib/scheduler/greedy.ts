@@ -0,0 +1,337 @@
+import { explainCompatibility, isCompatible } from "./compat"
+import { connectionStatuses } from "./connections"
+import { planCostBreakdown } from "./cost"
+import { earliestDeparture } from "./dwell"
+import { evaluatePlatform } from "./explain"
+import { overrideConflicts } from "./overrides"
+import { DEFAULT_CLASS_WEIGHTS, classDelays, trainPriority } from "./priority"
+import { formedBy, rakeInbounds, rakeLinkIssues } from "./rakes"
+import { earliestConflictFreeArrival, occupationConflicts, occupiedUntil } from "./rules"
+import { frozenPlatforms, platformChanges } from "./stability"
+import type {
+  AssignedTrain,
+  AssignOptions,
+  AssignmentReason,
+  AssignmentResult,
+  OccupationRules,
+  OverflowDecision,
+  Platform,
+  PlatformCandidate,
+  ScoringWeights,
+  Train,
+  TrainAssignment,
+  TrainState,
+  UnassignedTrain,
+} from "./types"
+
+export const DEFAULT_WEIGHTS: ScoringWeights = {
+  idleGap: 1.0,
+  load: 0.3,
+  delayedSpread: 0.5,
+  margin: 0.2,
+  platformChange: 10,
+  connection: 0.02,
+  classWeights: DEFAULT_CLASS_WEIGHTS,
+}
+
+export const DEFAULT_MAX_HOLD_MINUTES = 10
+
+// `t` at its reported arrival, leaving as early as its dwell allows
+export function toAssignedTrain(t: Train, rules: OccupationRules = {}): AssignedTrain {
+  const effectiveArrival = t.arrival + t.delay
+  return {
+    ...t,
+    effectiveArrival,
+    effectiveDeparture: earliestDeparture(t, effectiveArrival, rules),
+    heldMinutes: 0,
+  }
+}
+
+export function trainState(t: AssignedTrain): TrainState {
+  return t.heldMinutes > 0 ? "held" : t.status
+}
+
+// Moves the arrival to `until`; the departure follows only as far as the dwell cannot absorb the hold.
+// A train that was bumped keeps "bump" as its decision even if it is held again afterwards.
+function holdUntil(t: AssignedTrain, until: number, decision: OverflowDecision, rules: OccupationRules): AssignedTrain {
+  const extra = Math.max(0, until - t.effectiveArrival)
+  return {
+    ...t,
+    effectiveArrival: t.effectiveArrival + extra,
+    effectiveDeparture: earliestDeparture(t, t.effectiveArrival + extra, rules),
+    heldMinutes: t.heldMinutes + extra,
+    overflow: t.overflow === "bump" ? "bump" : decision,
+  }
+}
+
+function enqueue(queue: AssignedTrain[], train: AssignedTrain) {
+  const idx = queue.findIndex((t) => t.effectiveArrival > train.effectiveArrival)
+  queue.splice(idx < 0 ? queue.length : idx, 0, train)
+}
+
+// Greedy platform assignment:
+// - Sort by effective arrival (arrival + delay), higher-priority trains first at the same minute
+// - Place train on the lowest-scoring platform free by its arrival; else open a new platform
+// - With a fixed inventory, a train that finds every platform busy is held until the earliest platform frees
+//   (re-timed instead when the wait exceeds maxHoldMinutes), unless bumping a lower-priority train is cheaper
+// - With platform specs, only platforms compatible with the train are considered; trains that fit no
+//   platform of the inventory are reported as unassigned
+// - A platform is free once the previous train's clearance buffer has passed, and a placement must not break
+//   the approach headway or cross another movement in the throat (see occupationConflicts)
+// - Pinned trains (dispatcher overrides) are placed first, where they are pinned, whatever the conflicts
+// - With a previous plan, frozen trains (see frozenPlatforms) are placed on their old platforms first, and moving
+//   any other train off its old platform adds platformChange to the score
+// - Connecting trains (see AssignOptions.connections) pay for the passengers' walk between their platforms
+// - A service formed by another train's rake (see Train.formsTrain) occupies the platform from the inbound's
+//   departure, so inbound delay carries into its departure, and stays on the inbound's platform when it can
+export function assignPlatformsScoreBased(
+  trains: Train[],
+  weights: ScoringWeights = DEFAULT_WEIGHTS,
+  options: AssignOptions = {},
+): AssignmentResult {
+  const {
+    maxHoldMinutes = DEFAULT_MAX_HOLD_MINUTES,
+    rules = {},
+    previousPlatforms = {},
+    pinned = {},
+    connections = [],
+  } = options
+  const inventory = options.platforms?.slice(0, options.platformCount)
+  const platformCount = inventory?.length ?? options.platformCount ?? Number.POSITIVE_INFINITY
+
+  const unassigned: UnassignedTrain[] = []
+  const queue: AssignedTrain[] = []
+  for (const t of trains) {
+    if (inventory && !inventory.some((spec) => isCompatible(t, spec))) {
+      unassigned.push({ train: t, reasons: explainCompatibility(t, inventory) })
+    } else {
+      queue.push(toAssignedTrain(t, rules))
+    }
+  }
+  // outbound services of a rake turning round start from their inbound's departure
+  const inboundOf = rakeInbounds(trains)
+  for (const [outboundId, inboundId] of inboundOf) {
+    const i = queue.findIndex((t) => t.id === outboundId)
+    const inbound = queue.find((t) => t.id === inboundId)
+    if (i >= 0 && inbound) queue[i] = formedBy(queue[i], inbound, rules)
+  }
+  const priority = (t: Train) => trainPriority(t, weights.classWeights)
+  queue.sort((a, b) => a.effectiveArrival - b.effectiveArrival || priority(b) - priority(a))
+
+  const platforms: Platform[] = []
+  let assignments: TrainAssignment[] = []
+
+  const fitsOn = (train: AssignedTrain, pl: Platform) =>
+    isCompatible(train, pl.spec) && occupationConflicts(train, pl, platforms, rules).length === 0
+
+  const place = (
+    pl: Platform,
+    train: AssignedTrain,
+    reason: AssignmentReason,
+    score: number,
+    candidates: PlatformCandidate[] = [],
+  ) => {
+    if (!platforms.includes(pl)) platforms.push(pl)
+    pl.trains.push(train)
+    pl.nextFreeAt = Math.max(pl.nextFreeAt, occupiedUntil(train, pl.spec, rules))
+    assignments.push({
+      trainId: train.id,
+      platformId: pl.id,
+      reason: train.overflow ? "overflow" : reason,
+      score,
+      overflow: train.overflow,
+      extraDelay: train.heldMinutes,
+      candidates,
+    })
+    // a queued outbound service follows its rake
+    const i = queue.findIndex((t) => t.id === train.formsTrain)
+    if (i >= 0) enqueue(queue, formedBy(queue.splice(i, 1)[0], train, rules))
+  }
+
+  // Platforms not opened yet, the inventory's in order when it has specs. A platform opened on demand for `train`
+  // skips ids that are blocked during its stay.
+  const unopened = (train?: AssignedTrain): Platform[] => {
+    if (platforms.length >= platformCount) return []
+    if (!inventory) {
+      const id = Math.max(0, ...platforms.map((p) => p.id)) + 1
+      const pl: Platform = { id, trains: [], nextFreeAt: Number.NEGATIVE_INFINITY }
+      while (train && !fitsOn(train, pl)) pl.id++
+      return [pl]
+    }
+    return inventory
+      .filter((spec) => !platforms.some((pl) => pl.id === spec.id))
+      .map((spec) => ({ id: spec.id, trains: [], nextFreeAt: Number.NEGATIVE_INFINITY, spec }))
+  }
+
+  const evaluate = (train: AssignedTrain, pl: Platform) =>
+    evaluatePlatform(train, pl, platforms, rules, weights, previousPlatforms[train.id], connections)
+
+  // Frozen trains go first, onto their previous platform: held there when an earlier frozen train is in the way, and
+  // treated like any other train when the platform cannot take them at all or is blocked before they arrive
+  const platformWithId = (id: number): Platform | undefined => {
+    const open = platforms.find((pl) => pl.id === id)
+    if (open || platforms.length >= platformCount) return open
+    if (!inventory) return { id, trains: [], nextFreeAt: Number.NEGATIVE_INFINITY }
+    return unopened().find((pl) => pl.id === id)
+  }
+  // Pinned trains go before frozen ones, at their effective arrival and without a hold: the override is a hard
+  // constraint, and whatever it breaks is reported (see overrideConflicts). Pins to platforms the station does not
+  // have are left to the normal placement.
+  for (const train of queue.filter((t) => pinned[t.id] !== undefined)) {
+    const pl = platformWithId(pinned[train.id])
+    if (!pl) continue
+    queue.splice(queue.findIndex((t) => t.id === train.id), 1)
+    place(pl, { ...train, pinned: true }, "pinned", 0)
+  }
+
+  const frozen = frozenPlatforms(queue, options)
+  for (const train of queue.filter((t) => frozen.has(t.id))) {
+    const pl = platformWithId(frozen.get(train.id)!)
+    if (!pl || !isCompatible(train, pl.spec)) continue
+    // a platform taken out of use under a train still to come releases it; berthed trains ignore the blockage
+    const berthed = options.now !== undefined && train.effectiveArrival <= options.now
+    if (!berthed && occupationConflicts(train, pl, platforms, rules).some((c) => c.kind === "blocked")) continue
+    const own = berthed ? { ...rules, blocks: [] } : rules
+    const at = earliestConflictFreeArrival(train, pl, platforms, own, train.effectiveArrival)
+    if (at === undefined) continue
+    const held = at > train.effectiveArrival
+    const decision = at - train.effectiveArrival <= maxHoldMinutes ? "hold" : "shift"
+    const placed = held ? holdUntil(train, at, decision, rules) : train
+    queue.splice(queue.findIndex((t) => t.id === train.id), 1)
+    place(pl, { ...placed, frozen: true }, "frozen", 0)
+  }
+
+  while (queue.length > 0) {
+    const train = queue.shift()!
+    let best: Platform | undefined
+    let bestScore = Number.POSITIVE_INFINITY
+
+    // an unopened previous platform competes with the open ones, so keeping the train there can beat moving it
+    const previous = previousPlatforms[train.id]
+    const reopen =
+      previous !== undefined && !platforms.some((pl) => pl.id === previous) ? platformWithId(previous) : undefined
+
+    // feasibility: platform must be compatible and conflict-free, clearance buffers included; the lowest score wins
+    const candidates: PlatformCandidate[] = []
+    for (const pl of reopen ? [...platforms, reopen] : platforms) {
+      const candidate = evaluate(train, pl)
+      candidates.push(candidate)
+      if (candidate.score !== undefined && candidate.score < bestScore) {
+        bestScore = candidate.score
+        best = pl
+      }
+    }
+
+    // a rake turning round stays on its inbound's platform when that can take the outbound service
+    const inboundId = inboundOf.get(train.id)
+    const rakeOn = platforms.find((pl) => pl.trains.some((t) => t.id === inboundId))
+    const rakeScore = candidates.find((c) => c.platformId === rakeOn?.id)?.score
+    if (rakeOn && rakeScore !== undefined) {
+      rakeOn.trains = rakeOn.trains.map((t) => (t.id === inboundId ? { ...t, turnaroundWith: train.id } : t))
+      place(rakeOn, { ...train, turnaroundWith: inboundId }, "turnaround", rakeScore, candidates)
+      continue
+    }
+
+    if (best) {
+      place(best, train, best === reopen ? "opened-platform" : "best-score", bestScore, candidates)
+      continue
+    }
+
+    // the first unopened platform that fits is opened; the ones ruled out before it are reported too
+    let fresh: Platform | undefined
+    for (const pl of unopened(train)) {
+      const candidate = evaluate(train, pl)
+      candidates.push(candidate)
+      if (candidate.score !== undefined) {
+        fresh = pl
+        place(pl, train, "opened-platform", candidate.score, candidates)
+        break
+      }
+    }
+    if (fresh) continue
+
+    // No platform can take the train on time: find the earliest conflict-free arrival on every compatible
+    // platform, opened or not, and compare holding for it with bumping the last, lower-priority occupant of
+    // a platform. Costs are departure delay minutes, after what the dwell recovers, weighted by the priority of the
+    // train that absorbs them.
+    let holdOn: Platform | undefined
+    let holdUntilAt = Number.POSITIVE_INFINITY
+    for (const pl of [...platforms, ...unopened(train)]) {
+      if (!isCompatible(train, pl.spec)) continue
+      const at = earliestConflictFreeArrival(train, pl, platforms, rules, train.effectiveArrival)
+      if (at !== undefined && at < holdUntilAt) {
+        holdOn = pl
+        holdUntilAt = at
+      }
+    }
+    if (!holdOn) {
+      // empty inventory, or no conflict-free slot within reach
+      unassigned.push({ train, reasons: [] })
+      continue
+    }
+
+    const holdDelay = holdUntilAt - train.effectiveArrival
+    // departure minutes a wait until `at` adds to `t`
+    const lateBy = (t: AssignedTrain, at: number) =>
+      earliestDeparture(t, Math.max(at, t.effectiveArrival), rules) - t.effectiveDeparture
+    let bumpIdx = -1
+    let bestCost = priority(train) * lateBy(train, holdUntilAt)
+
+    for (let i = 0; i < platforms.length; i++) {
+      const pl = platforms[i]
+      const victim = pl.trains[pl.trains.length - 1]
+      if (!isCompatible(train, pl.spec) || victim.frozen || victim.pinned || victim.turnaroundWith) continue
+      if (priority(victim) >= priority(train)) continue
+      // without the victim, the platform must be free and conflict-free by this train's arrival
+      pl.trains.pop()
+      const free = pl.trains.every((t) => occupiedUntil(t, pl.spec, rules) <= train.effectiveArrival)
+      const fits = free && fitsOn(train, pl)
+      pl.trains.push(victim)
+      if (!fits) continue
+      // the victim waits until this train leaves or another platform frees, whichever is first
+      const otherFreeAt = Math.min(
+        occupiedUntil(train, pl.spec, rules),
+        ...platforms.filter((other, j) => j !== i && isCompatible(victim, other.spec)).map((other) => other.nextFreeAt),
+      )
+      const cost = priority(victim) * lateBy(victim, otherFreeAt)
+      if (cost < bestCost) {
+        bestCost = cost
+        bumpIdx = i
+      }
+    }
+
+    if (bumpIdx >= 0) {
+      const pl = platforms[bumpIdx]
+      const victim = pl.trains.pop()!
+      // the platform frees when what is left on it does, not when the victim would have
+      pl.nextFreeAt = Math.max(Number.NEGATIVE_INFINITY, ...pl.trains.map((t) => occupiedUntil(t, pl.spec, rules)))
+      assignments = assignments.filter((a) => a.trainId !== victim.id)
+      place(pl, train, "overflow", 0, candidates)
+      enqueue(queue, { ...holdUntil(victim, train.effectiveArrival, "bump", rules), bumpedBy: train.id })
+      continue
+    }
+
+    // the candidates show why no platform could take the train at its arrival
+    const held = holdUntil(train, holdUntilAt, holdDelay <= maxHoldMinutes ? "hold" : "shift", rules)
+    place(holdOn, held, "overflow", 0, candidates)
+  }
+
+  platforms.sort((a, b) => a.id - b.id)
+  for (const pl of platforms) pl.trains.sort((a, b) => a.effectiveArrival - b.effectiveArrival)
+
+  const costBreakdown = planCostBreakdown(platforms, weights, rules, previousPlatforms, connections)
+  return {
+    solver: "greedy",
+    platforms,
+    assignments,
+    cost: costBreakdown.total,
+    costBreakdown,
+    totalExtraDelay: assignments.reduce((sum, a) => sum + a.extraDelay, 0),
+    unassigned,
+    changes: platformChanges(options.previousPlatforms, platforms),
+    classDelays: classDelays(platforms, weights.classWeights),
+    overrideConflicts: overrideConflicts(platforms, pinned, rules),
+    rakeLinkIssues: rakeLinkIssues(platforms, unassigned, rules),
+    connections: connectionStatuses(platforms, connections, rules, weights.classWeights),
+  }
+}
@@ -0,0 +1,42 @@
+import { readFileSync } from "node:fs"
+import { join } from "node:path"
+import { describe, expect, it } from "vitest"
+import { importGtfs } from "./gtfs"
+import { atClock, dayStart, toTimestamp } from "./time"
+
+const day = dayStart(toTimestamp(new Date(2025, 2, 1)))
+const fixture = (name: string) => readFileSync(join(__dirname, "../../public/fixtures/gtfs", name), "utf8")
+
+describe("importGtfs", () => {
+  it("turns the stop's calls in the sample feed into trains named from trips.txt", () => {
+    const files = { stopTimes: fixture("stop_times.txt"), trips: fixture("trips.txt") }
+    const { trains, errors } = importGtfs(files, "CEN", day)
+    expect(errors).toEqual([])
+    expect(trains[0]).toEqual({
+      id: "R1-0805",
+      name: "Red 101",
+      arrival: atClock(day, 8 * 60 + 20),
+      departure: atClock(day, 8 * 60 + 32),
+      delay: 0,
+      status: "on-time",
+      direction: "up",
+    })
+    expect(trains.map((t) => t.arrival)).toEqual([...trains.map((t) => t.arrival)].sort((a, b) => a - b))
+  })
+
+  it("fills a missing time from the other one and reads hours past 24 as the next day", () => {
+    const stopTimes = "trip_id,arrival_time,departure_time,stop_id\nT1,,24:30:00,CEN\nT2,bad,09:00:00,CEN\n"
+    const { trains, errors } = importGtfs({ stopTimes }, "CEN", day)
+    const halfPast = atClock(day, 24 * 60 + 30)
+    expect(trains).toMatchObject([{ id: "T1", arrival: halfPast, departure: halfPast }])
+    expect(halfPast - day).toBe(24 * 60 + 30)
+    expect(errors).toMatchObject([{ row: 2, field: "arrival_time" }])
+  })
+
+  it("reports a stop with no calls", () => {
+    expect(importGtfs({ stopTimes: fixture("stop_times.txt") }, "NOPE", day)).toMatchObject({
+      trains: [],
+      errors: [{ row: 0, field: "stop_id" }],
+    })
+  })
+})
@@ -0,0 +1,79 @@
+import { csvRecords, type ImportError, type ImportResult } from "./timetable"
+import { atClock, dayStart, parseClock } from "./time"
+import type { Direction, Train } from "./types"
+
+export type GtfsFiles = {
+  // contents of stop_times.txt
+  stopTimes: string
+  // contents of trips.txt; optional, used for train names and direction
+  trips?: string
+}
+
+// GTFS direction_id 0/1 to the station's up/down
+const GTFS_DIRECTIONS: Record<string, Direction> = { "0": "up", "1": "down" }
+
+// Trains calling at one stop of a GTFS static feed. Every stop_times.txt row for `stopId` becomes a train with
+// the trip id as its id; row numbers in errors refer to stop_times.txt data rows. GTFS times are relative to the
+// service day, which `serviceDay` (any timestamp on it, today when omitted) fixes.
+export function importGtfs(
+  { stopTimes, trips }: GtfsFiles,
+  stopId: string,
+  serviceDay: number = dayStart(),
+): ImportResult {
+  const tripRecords = new Map((trips ? csvRecords(trips) : []).map((t) => [t.trip_id, t]))
+  const rows = csvRecords(stopTimes)
+  const trains: Train[] = []
+  const errors: ImportError[] = []
+
+  if (rows.length > 0 && !("stop_id" in rows[0] && "trip_id" in rows[0])) {
+    return { trains, errors: [{ row: 0, message: "stop_times.txt needs trip_id and stop_id columns" }] }
+  }
+
+  rows.forEach((r, i) => {
+    if (r.stop_id !== stopId) return
+    const row = i + 1
+    // GTFS allows one of the two times to be empty at a timepoint-less stop; use the other one
+    const arrivalText = r.arrival_time || r.departure_time
+    const departureText = r.departure_time || r.arrival_time
+    const arrivalClock = arrivalText ? parseClock(arrivalText) : null
+    const departureClock = departureText ? parseClock(departureText) : null
+    const arrival = arrivalClock === null ? null : atClock(serviceDay, arrivalClock)
+    const departure = departureClock === null ? null : atClock(serviceDay, departureClock)
+
+    if (arrival === null) {
+      errors.push({ row, field: "arrival_time", message: `invalid time "${arrivalText ?? ""}"` })
+      return
+    }
+    if (departure === null) {
+      errors.push({ row, field: "departure_time", message: `invalid time "${departureText ?? ""}"` })
+      return
+    }
+    if (departure < arrival) {
+      errors.push({ row, field: "departure_time", message: "departure is before arrival" })
+      return
+    }
+    if (trains.some((t) => t.id === r.trip_id)) {
+      errors.push({ row, field: "trip_id", message: `trip ${r.trip_id} calls at stop ${stopId} twice` })
+      return
+    }
+
+    const trip = tripRecords.get(r.trip_id)
+    const direction = trip ? GTFS_DIRECTIONS[trip.direction_id] : undefined
+    trains.push({
+      id: r.trip_id,
+      name: trip?.trip_short_name || trip?.trip_headsign || r.trip_id,
+      arrival,
+      departure,
+      delay: 0,
+      status: "on-time",
+      ...(direction ? { direction } : {}),
+    })
+  })
+
+  if (trains.length === 0 && errors.length === 0) {
+    errors.push({ row: 0, field: "stop_id", message: `no stop_times.txt rows for stop ${stopId}` })
+  }
+
+  trains.sort((a, b) => a.arrival - b.arrival)
+  return { trains, errors }
+}
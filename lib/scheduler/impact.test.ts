@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest"
+import { assignPlatformsScoreBased } from "./greedy"
+import { planImpact } from "./impact"
+import { assignPlatformsOptimal } from "./optimal"
+import { platform, train } from "./testing"
+
+const trains = [train("A", 600, 620), train("B", 610, 630), train("C", 640, 650)]
+const platforms = [platform(1), platform(2)]
+
+describe("planImpact of a platform block", () => {
+  it.each([
+    ["greedy", assignPlatformsScoreBased],
+    ["optimal", assignPlatformsOptimal],
+  ])("lists the trains the %s solver moves off the blocked platform", (_, assign) => {
+    const before = assign(trains, undefined, { platforms })
+    const blocks = [{ platformId: 2, from: 605, to: 660, reason: "points failure" }]
+    const after = assign(trains, undefined, { platforms, rules: { blocks } })
+    expect(after.platforms.find((pl) => pl.id === 2)?.trains ?? []).toEqual([])
+    expect(planImpact(before, after)).toEqual([
+      { trainId: "B", fromPlatform: 2, toPlatform: 1, extraDelay: 10 },
+      { trainId: "C", fromPlatform: 2, toPlatform: 1, extraDelay: 0 },
+    ])
+  })
+
+  it("reports the wait of trains that keep their platform until the block ends", () => {
+    const before = assignPlatformsScoreBased(trains, undefined, { platforms })
+    const blocks = [
+      { platformId: 1, from: 0, to: Number.POSITIVE_INFINITY },
+      { platformId: 2, from: 635, to: 700 },
+    ]
+    const after = assignPlatformsScoreBased(trains, undefined, { platforms, platformCount: 2, rules: { blocks } })
+    expect(planImpact(before, after)).toEqual([
+      { trainId: "A", fromPlatform: 1, toPlatform: 2, extraDelay: 0 },
+      { trainId: "B", fromPlatform: 2, toPlatform: 2, extraDelay: 10 },
+      { trainId: "C", fromPlatform: 2, toPlatform: 2, extraDelay: 60 },
+    ])
+  })
+})
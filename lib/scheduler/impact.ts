@@ -0,0 +1,33 @@
+import type { AssignmentResult, TrainImpact } from "./types"
+
+function placements(result: AssignmentResult) {
+  return new Map(
+    result.platforms.flatMap((pl) => pl.trains.map((t) => [t.id, { platformId: pl.id, arrival: t.effectiveArrival }])),
+  )
+}
+
+// Trains whose platform or effective arrival differs between two plans of the same trains, in order of arrival in
+// `after`; trains that lost their platform come last. Trains in only one of the plans are left out.
+export function planImpact(before: AssignmentResult, after: AssignmentResult): TrainImpact[] {
+  const was = placements(before)
+  const now = placements(after)
+  const lost = new Set(after.unassigned.map((u) => u.train.id))
+  const impacts: { impact: TrainImpact; arrival: number }[] = []
+  for (const [trainId, old] of was) {
+    const placed = now.get(trainId)
+    if (placed) {
+      const extraDelay = placed.arrival - old.arrival
+      if (placed.platformId === old.platformId && extraDelay === 0) continue
+      impacts.push({
+        impact: { trainId, fromPlatform: old.platformId, toPlatform: placed.platformId, extraDelay },
+        arrival: placed.arrival,
+      })
+    } else if (lost.has(trainId)) {
+      impacts.push({
+        impact: { trainId, fromPlatform: old.platformId, extraDelay: 0 },
+        arrival: Number.POSITIVE_INFINITY,
+      })
+    }
+  }
+  return impacts.sort((a, b) => a.arrival - b.arrival).map(({ impact }) => impact)
+}
@@ -0,0 +1,206 @@
+export type {
+  AssignedTrain,
+  AssignOptions,
+  AssignmentReason,
+  AssignmentResult,
+  ClassDelay,
+  Conflict,
+  ConflictKind,
+  Connection,
+  ConnectionHold,
+  ConnectionState,
+  ConnectionStatus,
+  CostBreakdown,
+  Direction,
+  Incompatibility,
+  IncompatibilityCode,
+  OccupationRules,
+  OptimalAssignmentResult,
+  OptimalityGap,
+  OverflowDecision,
+  OverrideConflict,
+  Platform,
+  PlatformBlock,
+  PlatformCandidate,
+  PlatformChange,
+  PlatformPropagation,
+  PlatformSpec,
+  RakeLinkIssue,
+  RakeLinkIssueKind,
+  ScoreTerm,
+  ScoreTermKey,
+  ScoringWeights,
+  ServiceKind,
+  SolverKind,
+  Train,
+  TrainAssignment,
+  TrainClass,
+  TrainImpact,
+  TrainPropagation,
+  TrainState,
+  TrainStatus,
+  Traction,
+  UnassignedTrain,
+} from "./types"
+export {
+  CALIBRATION_OBJECTIVES,
+  DEFAULT_CALIBRATION_SAMPLES,
+  DEFAULT_GRID_LEVELS,
+  DEFAULT_REFINE_ROUNDS,
+  calibrateWeights,
+  calibrationTrialLimit,
+  type CalibrationDay,
+  type CalibrationObjective,
+  type CalibrationOptions,
+  type CalibrationReport,
+  type CalibrationSearch,
+  type CalibrationTrial,
+} from "./calibration"
+export { explainCompatibility, isCompatible, platformIncompatibilities } from "./compat"
+export {
+  AT_RISK_SLACK_MINUTES,
+  MAX_CONNECTION_HOLD_MINUTES,
+  TRANSFER_WALK_MINUTES,
+  connectionStatuses,
+  connectionWalk,
+  transferWalk,
+} from "./connections"
+export {
+  DEFAULT_CORRIDOR_ROUNDS,
+  corridorTrains,
+  runningAllowance,
+  sectionRunningMinutes,
+  solveCorridor,
+  type Corridor,
+  type CorridorOptions,
+  type CorridorPlan,
+  type CorridorRun,
+  type CorridorSection,
+  type CorridorStation,
+  type CorridorTrain,
+  type ProjectedCall,
+  type StationCall,
+  type StationPlan,
+} from "./corridor"
+export { planCost, planCostBreakdown } from "./cost"
+export { DEFAULT_MIN_DWELL_MINUTES, earliestDeparture, minimumDwell, recoveredMinutes } from "./dwell"
+export { evaluatePlatform, scoreTerms } from "./explain"
+export {
+  applyDelayEvent,
+  delayEventSchema,
+  delayScriptSchema,
+  parseDelayEvent,
+  randomDelayFeed,
+  scriptedDelayFeed,
+  streamDelayFeed,
+  type DelayEvent,
+  type DelayEventMessage,
+  type DelayFeed,
+  type DelayFeedHandlers,
+  type DelayScript,
+  type FeedStatus,
+  type RandomFeedOptions,
+  type ScriptedFeedOptions,
+} from "./feed"
+export {
+  DEFAULT_MAX_HOLD_MINUTES,
+  DEFAULT_WEIGHTS,
+  assignPlatformsScoreBased,
+  toAssignedTrain,
+  trainState,
+} from "./greedy"
+export { planImpact } from "./impact"
+export { assignPlatformsOptimal, platformLowerBound } from "./optimal"
+export {
+  clearanceAfter,
+  conflictMargin,
+  earliestConflictFreeArrival,
+  occupationConflicts,
+  occupiedUntil,
+  type Occupation,
+} from "./rules"
+export { importGtfs, type GtfsFiles } from "./gtfs"
+export {
+  EMPTY_OVERRIDE_HISTORY,
+  applyOverride,
+  clearOverrides,
+  overrideConflicts,
+  redoOverride,
+  undoOverride,
+  type OverrideHistory,
+  type Overrides,
+} from "./overrides"
+export { DEFAULT_CLASS_WEIGHTS, TRAIN_CLASSES, classDelays, trainClassOf, trainPriority } from "./priority"
+export { platformPropagation, propagateDelays, type PropagationOptions } from "./propagation"
+export { boardingFrom, formedBy, rakeInbounds, rakeLinkIssues, turnsRound } from "./rakes"
+export { randomInt, seededRandom, shuffled, type Random } from "./random"
+export {
+  applySectionHolds,
+  corridorWeightedDelay,
+  resolutionScorer,
+  sectionConflictKey,
+  sectionConflicts,
+  sectionMovements,
+  type ScoredResolution,
+  type SectionConflict,
+  type SectionConflictKind,
+  type SectionHold,
+  type SectionMovement,
+  type SectionResolution,
+} from "./sections"
+export {
+  decodeScenario,
+  delayClass,
+  encodeScenario,
+  parseScenario,
+  scenarioSchema,
+  simulateScenario,
+  simulationState,
+  type DelayDistribution,
+  type Scenario,
+  type ScenarioInput,
+  type SimulationStep,
+} from "./simulation"
+export { solve, type SolveOptions } from "./solve"
+export { DEFAULT_FREEZE_MINUTES, frozenPlatforms, platformChanges, platformsByTrain } from "./stability"
+export {
+  DEFAULT_WINDOW_LENGTH,
+  DEFAULT_WINDOW_START_CLOCK,
+  atClock,
+  dayOffset,
+  dayStart,
+  defaultWindow,
+  formatMinSec,
+  fromTimestamp,
+  parseClock,
+  parseTimestamp,
+  timestampToLabel,
+  timestampToLabelWithSeconds,
+  toDateTimeLocal,
+  toTimestamp,
+  windowEnd,
+  windowPercent,
+  windowSpan,
+  windowTicks,
+  type TimeWindow,
+} from "./time"
+export {
+  csvRecords,
+  importTimetableCsv,
+  importTimetableJson,
+  importTimetableRecords,
+  parseCsv,
+  timetableRowSchema,
+  type ImportError,
+  type ImportResult,
+  type TimetableRow,
+} from "./timetable"
+export {
+  DEFAULT_TRAIN_PASSENGERS,
+  planTotals,
+  totalsDelta,
+  trainPassengers,
+  withDefaultWeights,
+  type PartialWeights,
+  type PlanTotals,
+} from "./tuning"
@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest"
+import { assignPlatformsOptimal, platformLowerBound } from "./optimal"
+import { platform, train } from "./testing"
+
+describe("assignPlatformsOptimal", () => {
+  it("reaches the lower bound on platforms and is never worse than the greedy", () => {
+    const trains = [
+      train("A", 600, 630),
+      train("B", 605, 612),
+      train("C", 613, 640),
+      train("D", 631, 650),
+      train("E", 641, 660),
+    ]
+    const result = assignPlatformsOptimal(trains)
+    expect(result.platforms).toHaveLength(result.gap.lowerBound)
+    expect(result.gap.platformGap).toBeGreaterThanOrEqual(0)
+    expect(result.gap.costGap).toBeGreaterThanOrEqual(0)
+  })
+
+  it("starts a service formed by a rake at its inbound's departure", () => {
+    // B cannot turn round on A's short platform, so the colouring places it, not the greedy's turnaround
+    const trains = [
+      train("A", 600, 610, { formsTrain: "B", rakeLength: 100 }),
+      train("B", 620, 640, { rakeLength: 300 }),
+      train("C", 612, 618, { rakeLength: 100 }),
+    ]
+    const result = assignPlatformsOptimal(trains, undefined, {
+      platforms: [platform(1, { length: 150 }), platform(2, { length: 400 })],
+    })
+    const placed = new Map(result.platforms.flatMap((pl) => pl.trains.map((t) => [t.id, t])))
+    expect(placed.get("B")!.effectiveArrival).toBe(placed.get("A")!.effectiveDeparture)
+  })
+})
+
+describe("platformLowerBound", () => {
+  it("keeps a platform through the clearance buffer", () => {
+    const trains = [train("A", 600, 610), train("B", 612, 620)]
+    expect(platformLowerBound(trains)).toBe(1)
+    expect(platformLowerBound(trains, { clearance: 5 })).toBe(2)
+    // the least buffer any platform of the inventory gives
+    expect(platformLowerBound(trains, { clearance: 5 }, [platform(1), platform(2, { clearance: 0 })])).toBe(1)
+  })
+
+  it("occupies a platform with a turning rake from its inbound's departure, without clearance in between", () => {
+    const trains = [
+      train("A", 600, 610, { formsTrain: "B" }),
+      train("B", 630, 640),
+      train("C", 615, 625),
+    ]
+    expect(platformLowerBound(trains, { clearance: 5 })).toBe(2)
+    expect(platformLowerBound(trains.slice(0, 2), { clearance: 5 })).toBe(1)
+  })
+})
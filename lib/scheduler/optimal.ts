@@ -0,0 +1,361 @@
+import { isCompatible } from "./compat"
+import { connectionStatuses } from "./connections"
+import { planCost, planCostBreakdown } from "./cost"
+import { evaluatePlatform } from "./explain"
+import { DEFAULT_WEIGHTS, assignPlatformsScoreBased, toAssignedTrain } from "./greedy"
+import { overrideConflicts } from "./overrides"
+import { classDelays, trainPriority } from "./priority"
+import { clearanceAfter, occupationConflicts, occupiedUntil } from "./rules"
+import { formedBy, rakeInbounds, rakeLinkIssues } from "./rakes"
+import { platformChanges } from "./stability"
+import type {
+  AssignedTrain,
+  AssignOptions,
+  Connection,
+  OccupationRules,
+  OptimalAssignmentResult,
+  Platform,
+  PlatformSpec,
+  ScoringWeights,
+  Train,
+  TrainAssignment,
+} from "./types"
+
+const MAX_LOCAL_SEARCH_PASSES = 200
+
+// A platform being built up by the solver; `spec` is undefined for platforms opened on demand
+type Lane = {
+  id: number
+  spec?: PlatformSpec
+  trains: AssignedTrain[]
+}
+
+function nextLaneId(lanes: Lane[]) {
+  return Math.max(0, ...lanes.map((lane) => lane.id)) + 1
+}
+
+// `lane` must be one of `lanes`; `train` may already be on it
+function fits(train: AssignedTrain, lane: Lane, lanes: Lane[], rules: OccupationRules) {
+  return isCompatible(train, lane.spec) && occupationConflicts(train, lane, lanes, rules).length === 0
+}
+
+// Maximum number of trains occupying the station at the same minute. No plan can use fewer platforms. Occupations are
+// the colouring's: a service formed by a rake from its inbound's departure (formedBy), and every train until its
+// departure plus the least clearance buffer any platform would give it, except an inbound whose rake stays on to form
+// its outbound. Headway and throat only separate movements on different platforms, so they add nothing here.
+export function platformLowerBound(trains: Train[], rules: OccupationRules = {}, inventory?: PlatformSpec[]) {
+  const assigned = new Map(trains.map((t) => [t.id, toAssignedTrain(t, rules)]))
+  const inboundOf = rakeInbounds(trains)
+  const specs = inventory?.length ? inventory : [undefined]
+  const events: [number, number][] = []
+  for (const t of assigned.values()) {
+    const inbound = assigned.get(inboundOf.get(t.id) ?? "")
+    const occupation = inbound ? formedBy(t, inbound, rules) : t
+    const formsOutbound = t.formsTrain !== undefined && assigned.has(t.formsTrain)
+    const clearance = formsOutbound ? 0 : Math.min(...specs.map((spec) => clearanceAfter(t, spec, rules)))
+    events.push([occupation.effectiveArrival, 1], [occupation.effectiveDeparture + clearance, -1])
+  }
+  // departures before arrivals at the same minute: a platform freed at 10:00 can take a train arriving at 10:00
+  events.sort((a, b) => a[0] - b[0] || a[1] - b[1])
+  let current = 0
+  let peak = 0
+  for (const [, delta] of events) {
+    current += delta
+    peak = Math.max(peak, current)
+  }
+  return peak
+}
+
+// Interval-graph colouring: sorted by arrival, each train takes the platform that has been free the longest.
+// Without an inventory or occupation rules this uses exactly platformLowerBound() platforms. With platform specs,
+// trains only take compatible, conflict-free platforms (used ones before unused ones); returns null when some
+// train would have to wait. `fixed` lanes (pinned and frozen trains) are copied in before colouring.
+function colourIntervals(
+  trains: AssignedTrain[],
+  rules: OccupationRules,
+  inventory: PlatformSpec[] | undefined,
+  fixed: Lane[],
+): Lane[] | null {
+  const sorted = [...trains].sort((a, b) => a.effectiveArrival - b.effectiveArrival)
+  const lanes: Lane[] = inventory ? inventory.map((spec) => ({ id: spec.id, spec, trains: [] })) : []
+  for (const f of fixed) {
+    const lane = lanes.find((l) => l.id === f.id)
+    if (lane) lane.trains.push(...f.trains)
+    else lanes.push({ ...f, trains: [...f.trains] })
+  }
+  // latest end among trains arriving before `t` (frozen trains may already sit later on the lane)
+  const freeAt = (lane: Lane, t: AssignedTrain) => {
+    const before = lane.trains.filter((o) => o.effectiveArrival <= t.effectiveArrival)
+    return Math.max(...before.map((o) => occupiedUntil(o, lane.spec, rules)), Number.NEGATIVE_INFINITY)
+  }
+  for (const train of sorted) {
+    let best: Lane | undefined
+    for (const lane of lanes) {
+      if (!fits(train, lane, lanes, rules)) continue
+      const used = lane.trains.length > 0
+      const bestUsed = best !== undefined && best.trains.length > 0
+      const earlier = used === bestUsed && best !== undefined && freeAt(lane, train) < freeAt(best, train)
+      if (!best || (used && !bestUsed) || earlier) best = lane
+    }
+    if (best) {
+      best.trains.push(train)
+    } else if (!inventory) {
+      // a new platform, skipping ids that are blocked during the train's stay
+      const lane: Lane = { id: nextLaneId(lanes), trains: [train] }
+      while (!fits(train, lane, [...lanes, lane], rules)) lane.id++
+      lanes.push(lane)
+    } else {
+      return null
+    }
+  }
+  return lanes
+}
+
+function toPlatforms(lanes: Lane[], rules: OccupationRules): Platform[] {
+  return lanes
+    .filter((lane) => lane.trains.length > 0)
+    .map((lane) => {
+      const ordered = [...lane.trains].sort((a, b) => a.effectiveArrival - b.effectiveArrival)
+      return {
+        id: lane.id,
+        trains: ordered,
+        nextFreeAt: Math.max(...ordered.map((t) => occupiedUntil(t, lane.spec, rules))),
+        spec: lane.spec,
+      }
+    })
+    .sort((a, b) => a.id - b.id)
+}
+
+function laneCost(
+  lanes: Lane[],
+  weights: ScoringWeights,
+  rules: OccupationRules,
+  previous: Record<string, number>,
+  connections: Connection[],
+) {
+  return planCost(toPlatforms(lanes, rules), weights, rules, previous, connections)
+}
+
+// pinned and frozen trains, and rakes turning round, stay where the greedy put them
+function isFixed(t: AssignedTrain) {
+  return t.frozen || t.pinned || t.turnaroundWith !== undefined
+}
+
+function usedLanes(lanes: Lane[]) {
+  return lanes.filter((lane) => lane.trains.length > 0).length
+}
+
+// hold delay minutes weighted by the priority of the trains that absorb them
+function weightedExtraDelay(lanes: Lane[], weights: ScoringWeights) {
+  return lanes.reduce(
+    (sum, lane) => sum + lane.trains.reduce((s, t) => s + trainPriority(t, weights.classWeights) * t.heldMinutes, 0),
+    0,
+  )
+}
+
+// First-improvement local search over two neighbourhoods:
+// - move one train to another platform
+// - swap two trains between platforms
+// A move is accepted only if every platform stays conflict-free and the plan gets strictly better:
+// fewer platforms used, or as many platforms at a lower cost. Pinned and frozen trains are never moved.
+function improve(
+  lanes: Lane[],
+  weights: ScoringWeights,
+  rules: OccupationRules,
+  previous: Record<string, number>,
+  connections: Connection[],
+) {
+  let cost = laneCost(lanes, weights, rules, previous, connections)
+  let used = usedLanes(lanes)
+  const better = (next: Lane[], nextCost: number) => {
+    const nextUsed = usedLanes(next)
+    return nextUsed < used || (nextUsed === used && nextCost < cost)
+  }
+  const copy = () => lanes.map((lane) => ({ ...lane, trains: [...lane.trains] }))
+
+  for (let pass = 0; pass < MAX_LOCAL_SEARCH_PASSES; pass++) {
+    let improved = false
+
+    for (let from = 0; from < lanes.length && !improved; from++) {
+      for (const train of lanes[from].trains) {
+        if (isFixed(train)) continue
+        for (let to = 0; to < lanes.length && !improved; to++) {
+          if (to === from || !isCompatible(train, lanes[to].spec)) continue
+          const next = copy()
+          next[from].trains = next[from].trains.filter((t) => t !== train)
+          next[to].trains.push(train)
+          if (!fits(train, next[to], next, rules)) continue
+          const nextCost = laneCost(next, weights, rules, previous, connections)
+          if (better(next, nextCost)) {
+            lanes = next
+            cost = nextCost
+            used = usedLanes(next)
+            improved = true
+          }
+        }
+        if (improved) break
+      }
+    }
+
+    for (let a = 0; a < lanes.length && !improved; a++) {
+      for (let b = a + 1; b < lanes.length && !improved; b++) {
+        for (const ta of lanes[a].trains) {
+          for (const tb of lanes[b].trains) {
+            if (isFixed(ta) || isFixed(tb)) continue
+            if (!isCompatible(tb, lanes[a].spec) || !isCompatible(ta, lanes[b].spec)) continue
+            const next = copy()
+            next[a].trains = [...next[a].trains.filter((t) => t !== ta), tb]
+            next[b].trains = [...next[b].trains.filter((t) => t !== tb), ta]
+            if (!fits(tb, next[a], next, rules) || !fits(ta, next[b], next, rules)) continue
+            const nextCost = laneCost(next, weights, rules, previous, connections)
+            if (better(next, nextCost)) {
+              lanes = next
+              cost = nextCost
+              used = usedLanes(next)
+              improved = true
+              break
+            }
+          }
+          if (improved) break
+        }
+      }
+    }
+
+    if (!improved) break
+  }
+
+  return lanes
+}
+
+// Optimal platform assignment:
+// - Minimise platforms used first (interval-graph colouring reaches the lower bound)
+// - Then minimise the weighted idle-gap/load/delayed-spread/margin/connection cost with local search
+// - Report the gap against the greedy scorer on the same trains and weights
+// With a fixed inventory, a colouring that needs no holds is tried first; otherwise the greedy's hold/shift/bump
+// decisions are kept and the resulting (re-timed) occupations are re-optimised within the inventory.
+// Pinned trains, rakes the greedy turned round on one platform, and with a previous plan the greedy's frozen trains,
+// stay where the greedy put them; platform changes are part of the cost.
+export function assignPlatformsOptimal(
+  trains: Train[],
+  weights: ScoringWeights = DEFAULT_WEIGHTS,
+  options: AssignOptions = {},
+): OptimalAssignmentResult {
+  const { rules = {}, previousPlatforms = {}, connections = [] } = options
+  const greedy = assignPlatformsScoreBased(trains, weights, options)
+  const inventory = options.platforms?.slice(0, options.platformCount)
+  const capacity = inventory?.length ?? options.platformCount ?? Number.POSITIVE_INFINITY
+  const lowerBound = platformLowerBound(trains, rules, inventory)
+
+  // pinned and frozen trains keep the greedy's (that is, their pinned or previous) platform
+  const fixed: Lane[] = greedy.platforms
+    .map((pl) => ({ id: pl.id, spec: pl.spec, trains: pl.trains.filter(isFixed) }))
+    .filter((lane) => lane.trains.length > 0)
+  const skipIds = new Set([
+    ...greedy.unassigned.map((u) => u.train.id),
+    ...fixed.flatMap((lane) => lane.trains.map((t) => t.id)),
+  ])
+  // outbound services of a rake occupy their platform from the inbound's departure, as in the greedy; a fixed inbound
+  // as the greedy placed it
+  const fixedTrains = new Map(fixed.flatMap((lane) => lane.trains.map((t) => [t.id, t])))
+  const assigned = new Map(trains.map((t) => [t.id, toAssignedTrain(t, rules)]))
+  const inboundOf = rakeInbounds(trains)
+  const onTime = trains
+    .filter((t) => !skipIds.has(t.id))
+    .map((t) => {
+      const inboundId = inboundOf.get(t.id) ?? ""
+      const inbound = fixedTrains.get(inboundId) ?? (skipIds.has(inboundId) ? undefined : assigned.get(inboundId))
+      return inbound ? formedBy(assigned.get(t.id)!, inbound, rules) : assigned.get(t.id)!
+    })
+  const retimed = greedy.platforms.flatMap((pl) => pl.trains.filter((t) => !isFixed(t)))
+  const withinCapacity = (lanes: Lane[] | null) => (lanes && usedLanes(lanes) <= capacity ? lanes : null)
+  const coloured =
+    withinCapacity(colourIntervals(onTime, rules, inventory, fixed)) ??
+    withinCapacity(colourIntervals(retimed, rules, inventory, fixed))
+
+  // Greedy plan as lanes, with the inventory platforms it did not open as empty lanes
+  const greedyLanes: Lane[] = greedy.platforms.map((pl) => ({ id: pl.id, spec: pl.spec, trains: [...pl.trains] }))
+  for (const spec of inventory ?? []) {
+    if (!greedy.platforms.some((pl) => pl.id === spec.id)) greedyLanes.push({ id: spec.id, spec, trains: [] })
+  }
+
+  // Start local search from whichever of the colouring and the greedy plan adds less priority-weighted hold delay,
+  // then uses fewer platforms, then costs less (the greedy when no colouring fits), so the result is never worse
+  // than the greedy.
+  let start = greedyLanes
+  if (coloured) {
+    const key = (lanes: Lane[]) => [
+      weightedExtraDelay(lanes, weights),
+      usedLanes(lanes),
+      laneCost(lanes, weights, rules, previousPlatforms, connections),
+    ]
+    const [cd, cu, cc] = key(coloured)
+    const [gd, gu, gc] = key(greedyLanes)
+    if (cd < gd || (cd === gd && (cu < gu || (cu === gu && cc <= gc)))) start = coloured
+  }
+
+  const platforms = toPlatforms(improve(start, weights, rules, previousPlatforms, connections), rules)
+  // platforms opened on demand are numbered 1..n, unless ids have to match a previous plan, the pins or the blocks
+  const keepIds = options.previousPlatforms || options.pinned || rules.blocks?.length
+  if (!inventory && !keepIds) platforms.forEach((pl, i) => (pl.id = i + 1))
+  const costBreakdown = planCostBreakdown(platforms, weights, rules, previousPlatforms, connections)
+  const cost = costBreakdown.total
+
+  // Each placement is explained against the finished plan: every platform, the inventory's empty ones included, as
+  // if the train were moved there with everything else in place
+  const explained: Platform[] = [
+    ...platforms,
+    ...(inventory ?? [])
+      .filter((spec) => !platforms.some((pl) => pl.id === spec.id))
+      .map((spec) => ({ id: spec.id, trains: [], nextFreeAt: Number.NEGATIVE_INFINITY, spec })),
+  ]
+  const candidatesFor = (train: AssignedTrain) =>
+    train.pinned || train.frozen
+      ? []
+      : explained.map((pl) =>
+          evaluatePlatform(train, pl, platforms, rules, weights, previousPlatforms[train.id], connections),
+        )
+
+  const assignments: TrainAssignment[] = platforms
+    .flatMap((pl) => pl.trains.map((t) => ({ train: t, platformId: pl.id })))
+    .sort((a, b) => a.train.effectiveArrival - b.train.effectiveArrival)
+    .map(({ train, platformId }) => {
+      const candidates = candidatesFor(train)
+      return {
+        trainId: train.id,
+        platformId,
+        reason: train.pinned
+          ? "pinned"
+          : train.frozen
+            ? "frozen"
+            : train.turnaroundWith !== undefined && train.formsTrain !== train.turnaroundWith
+              ? "turnaround"
+              : "optimized",
+        score: candidates.find((c) => c.platformId === platformId)?.score ?? 0,
+        overflow: train.overflow,
+        extraDelay: train.heldMinutes,
+        candidates,
+      }
+    })
+
+  return {
+    solver: "optimal",
+    platforms,
+    assignments,
+    cost,
+    costBreakdown,
+    totalExtraDelay: assignments.reduce((sum, a) => sum + a.extraDelay, 0),
+    unassigned: greedy.unassigned,
+    changes: platformChanges(options.previousPlatforms, platforms),
+    classDelays: classDelays(platforms, weights.classWeights),
+    overrideConflicts: overrideConflicts(platforms, options.pinned ?? {}, rules),
+    rakeLinkIssues: rakeLinkIssues(platforms, greedy.unassigned, rules),
+    connections: connectionStatuses(platforms, connections, rules, weights.classWeights),
+    gap: {
+      lowerBound,
+      greedyPlatforms: greedy.platforms.length,
+      greedyCost: greedy.cost,
+      platformGap: greedy.platforms.length - platforms.length,
+      costGap: greedy.cost - cost,
+    },
+  }
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest"
+import { assignPlatformsScoreBased } from "./greedy"
+import { assignPlatformsOptimal } from "./optimal"
+import { EMPTY_OVERRIDE_HISTORY, applyOverride, clearOverrides, redoOverride, undoOverride } from "./overrides"
+import { platform, train } from "./testing"
+
+const trains = [train("A", 600, 620), train("B", 610, 630), train("C", 640, 650)]
+const platforms = [platform(1), platform(2)]
+
+describe("pinned trains", () => {
+  it.each([
+    ["greedy", assignPlatformsScoreBased],
+    ["optimal", assignPlatformsOptimal],
+  ])("stay where the %s solver is told and the rest is planned around them", (_, assign) => {
+    const result = assign(trains, undefined, { platforms, pinned: { C: 1 } })
+    const platformOf = (id: string) => result.platforms.find((pl) => pl.trains.some((t) => t.id === id))?.id
+    expect(platformOf("C")).toBe(1)
+    expect(result.overrideConflicts).toEqual([])
+  })
+
+  it("are flagged with the trains they collide with", () => {
+    const result = assignPlatformsScoreBased(trains, undefined, { platforms, pinned: { A: 1, B: 1 } })
+    expect(result.overrideConflicts).toMatchObject([
+      { trainId: "A", platformId: 1, conflicts: [{ kind: "clearance", trainId: "B" }] },
+      { trainId: "B", platformId: 1, conflicts: [{ kind: "clearance", trainId: "A" }] },
+    ])
+  })
+
+  it("report a platform the station does not have", () => {
+    const result = assignPlatformsScoreBased(trains, undefined, { platforms, pinned: { A: 9 } })
+    expect(result.overrideConflicts).toMatchObject([
+      { trainId: "A", platformId: 9, conflicts: [{ kind: "incompatible" }] },
+    ])
+  })
+})
+
+describe("override history", () => {
+  it("undoes and redoes each override, and a new one drops the redo stack", () => {
+    let history = applyOverride(EMPTY_OVERRIDE_HISTORY, "A", 1)
+    history = applyOverride(history, "B", 2)
+    expect(history.present).toEqual({ A: 1, B: 2 })
+    history = undoOverride(history)
+    expect(history.present).toEqual({ A: 1 })
+    expect(redoOverride(history).present).toEqual({ A: 1, B: 2 })
+    history = applyOverride(history, "A")
+    expect(history).toMatchObject({ present: {}, future: [] })
+    expect(undoOverride(clearOverrides(applyOverride(history, "C", 1))).present).toEqual({ C: 1 })
+  })
+
+  it("records nothing for an override that changes nothing", () => {
+    const history = applyOverride(EMPTY_OVERRIDE_HISTORY, "A", 1)
+    expect(applyOverride(history, "A", 1)).toBe(history)
+    expect(undoOverride(EMPTY_OVERRIDE_HISTORY)).toBe(EMPTY_OVERRIDE_HISTORY)
+  })
+})
@@ -0,0 +1,70 @@
+import { platformIncompatibilities } from "./compat"
+import { occupationConflicts } from "./rules"
+import type { Conflict, OccupationRules, OverrideConflict, Platform } from "./types"
+
+// Dispatcher overrides: train id to the platform it is pinned to (AssignOptions.pinned)
+export type Overrides = Record<string, number>
+
+// Conflicts of every pinned train in the finished plan. A train that ended up on another platform than its pin
+// (the platform is not in the inventory) is reported as "incompatible". Pins of trains not in the plan are ignored.
+export function overrideConflicts(
+  platforms: Platform[],
+  pinned: Overrides,
+  rules: OccupationRules,
+): OverrideConflict[] {
+  const result: OverrideConflict[] = []
+  for (const pl of platforms) {
+    for (const t of pl.trains) {
+      const platformId = pinned[t.id]
+      if (platformId === undefined) continue
+      const conflicts: Conflict[] = []
+      if (platformId !== pl.id) {
+        conflicts.push({ kind: "incompatible", platformId, message: `platform ${platformId} is not available` })
+      } else {
+        for (const r of pl.spec ? platformIncompatibilities(t, pl.spec) : []) {
+          conflicts.push({ kind: "incompatible", platformId, message: r.message })
+        }
+        conflicts.push(...occupationConflicts(t, pl, platforms, rules))
+      }
+      if (conflicts.length > 0) result.push({ trainId: t.id, platformId, conflicts })
+    }
+  }
+  return result
+}
+
+// Undo/redo history of the overrides; `present` is what the engine plans with
+export type OverrideHistory = {
+  past: Overrides[]
+  present: Overrides
+  future: Overrides[]
+}
+
+export const EMPTY_OVERRIDE_HISTORY: OverrideHistory = { past: [], present: {}, future: [] }
+
+// Pins `trainId` to `platformId`, or releases it when platformId is undefined
+export function applyOverride(history: OverrideHistory, trainId: string, platformId?: number): OverrideHistory {
+  if (history.present[trainId] === platformId) return history
+  const present = { ...history.present }
+  if (platformId === undefined) delete present[trainId]
+  else present[trainId] = platformId
+  return { past: [...history.past, history.present], present, future: [] }
+}
+
+export function clearOverrides(history: OverrideHistory): OverrideHistory {
+  if (Object.keys(history.present).length === 0) return history
+  return { past: [...history.past, history.present], present: {}, future: [] }
+}
+
+export function undoOverride(history: OverrideHistory): OverrideHistory {
+  if (history.past.length === 0) return history
+  return {
+    past: history.past.slice(0, -1),
+    present: history.past[history.past.length - 1],
+    future: [history.present, ...history.future],
+  }
+}
+
+export function redoOverride(history: OverrideHistory): OverrideHistory {
+  if (history.future.length === 0) return history
+  return { past: [...history.past, history.present], present: history.future[0], future: history.future.slice(1) }
+}
@@ -0,0 +1,45 @@
+import type { ClassDelay, Platform, Train, TrainClass } from "./types"
+
+// Train classes, highest default priority first
+export const TRAIN_CLASSES: TrainClass[] = ["express", "special", "mail", "suburban", "freight"]
+
+export const DEFAULT_CLASS_WEIGHTS: Record<TrainClass, number> = {
+  express: 5,
+  special: 4,
+  mail: 3,
+  suburban: 2,
+  freight: 1,
+}
+
+export function trainClassOf(t: Pick<Train, "trainClass" | "service">): TrainClass {
+  return t.trainClass ?? (t.service === "goods" ? "freight" : "suburban")
+}
+
+// An explicit Train.priority wins over the class weight
+export function trainPriority(t: Train, classWeights: Record<TrainClass, number> = DEFAULT_CLASS_WEIGHTS) {
+  return t.priority ?? classWeights[trainClassOf(t)]
+}
+
+// Delay per class of a plan, highest class weight first. Extra minutes of a train bumped by a higher-priority train
+// count as pushed down.
+export function classDelays(
+  platforms: Platform[],
+  classWeights: Record<TrainClass, number> = DEFAULT_CLASS_WEIGHTS,
+): ClassDelay[] {
+  const trains = platforms.flatMap((pl) => pl.trains)
+  const byId = new Map(trains.map((t) => [t.id, t]))
+  const totals = new Map<TrainClass, ClassDelay>()
+  for (const t of trains) {
+    const trainClass = trainClassOf(t)
+    const row = totals.get(trainClass) ?? { trainClass, trains: 0, delay: 0, extraDelay: 0, pushedDown: 0 }
+    const bumper = t.bumpedBy ? byId.get(t.bumpedBy) : undefined
+    row.trains++
+    row.delay += t.delay
+    row.extraDelay += t.heldMinutes
+    if (bumper && trainPriority(bumper, classWeights) > trainPriority(t, classWeights)) row.pushedDown += t.heldMinutes
+    totals.set(trainClass, row)
+  }
+  return TRAIN_CLASSES.filter((c) => totals.has(c))
+    .sort((a, b) => classWeights[b] - classWeights[a])
+    .map((c) => totals.get(c)!)
+}
@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest"
+import { assignPlatformsScoreBased } from "./greedy"
+import { propagateDelays } from "./propagation"
+import { platform, train } from "./testing"
+import type { Train } from "./types"
+
+// every train on one platform, with a 2-minute clearance between them
+function propagate(trains: Train[]) {
+  const rules = { clearance: 2 }
+  const result = assignPlatformsScoreBased(trains, undefined, { platforms: [platform(1)], rules, maxHoldMinutes: 60 })
+  return new Map(propagateDelays(result.platforms, { rules }).map((p) => [p.trainId, p]))
+}
+
+describe("propagateDelays", () => {
+  it("passes a late departure on to the next train through the clearance buffer", () => {
+    const trains = propagate([train("A", 600, 610, { delay: 15, status: "delayed" }), train("B", 620, 630)])
+    expect(trains.get("A")).toMatchObject({
+      projectedDeparture: 617,
+      departureDelay: 7,
+      recovered: 8,
+      knockOnCaused: 0,
+    })
+    expect(trains.get("B")).toMatchObject({ knockOn: 0, departureDelay: 0 })
+
+    // A leaves 622 and clears the platform at 624, so the plan holds B for it; B's dwell absorbs the wait
+    const later = propagate([train("A", 600, 610, { delay: 20, status: "delayed" }), train("B", 620, 630)])
+    expect(later.get("B")).toMatchObject({ knockOn: 4, arrivalDelay: 4, departureDelay: 0, recovered: 4 })
+  })
+
+  it("adds no clearance and no knock-on for a rake turning round on time", () => {
+    const trains = propagate([train("A", 600, 610, { formsTrain: "B" }), train("B", 625, 640)])
+    expect(trains.get("B")).toMatchObject({
+      knockOn: 0,
+      knockOnFrom: undefined,
+      arrivalDelay: 0,
+      departureDelay: 0,
+      recovered: 0,
+    })
+    expect(trains.get("A")!.knockOnCaused).toBe(0)
+  })
+
+  it("measures a formed service's delay from its own arrival when the inbound runs late", () => {
+    // A arrives 650 and leaves 652; B's passengers are there from 625
+    const trains = propagate([
+      train("A", 600, 610, { formsTrain: "B", delay: 50, status: "delayed" }),
+      train("B", 625, 640),
+    ])
+    expect(trains.get("B")).toMatchObject({
+      knockOn: 27,
+      knockOnFrom: "A",
+      projectedArrival: 652,
+      projectedDeparture: 654,
+      departureDelay: 14,
+    })
+    expect(trains.get("A")!.knockOnCaused).toBe(27)
+  })
+})
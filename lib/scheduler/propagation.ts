@@ -0,0 +1,79 @@
+import { earliestDeparture } from "./dwell"
+import { boardingFrom, rakeInbounds, turnsRound } from "./rakes"
+import { clearanceAfter } from "./rules"
+import type { OccupationRules, Platform, PlatformPropagation, Train, TrainPropagation } from "./types"
+
+export type PropagationOptions = {
+  rules?: OccupationRules
+}
+
+// How delay moves through the plan, platform by platform in arrival order. Each train:
+// - arrives at its ETA (timetable plus reported delay), or later when the plan holds it or the train before it has
+//   not yet cleared the platform (departure plus clearance buffer); the wait is its knock-on delay
+// - departs at its timetabled departure, or after its minimum dwell (see minimumDwell) when it arrived too late for
+//   that; a late train recovers the dwell time it does not need
+// - then holds the platform until its own projected departure plus clearance, which may delay the next train
+// A service formed by a rake turning round (see formedBy) waits for its inbound's projected departure, with no
+// clearance between them, and its delays are measured from its own reported arrival, not the rake's.
+export function propagateDelays(platforms: Platform[], options: PropagationOptions = {}): TrainPropagation[] {
+  const { rules = {} } = options
+  const out: TrainPropagation[] = []
+  const inboundOf = rakeInbounds(platforms.flatMap((pl) => pl.trains))
+  for (const pl of platforms) {
+    const ordered = [...pl.trains].sort((a, b) => a.effectiveArrival - b.effectiveArrival)
+    let freeAt = Number.NEGATIVE_INFINITY
+    let previous: TrainPropagation | undefined
+    let previousTrain: Train | undefined
+    for (const t of ordered) {
+      const eta = t.arrival + t.delay
+      const turnaround = previousTrain !== undefined && turnsRound(previousTrain, t)
+      // when the train could be at the platform for its passengers, were nothing in the way
+      const ready = turnaround ? eta : boardingFrom(t, inboundOf)
+      if (turnaround && previous) freeAt = previous.projectedDeparture
+      const projectedArrival = Math.max(ready, freeAt)
+      const blocked = freeAt > ready
+      const scheduledDwell = t.departure - t.arrival
+      const projectedDeparture = earliestDeparture(t, projectedArrival, rules)
+      const arrivalDelay = projectedArrival - t.arrival
+      const departureDelay = projectedDeparture - t.departure
+      const current: TrainPropagation = {
+        trainId: t.id,
+        platformId: pl.id,
+        reportedDelay: t.delay,
+        knockOn: projectedArrival - eta,
+        knockOnFrom: blocked ? previous?.trainId : undefined,
+        projectedArrival,
+        arrivalDelay,
+        scheduledDwell,
+        projectedDwell: projectedDeparture - projectedArrival,
+        recovered: arrivalDelay - departureDelay,
+        projectedDeparture,
+        departureDelay,
+        knockOnCaused: 0,
+      }
+      if (blocked && previous) previous.knockOnCaused = freeAt - ready
+      out.push(current)
+      previous = current
+      previousTrain = t
+      freeAt = projectedDeparture + clearanceAfter(t, pl.spec, rules)
+    }
+  }
+  return out
+}
+
+// Totals per platform, in the order of `platforms`
+export function platformPropagation(platforms: Platform[], trains: TrainPropagation[]): PlatformPropagation[] {
+  return platforms.map((pl) => {
+    const own = trains.filter((t) => t.platformId === pl.id)
+    const sum = (key: "reportedDelay" | "knockOn" | "recovered" | "departureDelay") =>
+      own.reduce((s, t) => s + t[key], 0)
+    return {
+      platformId: pl.id,
+      trains: own.length,
+      reportedDelay: sum("reportedDelay"),
+      knockOn: sum("knockOn"),
+      recovered: sum("recovered"),
+      departureDelay: sum("departureDelay"),
+    }
+  })
+}
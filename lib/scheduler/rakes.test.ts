@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest"
+import { assignPlatformsScoreBased, toAssignedTrain } from "./greedy"
+import { boardingFrom, formedBy, rakeInbounds, rakeLinkIssues } from "./rakes"
+import { platform, train } from "./testing"
+
+describe("rakes", () => {
+  const inbound = train("A", 600, 610, { formsTrain: "B" })
+  const outbound = train("B", 625, 640)
+
+  it("forms the outbound service from the inbound's departure", () => {
+    const formed = formedBy(toAssignedTrain(outbound), toAssignedTrain(inbound), {})
+    expect(formed.effectiveArrival).toBe(610)
+    expect(formed.effectiveDeparture).toBe(640)
+    expect(rakeInbounds([inbound, outbound])).toEqual(new Map([["B", "A"]]))
+  })
+
+  it("lets passengers board a formed service at its own arrival, not the rake's", () => {
+    const formed = formedBy(toAssignedTrain(outbound), toAssignedTrain(inbound), {})
+    expect(boardingFrom(formed, rakeInbounds([inbound, outbound]))).toBe(625)
+    expect(boardingFrom(toAssignedTrain(inbound), rakeInbounds([inbound, outbound]))).toBe(600)
+  })
+
+  it("turns the rake round on its inbound's platform", () => {
+    const result = assignPlatformsScoreBased([inbound, outbound, train("C", 605, 615)])
+    const platformOf = new Map(result.assignments.map((a) => [a.trainId, a]))
+    expect(platformOf.get("B")).toMatchObject({ platformId: platformOf.get("A")!.platformId, reason: "turnaround" })
+    expect(rakeLinkIssues(result.platforms, result.unassigned)).toEqual([])
+  })
+
+  it("reports a rake shunted to another platform", () => {
+    const result = assignPlatformsScoreBased(
+      [train("A", 600, 610, { formsTrain: "B", rakeLength: 100 }), train("B", 620, 640, { rakeLength: 300 })],
+      undefined,
+      { platforms: [platform(1, { length: 150 }), platform(2, { length: 400 })] },
+    )
+    expect(rakeLinkIssues(result.platforms, result.unassigned)).toMatchObject([
+      { inboundId: "A", outboundId: "B", kind: "split" },
+    ])
+  })
+})
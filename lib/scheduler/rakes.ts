@@ -0,0 +1,80 @@
+import { earliestDeparture, minimumDwell } from "./dwell"
+import type { AssignedTrain, OccupationRules, Platform, RakeLinkIssue, Train, UnassignedTrain } from "./types"
+
+// Inbound train of every service formed by another train's rake (outbound id to inbound id)
+export function rakeInbounds(trains: Train[]): Map<string, string> {
+  return new Map(trains.flatMap((t) => (t.formsTrain === undefined ? [] : [[t.formsTrain, t.id] as const])))
+}
+
+// True when `a` and `b` are the two services of one rake turning round
+export function turnsRound(a: Train, b: Train) {
+  return a.formsTrain === b.id || b.formsTrain === a.id
+}
+
+// `outbound` formed by the rake of `inbound`: it occupies the platform from the inbound's departure on, and leaves
+// no earlier than its minimum dwell (the turnaround) after the later of that and its own reported arrival
+export function formedBy(outbound: AssignedTrain, inbound: AssignedTrain, rules: OccupationRules): AssignedTrain {
+  const ready = Math.max(inbound.effectiveDeparture, outbound.arrival + outbound.delay)
+  return {
+    ...outbound,
+    effectiveArrival: inbound.effectiveDeparture,
+    effectiveDeparture: earliestDeparture(outbound, ready, rules),
+  }
+}
+
+// When passengers can board `train`: its effective arrival, or for a service formed by a rake (which occupies the
+// platform from the inbound's departure, see formedBy) the later of that and its own reported arrival
+export function boardingFrom(train: AssignedTrain, inboundOf: Map<string, string>) {
+  if (!inboundOf.has(train.id)) return train.effectiveArrival
+  return Math.max(train.effectiveArrival, train.arrival + train.delay)
+}
+
+// Rake links of a finished plan that do not work as timetabled, in inbound arrival order
+export function rakeLinkIssues(
+  platforms: Platform[],
+  unassigned: UnassignedTrain[],
+  rules: OccupationRules = {},
+): RakeLinkIssue[] {
+  const platformOf = new Map<string, number>()
+  const placed = new Map<string, AssignedTrain>()
+  for (const pl of platforms) {
+    for (const t of pl.trains) {
+      platformOf.set(t.id, pl.id)
+      placed.set(t.id, t)
+    }
+  }
+  const inbounds = [...placed.values(), ...unassigned.map((u) => u.train)]
+    .filter((t) => t.formsTrain !== undefined)
+    .sort((a, b) => a.arrival - b.arrival)
+
+  const issues: RakeLinkIssue[] = []
+  for (const inbound of inbounds) {
+    const outboundId = inbound.formsTrain!
+    const link = { inboundId: inbound.id, outboundId }
+    const arrived = placed.get(inbound.id)
+    const outbound = placed.get(outboundId)
+    if (!arrived || !outbound) {
+      const missing = arrived ? outboundId : inbound.name
+      issues.push({ ...link, kind: "missing", message: `${missing} has no platform in the plan` })
+    } else if (platformOf.get(inbound.id) !== platformOf.get(outboundId)) {
+      issues.push({
+        ...link,
+        kind: "split",
+        message:
+          `the rake has to be shunted from platform ${platformOf.get(inbound.id)} to ` +
+          `platform ${platformOf.get(outboundId)} to form ${outbound.name}`,
+      })
+    } else if (
+      outbound.effectiveDeparture > outbound.departure &&
+      arrived.effectiveDeparture + minimumDwell(outbound, rules) > outbound.departure
+    ) {
+      const late = outbound.effectiveDeparture - outbound.departure
+      issues.push({
+        ...link,
+        kind: "late",
+        message: `${outbound.name} leaves ${late} min late: the rake arrives too late for the turnaround`,
+      })
+    }
+  }
+  return issues
+}
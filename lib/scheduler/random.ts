@@ -0,0 +1,31 @@
+// Seeded pseudo-random numbers for reproducible simulations. Same seed, same sequence, on every platform.
+
+// A source of numbers in [0, 1), like Math.random
+export type Random = () => number
+
+// mulberry32: small, fast and good enough for simulation draws (not for anything security related)
+export function seededRandom(seed: number): Random {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+// Integer in [min, max]
+export function randomInt(random: Random, min: number, max: number) {
+  return min + Math.floor(random() * (max - min + 1))
+}
+
+// Fisher–Yates shuffle into a new array
+export function shuffled<T>(items: T[], random: Random): T[] {
+  const out = [...items]
+  for (let i = out.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1))
+    ;[out[i], out[j]] = [out[j], out[i]]
+  }
+  return out
+}
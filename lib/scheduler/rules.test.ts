@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest"
+import { assignPlatformsScoreBased, toAssignedTrain } from "./greedy"
+import { clearanceAfter, earliestConflictFreeArrival, occupationConflicts, type Occupation } from "./rules"
+import { platform, train } from "./testing"
+import type { Train } from "./types"
+
+// platform `id` on approach track `approach`, occupied by `trains` at their timetabled times
+const on = (id: number, trains: Train[] = [], approach = "A"): Occupation => ({
+  id,
+  spec: platform(id, { approach }),
+  trains: trains.map((t) => toAssignedTrain(t)),
+})
+
+describe("occupationConflicts", () => {
+  const rules = { clearance: 3, headway: 2, throatConflicts: [[1, 3]] as [number, number][], throatWindow: 4 }
+
+  it("keeps the clearance buffer after a departure free", () => {
+    const own = on(1, [train("A", 600, 610)])
+    expect(occupationConflicts(toAssignedTrain(train("B", 612, 620)), own, [], rules)).toMatchObject([
+      { kind: "clearance", trainId: "A" },
+    ])
+    expect(occupationConflicts(toAssignedTrain(train("B", 613, 620)), own, [], rules)).toEqual([])
+  })
+
+  it("takes the larger of the platform's and the service's buffer", () => {
+    const goods = train("F", 600, 610, { service: "goods" })
+    expect(clearanceAfter(goods, platform(1, { clearance: 4 }), { clearanceByService: { goods: 6 } })).toBe(6)
+    expect(clearanceAfter(train("A", 600, 610), platform(1, { clearance: 4 }), { clearance: 2 })).toBe(4)
+  })
+
+  it("separates movements over a shared approach track by the headway", () => {
+    const other = on(2, [train("A", 600, 610)])
+    const own = on(1)
+    expect(occupationConflicts(toAssignedTrain(train("B", 601, 620)), own, [other], rules)).toMatchObject([
+      { kind: "headway", trainId: "A", platformId: 2 },
+    ])
+    expect(occupationConflicts(toAssignedTrain(train("B", 602, 620)), own, [other], rules)).toEqual([])
+  })
+
+  it("separates movements on crossing throat routes by the throat window", () => {
+    const other = on(3, [train("A", 600, 610)], "B")
+    const own = on(1)
+    expect(occupationConflicts(toAssignedTrain(train("B", 603, 620)), own, [other], rules)).toMatchObject([
+      { kind: "throat", trainId: "A" },
+    ])
+    expect(occupationConflicts(toAssignedTrain(train("B", 604, 620)), own, [other], rules)).toEqual([])
+  })
+
+  it("finds the earliest arrival that clears every rule", () => {
+    const own = on(1, [train("A", 600, 610)])
+    expect(earliestConflictFreeArrival(toAssignedTrain(train("B", 605, 620)), own, [], rules, 605)).toBe(613)
+  })
+
+  it("keeps the occupation and its clearance buffer off a blocked platform", () => {
+    const blocks = [{ platformId: 1, from: 612, to: 630, reason: "track work" }]
+    const a = toAssignedTrain(train("A", 600, 610))
+    expect(occupationConflicts(a, on(1), [], { ...rules, blocks })).toMatchObject([
+      { kind: "blocked", platformId: 1, message: "platform 1 is out of use (track work)" },
+    ])
+    expect(earliestConflictFreeArrival(a, on(1), [], { ...rules, blocks }, 600)).toBe(630)
+    const closed = [{ platformId: 1, from: 605, to: Number.POSITIVE_INFINITY }]
+    expect(earliestConflictFreeArrival(a, on(1), [], { ...rules, blocks: closed }, 600)).toBeUndefined()
+  })
+})
+
+describe("assignment under occupation rules", () => {
+  it("holds the next train on a single platform for the clearance buffer", () => {
+    const result = assignPlatformsScoreBased([train("A", 600, 610), train("B", 611, 625)], undefined, {
+      platforms: [platform(1)],
+      rules: { clearance: 3 },
+    })
+    expect(result.platforms[0].trains.map((t) => [t.id, t.effectiveArrival])).toEqual([
+      ["A", 600],
+      ["B", 613],
+    ])
+  })
+})
@@ -0,0 +1,201 @@
+import { earliestDeparture } from "./dwell"
+import { turnsRound } from "./rakes"
+import type { AssignedTrain, Conflict, OccupationRules, PlatformBlock, PlatformSpec, Train } from "./types"
+
+// The part of a platform the occupation rules look at; both Platform and the optimal solver's lanes fit it
+export type Occupation = {
+  id: number
+  spec?: PlatformSpec
+  trains: AssignedTrain[]
+}
+
+type Movement = {
+  time: number
+  label: "arrival" | "departure"
+}
+
+function movements(t: AssignedTrain): Movement[] {
+  return [
+    { time: t.effectiveArrival, label: "arrival" },
+    { time: t.effectiveDeparture, label: "departure" },
+  ]
+}
+
+function platformName(occupation: Occupation) {
+  return occupation.spec ? `platform ${occupation.spec.id}` : "another platform"
+}
+
+// Minutes a platform stays blocked after `train` departs: the larger of the platform's and the train class's buffer
+export function clearanceAfter(train: Train, spec: PlatformSpec | undefined, rules: OccupationRules) {
+  const platformBuffer = spec?.clearance ?? rules.clearance ?? 0
+  const classBuffer = rules.clearanceByService?.[train.service ?? "passenger"] ?? 0
+  return Math.max(platformBuffer, classBuffer)
+}
+
+// Departure plus clearance buffer
+export function occupiedUntil(train: AssignedTrain, spec: PlatformSpec | undefined, rules: OccupationRules) {
+  return train.effectiveDeparture + clearanceAfter(train, spec, rules)
+}
+
+// Blocks of the platform that overlap [from, to); platforms opened on demand are blocked by their id too
+function overlappingBlocks(own: Occupation, from: number, to: number, rules: OccupationRules) {
+  return (rules.blocks ?? []).filter((b) => b.platformId === own.id && from < b.to && b.from < to)
+}
+
+function describeBlock(block: PlatformBlock) {
+  return `platform ${block.platformId} is out of use${block.reason ? ` (${block.reason})` : ""}`
+}
+
+// Minimum minutes between movements of trains on platforms `a` and `b`, or 0 when they never interfere
+function separation(a: PlatformSpec | undefined, b: PlatformSpec | undefined, rules: OccupationRules) {
+  if (!a || !b || a.id === b.id) return { headway: 0, throat: 0 }
+  const headway = a.approach !== undefined && a.approach === b.approach ? (rules.headway ?? 0) : 0
+  const crossing = (rules.throatConflicts ?? []).some(
+    ([x, y]) => (x === a.id && y === b.id) || (x === b.id && y === a.id),
+  )
+  return { headway, throat: crossing ? (rules.throatWindow ?? 0) : 0 }
+}
+
+// Everything that stops `train` from occupying `own`:
+// - blocked: the occupation, clearance buffer included, overlaps a block of the platform
+// - clearance: overlaps another occupation of the same platform, including its clearance buffer (none between the two
+//   services of a rake turning round, see Train.formsTrain)
+// - headway: arrives or departs too close to a movement on another platform sharing its approach track
+// - throat: arrives or departs too close to a movement on a platform whose throat route crosses its own
+// `others` are the remaining platforms of the plan; `train` itself is ignored wherever it appears.
+export function occupationConflicts(
+  train: AssignedTrain,
+  own: Occupation,
+  others: Occupation[],
+  rules: OccupationRules,
+): Conflict[] {
+  const conflicts: Conflict[] = []
+  const trainEnd = occupiedUntil(train, own.spec, rules)
+
+  for (const block of overlappingBlocks(own, train.effectiveArrival, trainEnd, rules)) {
+    conflicts.push({ kind: "blocked", platformId: block.platformId, message: describeBlock(block) })
+  }
+
+  for (const o of own.trains) {
+    if (o.id === train.id) continue
+    const turnaround = turnsRound(o, train)
+    const otherEnd = turnaround ? o.effectiveDeparture : occupiedUntil(o, own.spec, rules)
+    if (train.effectiveArrival < otherEnd && o.effectiveArrival < (turnaround ? train.effectiveDeparture : trainEnd)) {
+      conflicts.push({
+        kind: "clearance",
+        trainId: o.id,
+        platformId: own.id,
+        message: `overlaps ${o.name} including the clearance buffer`,
+      })
+    }
+  }
+
+  for (const other of others) {
+    if (other === own) continue
+    const { headway, throat } = separation(own.spec, other.spec, rules)
+    if (headway === 0 && throat === 0) continue
+    for (const o of other.trains) {
+      if (o.id === train.id) continue
+      for (const m of movements(train)) {
+        for (const n of movements(o)) {
+          const dt = Math.abs(m.time - n.time)
+          if (dt < headway) {
+            conflicts.push({
+              kind: "headway",
+              trainId: o.id,
+              platformId: other.id,
+              message: `${m.label} within ${headway} min of ${o.name}'s ${n.label} on the shared approach`,
+            })
+          } else if (dt < throat) {
+            conflicts.push({
+              kind: "throat",
+              trainId: o.id,
+              platformId: other.id,
+              message: `${m.label} crosses ${o.name}'s ${n.label} to ${platformName(other)} in the throat`,
+            })
+          }
+        }
+      }
+    }
+  }
+
+  return conflicts
+}
+
+// How close a feasible occupation runs to the headway and throat limits: for every movement on an interfering
+// platform, the minutes short of twice the minimum separation. 0 when nothing is near.
+export function conflictMargin(train: AssignedTrain, own: Occupation, others: Occupation[], rules: OccupationRules) {
+  let margin = 0
+  for (const other of others) {
+    if (other === own) continue
+    const { headway, throat } = separation(own.spec, other.spec, rules)
+    const limit = Math.max(headway, throat)
+    if (limit === 0) continue
+    for (const o of other.trains) {
+      if (o.id === train.id) continue
+      for (const m of movements(train)) {
+        for (const n of movements(o)) {
+          margin += Math.max(0, 2 * limit - Math.abs(m.time - n.time))
+        }
+      }
+    }
+  }
+  return margin
+}
+
+const MAX_CONFLICT_STEPS = 50
+
+// Earliest arrival at or after `from` at which `train`, leaving as early as its dwell allows, has no conflicts on
+// `own`, or undefined when none is found within MAX_CONFLICT_STEPS steps.
+export function earliestConflictFreeArrival(
+  train: AssignedTrain,
+  own: Occupation,
+  others: Occupation[],
+  rules: OccupationRules,
+  from: number,
+) {
+  let arrival = Math.max(from, train.effectiveArrival)
+  for (let step = 0; step < MAX_CONFLICT_STEPS; step++) {
+    const moved = { ...train, effectiveArrival: arrival, effectiveDeparture: earliestDeparture(train, arrival, rules) }
+    const conflicts = occupationConflicts(moved, own, others, rules)
+    if (conflicts.length === 0) return arrival
+    // step past the earliest-ending blocker and try again
+    arrival += Math.max(1, Math.min(...conflicts.map((c) => conflictClearsIn(moved, c, own, others, rules))))
+    // an open-ended block never clears
+    if (!Number.isFinite(arrival)) return undefined
+  }
+  return undefined
+}
+
+// Minutes the arrival of `moved` has to move for `conflict` to clear
+function conflictClearsIn(
+  moved: AssignedTrain,
+  conflict: Conflict,
+  own: Occupation,
+  others: Occupation[],
+  rules: OccupationRules,
+) {
+  if (conflict.kind === "blocked") {
+    const blocks = overlappingBlocks(own, moved.effectiveArrival, occupiedUntil(moved, own.spec, rules), rules)
+    return blocks.length > 0 ? Math.max(...blocks.map((b) => b.to)) - moved.effectiveArrival : 1
+  }
+  if (conflict.kind === "clearance") {
+    const blocker = own.trains.find((t) => t.id === conflict.trainId)
+    if (!blocker) return 1
+    const end = turnsRound(blocker, moved) ? blocker.effectiveDeparture : occupiedUntil(blocker, own.spec, rules)
+    return end - moved.effectiveArrival
+  }
+  const other = others.find((o) => o.trains.some((t) => t.id === conflict.trainId))
+  const blocker = other?.trains.find((t) => t.id === conflict.trainId)
+  if (!other || !blocker) return 1
+  const { headway, throat } = separation(own.spec, other.spec, rules)
+  const limit = conflict.kind === "headway" ? headway : throat
+  // smallest forward shift that puts every movement pair at least `limit` apart
+  let shift = 1
+  for (const m of movements(moved)) {
+    for (const n of movements(blocker)) {
+      if (Math.abs(m.time - n.time) < limit) shift = Math.max(shift, n.time + limit - m.time)
+    }
+  }
+  return shift
+}
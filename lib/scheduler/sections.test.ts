@@ -0,0 +1,97 @@
+import { beforeEach, describe, expect, it, vi } from "vitest"
+import { solveCorridor, type Corridor, type CorridorTrain } from "./corridor"
+import { DEFAULT_CLASS_WEIGHTS } from "./priority"
+import { applySectionHolds, corridorWeightedDelay, resolutionScorer, sectionConflicts } from "./sections"
+import { platform } from "./testing"
+
+// count the corridor re-plans scoring makes
+vi.mock("./corridor", async (original) => {
+  const actual = await original<typeof import("./corridor")>()
+  return { ...actual, solveCorridor: vi.fn(actual.solveCorridor) }
+})
+
+// two stations on a single line, ten minutes apart; the second has one platform
+const corridor: Corridor = {
+  stations: [
+    { id: "a", name: "A", km: 0, platforms: [platform(1), platform(2)], dwell: 2 },
+    { id: "b", name: "B", km: 10, platforms: [platform(1)], dwell: 2 },
+  ],
+  sections: [{ runningMinutes: 10, allowanceMinutes: 0, tracks: 1 }],
+}
+
+function run(id: string, calls: [string, number, number][], extra: Partial<CorridorTrain> = {}): CorridorTrain {
+  return {
+    id,
+    name: id,
+    calls: calls.map(([stationId, arrival, departure]) => ({ stationId, arrival, departure })),
+    ...extra,
+  }
+}
+
+// D runs down from A at 600 while U runs up from B at 605: they meet on the line
+const trains = [
+  run("D", [
+    ["a", 590, 600],
+    ["b", 610, 615],
+  ]),
+  run(
+    "U",
+    [
+      ["b", 595, 605],
+      ["a", 615, 620],
+    ],
+    { direction: "up" },
+  ),
+]
+
+describe("sectionConflicts", () => {
+  const plan = solveCorridor(trains, corridor)
+  beforeEach(() => {
+    vi.mocked(solveCorridor).mockClear()
+  })
+
+  it("finds trains meeting on a single line", () => {
+    expect(sectionConflicts(plan, corridor)).toMatchObject([
+      { kind: "crossing", section: 0, trainIds: ["D", "U"], at: 605 },
+    ])
+  })
+
+  it("lists the holds resolving a conflict without re-planning the corridor", () => {
+    const [conflict] = sectionConflicts(plan, corridor)
+    expect(conflict.resolutions.map((r) => r.trainId)).toEqual(["U", "D"])
+    expect(solveCorridor).not.toHaveBeenCalled()
+  })
+})
+
+describe("resolutionScorer", () => {
+  const plan = solveCorridor(trains, corridor)
+  const [conflict] = sectionConflicts(plan, corridor)
+  beforeEach(() => {
+    vi.mocked(solveCorridor).mockClear()
+  })
+
+  it("scores each resolution by re-planning the corridor with its hold", () => {
+    const scored = resolutionScorer(plan, corridor, trains)(conflict.resolutions)
+    const before = corridorWeightedDelay(plan)
+    for (const r of scored) {
+      const held = solveCorridor(applySectionHolds(trains, [r]), corridor)
+      expect(r.weightedDelay).toBeCloseTo(corridorWeightedDelay(held) - before)
+    }
+    const weights = scored.map((r) => r.weightedDelay)
+    expect(weights).toEqual([...weights].sort((x, y) => x - y))
+  })
+
+  it("re-plans once per distinct hold", () => {
+    const score = resolutionScorer(plan, corridor, trains)
+    const first = score(conflict.resolutions)
+    expect(score(conflict.resolutions)).toEqual(first)
+    expect(score([conflict.resolutions[0]])).toEqual(first.filter((r) => r.trainId === conflict.resolutions[0].trainId))
+    expect(solveCorridor).toHaveBeenCalledTimes(2)
+  })
+
+  it("counts the knock-on a hold causes to other trains", () => {
+    // U waiting at B until D is off the line keeps B's only platform, so D is held outside B in turn
+    const holdU = resolutionScorer(plan, corridor, trains)(conflict.resolutions).find((r) => r.trainId === "U")!
+    expect(holdU.weightedDelay).toBeGreaterThan(holdU.minutes * DEFAULT_CLASS_WEIGHTS.suburban)
+  })
+})
@@ -0,0 +1,219 @@
+import {
+  sectionRunningMinutes,
+  solveCorridor,
+  type Corridor,
+  type CorridorOptions,
+  type CorridorPlan,
+  type CorridorTrain,
+} from "./corridor"
+import { DEFAULT_CLASS_WEIGHTS, trainPriority } from "./priority"
+import type { Train } from "./types"
+
+// Block-section occupancy on the line between the stations of a corridor. Trains cross and overtake only at
+// stations, so two movements conflict when
+// - "crossing": trains in opposite directions are in a single-line section at the same time
+// - "catch-up": a train would enter a block before the train ahead of it in the same direction (on the same track)
+//   has cleared it, e.g. a fast train catching a slow one
+// Each conflict comes with the holds that resolve it, one train waiting at the station before the section. Scoring a
+// hold re-plans the whole corridor, so it is left to resolutionScorer, for the conflicts a dispatcher looks at.
+
+export type SectionConflictKind = "crossing" | "catch-up"
+
+// A train's run over one section, as the corridor plan projects it
+export type SectionMovement = {
+  trainId: string
+  // index into Corridor.sections
+  section: number
+  up: boolean
+  // the call the train leaves for the section from; a hold there resolves conflicts on the section
+  fromStation: string
+  enter: number
+  exit: number
+}
+
+export type SectionResolution = {
+  trainId: string
+  // station the train waits at before the section
+  stationId: string
+  minutes: number
+  // the held departure from `stationId`
+  until: number
+}
+
+export type ScoredResolution = SectionResolution & {
+  // what the hold adds to the corridor's weighted delay (see corridorWeightedDelay), knock-on to other trains included
+  weightedDelay: number
+}
+
+export type SectionConflict = {
+  kind: SectionConflictKind
+  section: number
+  // "crossing": the train entering first, then the other; "catch-up": the train ahead, then the one catching it
+  trainIds: [string, string]
+  // when both first need the same block
+  at: number
+  message: string
+  // holding the second train, then the first
+  resolutions: SectionResolution[]
+}
+
+// A dispatcher's hold of a train at a corridor station, see applySectionHolds
+export type SectionHold = {
+  trainId: string
+  stationId: string
+  until: number
+}
+
+// Movements of every run over every section, split over the sections between two calls by minimum running time
+export function sectionMovements(plan: CorridorPlan, corridor: Corridor, trains: Map<string, Train>) {
+  const indexOf = new Map(corridor.stations.map((s, i) => [s.id, i]))
+  const movements: SectionMovement[] = []
+  for (const run of plan.runs) {
+    const train = trains.get(run.trainId)
+    if (!train) continue
+    run.calls.slice(1).forEach((reaches, k) => {
+      const leaves = run.calls[k]
+      const from = indexOf.get(leaves.stationId)!
+      const to = indexOf.get(reaches.stationId)!
+      const up = to < from
+      const crossed = up ? range(to, from).reverse() : range(from, to)
+      const running = crossed.map((i) => sectionRunningMinutes(corridor.sections[i], train))
+      const total = running.reduce((sum, r) => sum + r, 0)
+      const span = reaches.projectedArrival - leaves.projectedDeparture
+      let enter = leaves.projectedDeparture
+      crossed.forEach((section, j) => {
+        const exit = enter + (total > 0 ? (span * running[j]) / total : span / crossed.length)
+        movements.push({ trainId: run.trainId, section, up, fromStation: leaves.stationId, enter, exit })
+        enter = exit
+      })
+    })
+  }
+  return movements
+}
+
+function range(from: number, to: number) {
+  return Array.from({ length: to - from }, (_, i) => from + i)
+}
+
+// Entry and exit of each block of a movement, at an even pace through the section
+function blockTimes(m: SectionMovement, blocks: number) {
+  const step = (m.exit - m.enter) / blocks
+  return Array.from({ length: blocks }, (_, j) => ({ enter: m.enter + j * step, exit: m.enter + (j + 1) * step }))
+}
+
+// Least wait of `later` at its station so that it enters each block only after `first` has cleared it
+function waitBehind(first: SectionMovement, later: SectionMovement, blocks: number, headway: number) {
+  const a = blockTimes(first, blocks)
+  const b = blockTimes(later, blocks)
+  return Math.max(...a.map((block, j) => block.exit + headway - b[j].enter))
+}
+
+// Departure delay of every train at every call of the plan, times the train's priority
+export function corridorWeightedDelay(plan: CorridorPlan, options: Pick<CorridorOptions, "weights"> = {}) {
+  const classWeights = options.weights?.classWeights ?? DEFAULT_CLASS_WEIGHTS
+  const trains = new Map(plan.stations.flatMap((s) => s.trains.map((t) => [t.id, t])))
+  return plan.runs.reduce((sum, run) => {
+    const delay = run.calls.reduce((late, call) => late + Math.max(0, call.departureDelay), 0)
+    return sum + delay * trainPriority(trains.get(run.trainId)!, classWeights)
+  }, 0)
+}
+
+// Identifies a conflict across re-plans of the corridor
+export function sectionConflictKey(conflict: SectionConflict) {
+  return `${conflict.kind}-${conflict.section}-${conflict.trainIds.join("-")}`
+}
+
+// Conflicts of the corridor plan's runs on the line, each with the holds that resolve it
+export function sectionConflicts(plan: CorridorPlan, corridor: Corridor): SectionConflict[] {
+  const stationTrains = new Map(plan.stations.flatMap((s) => s.trains.map((t) => [t.id, t])))
+  const runs = new Map(plan.runs.map((r) => [r.trainId, r]))
+  const names = new Map(plan.runs.map((r) => [r.trainId, r.name]))
+  const movements = sectionMovements(plan, corridor, stationTrains)
+
+  // holding `m`'s train `minutes` at its station
+  const resolution = (m: SectionMovement, minutes: number): SectionResolution => {
+    const from = runs.get(m.trainId)!.calls.find((c) => c.stationId === m.fromStation)!
+    return { trainId: m.trainId, stationId: m.fromStation, minutes, until: from.projectedDeparture + minutes }
+  }
+
+  const conflicts: SectionConflict[] = []
+  corridor.sections.forEach((section, index) => {
+    const blocks = Math.max(1, section.blocks ?? 1)
+    const headway = section.headway ?? 0
+    const on = movements.filter((m) => m.section === index).sort((a, b) => a.enter - b.enter)
+    const where = `${corridor.stations[index].name}–${corridor.stations[index + 1].name}`
+    for (let i = 0; i < on.length; i++) {
+      for (let j = i + 1; j < on.length; j++) {
+        const [a, b] = [on[i], on[j]]
+        if (a.up !== b.up) {
+          if (section.tracks === 2 || b.enter >= a.exit + headway) continue
+          conflicts.push({
+            kind: "crossing",
+            section: index,
+            trainIds: [a.trainId, b.trainId],
+            at: b.enter,
+            message: `${names.get(a.trainId)} and ${names.get(b.trainId)} meet on the single line ${where}`,
+            resolutions: [
+              resolution(b, Math.ceil(a.exit + headway - b.enter)),
+              resolution(a, Math.ceil(b.exit + headway - a.enter)),
+            ],
+          })
+          continue
+        }
+        const behind = waitBehind(a, b, blocks, headway)
+        if (behind <= 0) continue
+        const overtakes = b.exit < a.exit
+        conflicts.push({
+          kind: "catch-up",
+          section: index,
+          trainIds: [a.trainId, b.trainId],
+          at: b.enter,
+          message: `${names.get(b.trainId)} catches ${names.get(a.trainId)} between ${where}${
+            overtakes ? " and would overtake it" : ""
+          }`,
+          resolutions: [
+            resolution(b, Math.ceil(behind)),
+            resolution(a, Math.ceil(waitBehind(b, a, blocks, headway))),
+          ],
+        })
+      }
+    }
+  })
+  return conflicts.sort((a, b) => a.at - b.at)
+}
+
+// Scores resolutions of the conflicts of `plan`, solveCorridor's plan of `trains` with `options`: each hold re-plans
+// the corridor with the same options, once per distinct hold however many conflicts it resolves. Lowest weighted
+// delay first.
+export function resolutionScorer(
+  plan: CorridorPlan,
+  corridor: Corridor,
+  trains: CorridorTrain[],
+  options: CorridorOptions = {},
+) {
+  const before = corridorWeightedDelay(plan, options)
+  const scored = new Map<string, number>()
+  const score = (hold: SectionResolution) => {
+    const key = `${hold.trainId}@${hold.stationId}@${hold.until}`
+    if (!scored.has(key)) {
+      const after = solveCorridor(applySectionHolds(trains, [hold]), corridor, options)
+      scored.set(key, corridorWeightedDelay(after, options) - before)
+    }
+    return scored.get(key)!
+  }
+  return (resolutions: SectionResolution[]): ScoredResolution[] =>
+    resolutions.map((r) => ({ ...r, weightedDelay: score(r) })).sort((a, b) => a.weightedDelay - b.weightedDelay)
+}
+
+// Corridor trains with the holds applied as departure holds of their calls; a call keeps a longer hold of its own
+export function applySectionHolds(trains: CorridorTrain[], holds: SectionHold[]): CorridorTrain[] {
+  if (holds.length === 0) return trains
+  return trains.map((train) => ({
+    ...train,
+    calls: train.calls.map((call) => {
+      const hold = holds.find((h) => h.trainId === train.id && h.stationId === call.stationId)
+      if (!hold) return call
+      return { ...call, departureHold: Math.max(call.departureHold ?? 0, hold.until - call.departure) }
+    }),
+  }))
+}
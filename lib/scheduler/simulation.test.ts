@@ -0,0 +1,108 @@
+import { describe, expect, it } from "vitest"
+import { seededRandom } from "./random"
+import {
+  decodeScenario,
+  encodeScenario,
+  parseScenario,
+  simulateScenario,
+  simulationState,
+  type ScenarioInput,
+} from "./simulation"
+import { train } from "./testing"
+import { atClock, dayStart, toTimestamp } from "./time"
+
+const day = dayStart(toTimestamp(new Date(2025, 2, 1)))
+const at = (h: number, m = 0) => atClock(day, h * 60 + m)
+
+const trains = [
+  train("1", at(8, 5), at(8, 25), { trainClass: "express" }),
+  train("2", at(8, 40), at(8, 50), { trainClass: "suburban" }),
+  train("3", at(9, 10), at(9, 30), { trainClass: "freight" }),
+]
+
+const scenario = (input: object) => {
+  const result = parseScenario({ name: "Test", ...input })
+  if (!("scenario" in result)) throw new Error(result.error)
+  return result.scenario
+}
+
+describe("seededRandom", () => {
+  it("repeats its sequence for the same seed", () => {
+    const a = seededRandom(42)
+    const b = seededRandom(42)
+    const draws = Array.from({ length: 5 }, () => a())
+    expect(Array.from({ length: 5 }, () => b())).toEqual(draws)
+    expect(seededRandom(43)()).not.toBe(draws[0])
+  })
+})
+
+describe("simulateScenario", () => {
+  const random = scenario({
+    seed: 7,
+    steps: 12,
+    delays: { "*": { distribution: "uniform", probability: 0.5, min: 1, max: 8 } },
+  })
+
+  it("gives the same steps for the same seed, whatever order the trains come in", () => {
+    const steps = simulateScenario(random, trains, day)
+    expect(steps.some((s) => s.events.length > 0)).toBe(true)
+    expect(simulateScenario(random, [...trains].reverse(), day)).toEqual(steps)
+    expect(simulateScenario(random, trains, day, 8)).not.toEqual(steps)
+  })
+
+  it("applies incidents and outages in the step they fall in", () => {
+    const steps = simulateScenario(
+      scenario({
+        steps: 6,
+        incidents: [{ at: "08:15", trainIds: ["2"], delay: 12, reason: "points failure" }],
+        outages: [{ platformId: 2, from: "08:25", to: "09:00" }],
+      }),
+      trains,
+      day,
+    )
+    expect(steps[1].events).toMatchObject([{ trainId: "2", eta: at(8, 52), reason: "points failure" }])
+    expect(steps[2].outages).toEqual([{ platformId: 2, from: at(8, 25), to: at(9, 0), reason: undefined }])
+
+    const state = simulationState(trains, steps, 3)
+    expect(state.trains.find((t) => t.id === "2")).toMatchObject({ delay: 12, status: "delayed" })
+    expect(state.blocks).toHaveLength(1)
+  })
+
+  it("fires incidents and outages at the very start of the scenario", () => {
+    const steps = simulateScenario(
+      scenario({
+        start: "08:00",
+        incidents: [{ at: "08:00", trainIds: ["1"], delay: 5, reason: "late crew" }],
+        outages: [{ platformId: 1, from: "08:00" }],
+      }),
+      trains,
+      day,
+    )
+    expect(steps[0].events).toMatchObject([{ trainId: "1", reason: "late crew" }])
+    expect(steps[0].outages).toMatchObject([{ platformId: 1, from: at(8, 0) }])
+  })
+})
+
+describe("parseScenario", () => {
+  it("rejects uniform delays with min above max and outages that end before they start", () => {
+    const uniform = { distribution: "uniform", probability: 1, min: 9, max: 2 }
+    expect(parseScenario({ name: "X", delays: { "*": uniform } })).toEqual({
+      error: "delays.*.max: min must not be above max",
+    })
+    expect(parseScenario({ name: "X", outages: [{ platformId: 1, from: "09:00", to: "09:00" }] })).toEqual({
+      error: "outages.0.to: an outage must end after it starts",
+    })
+  })
+})
+
+describe("share links", () => {
+  it("round-trip a scenario", () => {
+    const input: ScenarioInput = {
+      name: "Fog on the Ganges",
+      seed: 3,
+      delays: { "*": { distribution: "exponential", probability: 0.2, mean: 4 } },
+    }
+    expect(decodeScenario(encodeScenario(input))).toEqual(parseScenario(input))
+    expect(decodeScenario("not base64!")).toMatchObject({ error: expect.any(String) })
+  })
+})
@@ -0,0 +1,207 @@
+import { z } from "zod"
+import { applyDelayEvent, type DelayEvent } from "./feed"
+import { trainClassOf } from "./priority"
+import { seededRandom, type Random } from "./random"
+import { parseClock, parseTimestamp } from "./time"
+import type { PlatformBlock, Train } from "./types"
+
+// Scenario files: a seeded simulation of one operating period. Times are clock times on the service day or ISO
+// date-times, as in timetable imports.
+
+const time = z.string().refine((v) => parseTimestamp(v, 0) !== null, {
+  message: "expected a clock time such as 09:30 or an ISO date-time",
+})
+
+// How a class of trains picks up delay: every step, each train that has not arrived yet is hit with
+// `probability` and gets extra delay drawn from the distribution
+const delayDistributionSchema = z
+  .discriminatedUnion("distribution", [
+    z.object({
+      distribution: z.literal("uniform"),
+      probability: z.number().min(0).max(1),
+      min: z.number().nonnegative(),
+      max: z.number().nonnegative(),
+    }),
+    z.object({
+      distribution: z.literal("exponential"),
+      probability: z.number().min(0).max(1),
+      mean: z.number().positive(),
+      // cap on a single draw
+      max: z.number().positive().optional(),
+    }),
+  ])
+  .refine((d) => d.distribution !== "uniform" || d.min <= d.max, {
+    message: "min must not be above max",
+    path: ["max"],
+  })
+
+export const scenarioSchema = z.object({
+  name: z.string().min(1),
+  seed: z.number().int().default(1),
+  start: time.default("08:00"),
+  stepMinutes: z.number().positive().default(10),
+  steps: z.number().int().positive().max(1000).default(24),
+  // keyed by train class (see delayClass); "*" applies to classes without their own entry
+  delays: z.record(z.string(), delayDistributionSchema).default({}),
+  // delay added to the listed trains at a given time
+  incidents: z
+    .array(
+      z.object({
+        at: time,
+        trainIds: z.array(z.string().min(1)).min(1),
+        delay: z.number().positive(),
+        reason: z.string().min(1),
+      }),
+    )
+    .default([]),
+  // platform out of use from `from`, until `to` or the end of the day
+  outages: z
+    .array(
+      z
+        .object({
+          platformId: z.number().int().positive(),
+          from: time,
+          to: time.optional(),
+          reason: z.string().optional(),
+        })
+        .refine(
+          (o) => {
+            // two clock times or two date-times compare alike on any service day; a mix depends on the day
+            if (o.to === undefined || (parseClock(o.from) === null) !== (parseClock(o.to) === null)) return true
+            const [from, to] = [o.from, o.to].map((t) => parseTimestamp(t, 0))
+            return from === null || to === null || to > from
+          },
+          { message: "an outage must end after it starts", path: ["to"] },
+        ),
+    )
+    .default([]),
+})
+
+export type Scenario = z.output<typeof scenarioSchema>
+export type ScenarioInput = z.input<typeof scenarioSchema>
+export type DelayDistribution = z.output<typeof delayDistributionSchema>
+
+export type SimulationStep = {
+  // 1-based; step 0 is the timetable before anything happened
+  index: number
+  // simulated clock at the end of the step
+  clock: number
+  events: DelayEvent[]
+  // outages that start during the step
+  outages: PlatformBlock[]
+  // incidents that happened during the step, for the step log
+  notes: string[]
+}
+
+// Class a train draws its delays from: its priority class (see trainClassOf)
+export function delayClass(train: Train): string {
+  return trainClassOf(train)
+}
+
+function drawDelay(d: DelayDistribution, random: Random) {
+  if (d.distribution === "uniform") return d.min + random() * (d.max - d.min)
+  const draw = -d.mean * Math.log(1 - random())
+  return d.max === undefined ? draw : Math.min(d.max, draw)
+}
+
+// Every step of the scenario, computed up front. Only the scenario, the seed and the trains decide the result:
+// the same inputs give the same steps. `trains` are the timetable (their current delays are the starting point);
+// `seed` overrides the scenario's own.
+export function simulateScenario(
+  scenario: Scenario,
+  trains: Train[],
+  serviceDay: number,
+  seed: number = scenario.seed,
+): SimulationStep[] {
+  const random = seededRandom(seed)
+  const at = (text: string) => parseTimestamp(text, serviceDay)!
+  const start = at(scenario.start)
+  // draws are made in a fixed train order, whatever order the board lists them in
+  const ordered = [...trains].sort((a, b) => a.arrival - b.arrival || a.id.localeCompare(b.id))
+  const delays = new Map(ordered.map((t) => [t.id, t.delay]))
+
+  const steps: SimulationStep[] = []
+  for (let index = 1; index <= scenario.steps; index++) {
+    const from = start + (index - 1) * scenario.stepMinutes
+    const clock = start + index * scenario.stepMinutes
+    // the first step also takes what happens exactly at the start
+    const within = (t: number) => (index === 1 ? from <= t : from < t) && t <= clock
+    const events: DelayEvent[] = []
+    const notes: string[] = []
+
+    const emit = (train: Train, delay: number, reason: string) => {
+      const rounded = Math.max(0, Math.round(delay))
+      delays.set(train.id, rounded)
+      events.push({ trainId: train.id, eta: train.arrival + rounded, reason, receivedAt: clock })
+    }
+
+    for (const incident of scenario.incidents.filter((i) => within(at(i.at)))) {
+      notes.push(`${incident.reason}: +${incident.delay} min for ${incident.trainIds.join(", ")}`)
+      for (const id of incident.trainIds) {
+        const train = ordered.find((t) => t.id === id)
+        if (train) emit(train, delays.get(id)! + incident.delay, incident.reason)
+        else notes.push(`unknown train ${id} in incident "${incident.reason}"`)
+      }
+    }
+
+    for (const train of ordered) {
+      const distribution = scenario.delays[delayClass(train)] ?? scenario.delays["*"]
+      // trains that have arrived by the start of the step keep their delay
+      if (!distribution || train.arrival + delays.get(train.id)! <= from) continue
+      if (random() < distribution.probability) {
+        const extra = Math.round(drawDelay(distribution, random))
+        if (extra > 0) emit(train, delays.get(train.id)! + extra, `random ${delayClass(train)} delay`)
+      }
+    }
+
+    const outages = scenario.outages
+      .filter((o) => within(at(o.from)))
+      .map((o) => ({
+        platformId: o.platformId,
+        from: at(o.from),
+        to: o.to ? at(o.to) : Number.POSITIVE_INFINITY,
+        reason: o.reason,
+      }))
+
+    steps.push({ index, clock, events, outages, notes })
+  }
+  return steps
+}
+
+// The board after the first `upTo` steps: trains with every event applied and the outages announced so far
+export function simulationState(trains: Train[], steps: SimulationStep[], upTo: number) {
+  let current = trains
+  const blocks: PlatformBlock[] = []
+  for (const step of steps.slice(0, upTo)) {
+    for (const event of step.events) current = applyDelayEvent(current, event)
+    blocks.push(...step.outages)
+  }
+  return { trains: current, blocks }
+}
+
+// Scenarios travel in share links as base64url-encoded JSON
+export function encodeScenario(scenario: ScenarioInput) {
+  const bytes = new TextEncoder().encode(JSON.stringify(scenario))
+  let binary = ""
+  for (const b of bytes) binary += String.fromCharCode(b)
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "")
+}
+
+export function decodeScenario(param: string): { scenario: Scenario } | { error: string } {
+  let data: unknown
+  try {
+    const binary = atob(param.replace(/-/g, "+").replace(/_/g, "/"))
+    data = JSON.parse(new TextDecoder().decode(Uint8Array.from(binary, (c) => c.charCodeAt(0))))
+  } catch {
+    return { error: "the scenario in the link is not valid base64 JSON" }
+  }
+  return parseScenario(data)
+}
+
+export function parseScenario(data: unknown): { scenario: Scenario } | { error: string } {
+  const parsed = scenarioSchema.safeParse(data)
+  if (!parsed.success) {
+    return { error: parsed.error.issues.map((i) => `${i.path.join(".") || "scenario"}: ${i.message}`).join("; ") }
+  }
+  return { scenario: parsed.data }
+}
@@ -0,0 +1,17 @@
+import { DEFAULT_WEIGHTS, assignPlatformsScoreBased } from "./greedy"
+import { assignPlatformsOptimal } from "./optimal"
+import type { AssignOptions, AssignmentResult, ScoringWeights, SolverKind, Train } from "./types"
+
+export type SolveOptions = AssignOptions & {
+  solver?: SolverKind
+  weights?: ScoringWeights
+}
+
+export function solve(
+  trains: Train[],
+  { solver = "greedy", weights = DEFAULT_WEIGHTS, ...options }: SolveOptions = {},
+): AssignmentResult {
+  return solver === "optimal"
+    ? assignPlatformsOptimal(trains, weights, options)
+    : assignPlatformsScoreBased(trains, weights, options)
+}
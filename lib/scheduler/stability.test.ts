@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest"
+import { assignPlatformsScoreBased } from "./greedy"
+import { frozenPlatforms, platformChanges } from "./stability"
+import { platform, train } from "./testing"
+import type { Platform } from "./types"
+
+const trains = [train("A", 600, 610), train("B", 605, 620), train("C", 630, 640)]
+const platforms = [platform(1), platform(2)]
+// the plan before: the reverse of what a fresh greedy run picks for A and B
+const previousPlatforms = { A: 2, B: 1, C: 1 }
+
+const layout = (result: { platforms: Platform[] }) =>
+  Object.fromEntries(result.platforms.map((pl) => [pl.id, pl.trains.map((t) => t.id)]))
+
+describe("re-planning against a previous plan", () => {
+  it("keeps trains inside the freeze horizon on their announced platform", () => {
+    const result = assignPlatformsScoreBased(trains, undefined, { platforms, previousPlatforms, now: 590 })
+    expect(layout(result)).toEqual({ 1: ["B", "C"], 2: ["A"] })
+    expect(result.platforms.flatMap((pl) => pl.trains.filter((t) => t.frozen).map((t) => t.id))).toEqual(["B", "A"])
+    expect(result.changes).toEqual([])
+  })
+
+  it("charges platformChange for moving the others", () => {
+    expect(layout(assignPlatformsScoreBased(trains, undefined, { platforms }))).toEqual({ 1: ["A"], 2: ["B", "C"] })
+    expect(layout(assignPlatformsScoreBased(trains, undefined, { platforms, previousPlatforms }))).toEqual({
+      1: ["B", "C"],
+      2: ["A"],
+    })
+  })
+})
+
+describe("frozenPlatforms", () => {
+  it("freezes nothing without a previous plan or a current time", () => {
+    const assigned = assignPlatformsScoreBased(trains).platforms.flatMap((pl) => pl.trains)
+    expect(frozenPlatforms(assigned, { now: 600 }).size).toBe(0)
+    expect(frozenPlatforms(assigned, { previousPlatforms }).size).toBe(0)
+    expect([...frozenPlatforms(assigned, { previousPlatforms, now: 600, freezeMinutes: 10 })]).toEqual([
+      ["A", 2],
+      ["B", 1],
+    ])
+  })
+})
+
+describe("platformChanges", () => {
+  it("lists moved trains in arrival order and ignores trains new to the plan", () => {
+    const { platforms: plan } = assignPlatformsScoreBased(trains, undefined, { platforms })
+    expect(platformChanges({ A: 2, B: 1 }, plan)).toEqual([
+      { trainId: "A", from: 2, to: 1 },
+      { trainId: "B", from: 1, to: 2 },
+    ])
+    expect(platformChanges(undefined, plan)).toEqual([])
+  })
+})
@@ -0,0 +1,32 @@
+import type { AssignedTrain, AssignOptions, Platform, PlatformChange } from "./types"
+
+// Default freeze horizon: trains arriving within this many minutes keep an announced platform
+export const DEFAULT_FREEZE_MINUTES = 15
+
+// Trains that have to keep their previous platform (train id to platform id): berthed and departed trains, and
+// trains arriving before now + freezeMinutes. Nothing is frozen without a previous plan and a current time.
+export function frozenPlatforms(trains: AssignedTrain[], options: AssignOptions): Map<string, number> {
+  const { previousPlatforms, now, freezeMinutes = DEFAULT_FREEZE_MINUTES } = options
+  const frozen = new Map<string, number>()
+  if (!previousPlatforms || now === undefined) return frozen
+  for (const t of trains) {
+    const platformId = previousPlatforms[t.id]
+    if (platformId !== undefined && t.effectiveArrival <= now + freezeMinutes) frozen.set(t.id, platformId)
+  }
+  return frozen
+}
+
+// Train id to platform id for every train of a plan; the next plan's previousPlatforms
+export function platformsByTrain(platforms: Platform[]): Record<string, number> {
+  return Object.fromEntries(platforms.flatMap((pl) => pl.trains.map((t) => [t.id, pl.id])))
+}
+
+// Trains on another platform than in `previous`, in arrival order. Trains new to the plan are not changes.
+export function platformChanges(previous: Record<string, number> | undefined, platforms: Platform[]): PlatformChange[] {
+  if (!previous) return []
+  return platforms
+    .flatMap((pl) => pl.trains.map((t) => ({ train: t, to: pl.id })))
+    .filter(({ train, to }) => previous[train.id] !== undefined && previous[train.id] !== to)
+    .sort((a, b) => a.train.effectiveArrival - b.train.effectiveArrival)
+    .map(({ train, to }) => ({ trainId: train.id, from: previous[train.id], to }))
+}
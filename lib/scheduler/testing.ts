@@ -0,0 +1,11 @@
+import type { PlatformSpec, Train } from "./types"
+
+// Builders for the engine's tests; times are plain minutes
+
+export function train(id: string, arrival: number, departure: number, extra: Partial<Train> = {}): Train {
+  return { id, name: id, arrival, departure, delay: 0, status: "on-time", ...extra }
+}
+
+export function platform(id: number, extra: Partial<PlatformSpec> = {}): PlatformSpec {
+  return { id, length: 600, electrified: true, use: "mixed", directions: ["up", "down"], ...extra }
+}
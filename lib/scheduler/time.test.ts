@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest"
+import {
+  atClock,
+  dayStart,
+  parseClock,
+  parseTimestamp,
+  timestampToLabel,
+  toTimestamp,
+  windowSpan,
+  windowTicks,
+} from "./time"
+
+const day = dayStart(toTimestamp(new Date(2025, 2, 1)))
+
+describe("clock times", () => {
+  it("parses HH:MM and HH:MM:SS with hours past 24, and nothing else", () => {
+    expect(parseClock("08:25")).toBe(505)
+    expect(parseClock("25:10:30")).toBe(25 * 60 + 10.5)
+    expect(parseClock("8.25")).toBeNull()
+    expect(parseClock("08:60")).toBeNull()
+  })
+
+  it("places clock times after midnight on the next day", () => {
+    const night = parseTimestamp("23:50", day)!
+    const after = parseTimestamp("25:10", day)!
+    expect(after - night).toBe(80)
+    expect(dayStart(after)).toBe(dayStart(toTimestamp(new Date(2025, 2, 2))))
+  })
+
+  it("reads ISO date-times with an offset", () => {
+    expect(parseTimestamp("2025-03-01T00:00:00Z", day)).toBe(Date.UTC(2025, 2, 1) / 60000)
+    expect(parseTimestamp("tomorrow", day)).toBeNull()
+  })
+})
+
+describe("labels", () => {
+  it("marks times on another day than the reference", () => {
+    expect(timestampToLabel(atClock(day, 8 * 60 + 5), day)).toBe("08:05")
+    expect(timestampToLabel(atClock(day, 25 * 60 + 10), day)).toBe("01:10 +1d")
+    expect(timestampToLabel(atClock(day, -30), day)).toBe("23:30 -1d")
+  })
+})
+
+describe("windows", () => {
+  it("clips spans to the window", () => {
+    const window = { start: atClock(day, 22 * 60), length: 240 }
+    expect(windowSpan(window, atClock(day, 21 * 60), atClock(day, 23 * 60))).toEqual({ left: 0, width: 25 })
+    expect(windowSpan(window, atClock(day, 27 * 60), atClock(day, 28 * 60))).toBeNull()
+  })
+
+  it("picks a tick step that fits the window and aligns it to the clock across midnight", () => {
+    const ticks = windowTicks({ start: atClock(day, 22 * 60 + 10), length: 240 })
+    expect(ticks[0]).toBe(atClock(day, 22 * 60 + 30))
+    expect(ticks.map((t) => timestampToLabel(t))).toEqual([
+      "22:30",
+      "23:00",
+      "23:30",
+      "00:00",
+      "00:30",
+      "01:00",
+      "01:30",
+      "02:00",
+    ])
+    const days = windowTicks({ start: day, length: 3 * 1440 })
+    expect(days.map((t) => t - day)).toEqual([0, 720, 1440, 2160, 2880, 3600, 4320])
+  })
+})
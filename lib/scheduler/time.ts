@@ -0,0 +1,126 @@
+// Engine times are real timestamps in minutes since the Unix epoch (Date.getTime() / 60000), so services that run
+// past midnight or over several days sort and subtract like any other time. Delays, dwells and buffers are plain
+// minutes. Clock labels use the local time zone.
+
+export type TimeWindow = {
+  // timestamp of the left edge
+  start: number
+  // minutes shown
+  length: number
+}
+
+export const DEFAULT_WINDOW_START_CLOCK = 8 * 60 // 08:00
+export const DEFAULT_WINDOW_LENGTH = 240 // 4 hours
+
+export function toTimestamp(date: Date) {
+  return date.getTime() / 60000
+}
+
+export function fromTimestamp(t: number) {
+  return new Date(Math.round(t * 60000))
+}
+
+// Local midnight of the day containing `t` (today when omitted)
+export function dayStart(t?: number) {
+  const d = t === undefined ? new Date() : fromTimestamp(t)
+  return toTimestamp(new Date(d.getFullYear(), d.getMonth(), d.getDate()))
+}
+
+// `clockMinutes` after local midnight of the day containing `day`; 25:10 is 01:10 on the next day
+export function atClock(day: number, clockMinutes: number) {
+  const d = fromTimestamp(day)
+  return toTimestamp(new Date(d.getFullYear(), d.getMonth(), d.getDate(), 0, 0, Math.round(clockMinutes * 60)))
+}
+
+// 08:00–12:00 on the day containing `day`
+export function defaultWindow(day: number = dayStart()): TimeWindow {
+  return { start: atClock(day, DEFAULT_WINDOW_START_CLOCK), length: DEFAULT_WINDOW_LENGTH }
+}
+
+export function windowEnd(window: TimeWindow) {
+  return window.start + window.length
+}
+
+// Position of `t` across the window in percent; not clamped
+export function windowPercent(window: TimeWindow, t: number) {
+  return ((t - window.start) / window.length) * 100
+}
+
+// Left offset and width in percent of the part of [from, to] inside the window; null when none of it is
+export function windowSpan(window: TimeWindow, from: number, to: number) {
+  const left = Math.max(0, windowPercent(window, from))
+  const right = Math.min(100, windowPercent(window, to))
+  return right > left ? { left, width: right - left } : null
+}
+
+// "HH:MM" or "HH:MM:SS" to minutes after midnight of the service day. Hours may run past 24 for services that
+// continue after midnight, as in GTFS. Returns null for anything else.
+export function parseClock(text: string) {
+  const match = /^(\d{1,2}):([0-5]\d)(?::([0-5]\d))?$/.exec(text.trim())
+  if (!match) return null
+  const [, h, m, s] = match
+  return Number(h) * 60 + Number(m) + (s ? Number(s) / 60 : 0)
+}
+
+// A clock time on `serviceDay`, or an ISO 8601 date-time such as 2025-03-01T23:50:00+05:30
+export function parseTimestamp(text: string, serviceDay: number) {
+  const clock = parseClock(text)
+  if (clock !== null) return atClock(serviceDay, clock)
+  if (!/^\d{4}-\d{2}-\d{2}T/.test(text.trim())) return null
+  const ms = Date.parse(text)
+  return Number.isNaN(ms) ? null : ms / 60000
+}
+
+// Whole local days from the date of `reference` to the date of `t`
+export function dayOffset(t: number, reference: number) {
+  return Math.round((dayStart(t) - dayStart(reference)) / (24 * 60))
+}
+
+function pad(n: number) {
+  return String(n).padStart(2, "0")
+}
+
+function withDayOffset(label: string, t: number, reference?: number) {
+  const offset = reference === undefined ? 0 : dayOffset(t, reference)
+  return offset === 0 ? label : `${label} ${offset > 0 ? "+" : ""}${offset}d`
+}
+
+// "HH:MM", with a "+1d" style suffix when `t` falls on another day than `reference`
+export function timestampToLabel(t: number, reference?: number) {
+  const d = fromTimestamp(t)
+  return withDayOffset(`${pad(d.getHours())}:${pad(d.getMinutes())}`, t, reference)
+}
+
+export function timestampToLabelWithSeconds(t: number, reference?: number) {
+  const d = fromTimestamp(t)
+  return withDayOffset(`${pad(d.getHours())}:${pad(d.getMinutes())}:${pad(d.getSeconds())}`, t, reference)
+}
+
+// Value for an <input type="datetime-local">, in local time
+export function toDateTimeLocal(t: number) {
+  const d = fromTimestamp(t)
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}T${pad(d.getHours())}:${pad(d.getMinutes())}`
+}
+
+export function formatMinSec(mins: number) {
+  const totalSeconds = Math.max(0, Math.round(mins * 60))
+  const m = Math.floor(totalSeconds / 60)
+  const s = totalSeconds % 60
+  return `${m}:${String(s).padStart(2, "0")}`
+}
+
+const TICK_STEPS = [5, 10, 15, 30, 60, 120, 180, 240, 360, 720, 1440]
+
+// Tick timestamps for a time scale: the smallest step from TICK_STEPS that gives at most `maxTicks` ticks
+// (whole days beyond that), aligned to local clock multiples of the step
+export function windowTicks(window: TimeWindow, maxTicks = 9): number[] {
+  const step =
+    TICK_STEPS.find((s) => window.length / s <= maxTicks - 1) ??
+    Math.ceil(window.length / (maxTicks - 1) / 1440) * 1440
+  const day = dayStart(window.start)
+  const ticks: number[] = []
+  for (let t = day + Math.ceil((window.start - day) / step) * step; t <= windowEnd(window); t += step) {
+    ticks.push(t)
+  }
+  return ticks
+}
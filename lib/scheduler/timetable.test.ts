@@ -0,0 +1,76 @@
+import { readFileSync } from "node:fs"
+import { join } from "node:path"
+import { describe, expect, it } from "vitest"
+import { atClock, dayStart, toTimestamp } from "./time"
+import { importTimetableCsv, importTimetableJson, parseCsv } from "./timetable"
+
+const day = dayStart(toTimestamp(new Date(2025, 2, 1)))
+
+describe("parseCsv", () => {
+  it("reads quoted fields, doubled quotes and CRLF line ends", () => {
+    expect(parseCsv('id,name\r\n1,"Mail, ""Up"""\r\n\r\n2,Local\n')).toEqual([
+      ["id", "name"],
+      ["1", 'Mail, "Up"'],
+      ["2", "Local"],
+    ])
+  })
+})
+
+describe("importTimetableCsv", () => {
+  it("converts rows to trains on the service day, running past midnight", () => {
+    const { trains, errors } = importTimetableCsv(
+      "id,name,arrival,departure,delay,trainClass\n1,Night Mail,23:50,25:10,5,mail\n",
+      day,
+    )
+    expect(errors).toEqual([])
+    expect(trains).toEqual([
+      {
+        id: "1",
+        name: "Night Mail",
+        arrival: atClock(day, 23 * 60 + 50),
+        departure: atClock(day, 25 * 60 + 10),
+        delay: 5,
+        status: "delayed",
+        trainClass: "mail",
+      },
+    ])
+  })
+
+  it("reports invalid rows by row and field and imports the rest", () => {
+    const csv = [
+      "id,name,arrival,departure,delay,formsTrain",
+      "1,Express,08:05,08:25,,",
+      "2,Local,8 o'clock,08:30,,",
+      "1,Again,09:00,09:10,,",
+      "3,Late,09:20,09:10,,",
+      "4,Loop,09:30,09:40,,4",
+    ].join("\n")
+    const { trains, errors } = importTimetableCsv(csv, day)
+    expect(trains.map((t) => t.id)).toEqual(["1"])
+    expect(errors).toMatchObject([
+      { row: 2, field: "arrival" },
+      { row: 3, field: "id", message: "duplicate train id 1" },
+      { row: 4, field: "departure", message: "departure is before arrival" },
+      { row: 5, field: "formsTrain" },
+    ])
+  })
+})
+
+describe("sample timetables", () => {
+  it.each(["timetable.csv", "timetable.json"])("%s imports cleanly with a class for every train", (name) => {
+    const text = readFileSync(join(__dirname, "../../public/fixtures", name), "utf8")
+    const { trains, errors } = name.endsWith(".csv") ? importTimetableCsv(text, day) : importTimetableJson(text, day)
+    expect(errors).toEqual([])
+    expect(trains.every((t) => t.trainClass !== undefined && t.priority === undefined)).toBe(true)
+  })
+})
+
+describe("importTimetableJson", () => {
+  it("accepts an array or a { trains } object and reports malformed JSON as a file error", () => {
+    const row = { id: "1", name: "Express", arrival: "08:05", departure: "08:25" }
+    expect(importTimetableJson(JSON.stringify([row]), day).trains).toHaveLength(1)
+    expect(importTimetableJson(JSON.stringify({ trains: [row] }), day).trains).toHaveLength(1)
+    expect(importTimetableJson("[{", day)).toMatchObject({ trains: [], errors: [{ row: 0 }] })
+    expect(importTimetableJson("{}", day)).toMatchObject({ trains: [], errors: [{ row: 0 }] })
+  })
+})
@@ -0,0 +1,171 @@
+import { z } from "zod"
+import { dayStart, parseTimestamp } from "./time"
+import type { Train } from "./types"
+
+export type ImportError = {
+  // 1-based data row (the CSV header and JSON array brackets are not counted); 0 for file-level errors
+  row: number
+  field?: string
+  message: string
+}
+
+export type ImportResult = {
+  trains: Train[]
+  errors: ImportError[]
+}
+
+// the day does not matter for checking the format
+const time = z.string().refine((v) => parseTimestamp(v, 0) !== null, {
+  message: "expected a clock time such as 08:25 or 25:10:00, or an ISO date-time",
+})
+
+// empty CSV cells count as missing
+const optional = <T extends z.ZodTypeAny>(schema: T) =>
+  z.preprocess((v) => (v === "" ? undefined : v), schema.optional())
+
+// One timetable row, as a JSON object or a CSV line with the same column names. Clock times are on the service
+// day of the import; hours past 24 run into the next day.
+export const timetableRowSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  arrival: time,
+  departure: time,
+  delay: z.preprocess((v) => (v === "" || v === undefined ? 0 : v), z.coerce.number().int().nonnegative()),
+  trainClass: optional(z.enum(["express", "mail", "suburban", "freight", "special"])),
+  priority: optional(z.coerce.number().nonnegative()),
+  rakeLength: optional(z.coerce.number().positive()),
+  traction: optional(z.enum(["electric", "diesel"])),
+  service: optional(z.enum(["passenger", "goods"])),
+  direction: optional(z.enum(["up", "down"])),
+  // technical minimum dwell in minutes
+  minDwell: optional(z.coerce.number().nonnegative()),
+  // id of the later service this train's rake forms
+  formsTrain: optional(z.string().min(1)),
+  // minutes the departure is held, e.g. for a connection
+  departureHold: optional(z.coerce.number().nonnegative()),
+  // people on board, for passenger-delay measures
+  passengers: optional(z.coerce.number().int().nonnegative()),
+})
+
+export type TimetableRow = z.input<typeof timetableRowSchema>
+
+// Minimal RFC 4180 reader: quoted fields, doubled quotes inside them, CRLF or LF line ends. Blank lines are skipped.
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ""
+  let quoted = false
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i]
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (ch === '"') {
+        quoted = false
+      } else {
+        field += ch
+      }
+    } else if (ch === '"') {
+      quoted = true
+    } else if (ch === ",") {
+      row.push(field)
+      field = ""
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") i++
+      row.push(field)
+      if (row.some((f) => f !== "")) rows.push(row)
+      row = []
+      field = ""
+    } else {
+      field += ch
+    }
+  }
+  row.push(field)
+  if (row.some((f) => f !== "")) rows.push(row)
+
+  return rows
+}
+
+// CSV rows as objects keyed by the (trimmed) header line
+export function csvRecords(text: string): Record<string, string>[] {
+  const [header, ...rows] = parseCsv(text)
+  if (!header) return []
+  const keys = header.map((h) => h.trim())
+  return rows.map((cells) => Object.fromEntries(keys.map((k, i) => [k, (cells[i] ?? "").trim()])))
+}
+
+function rowToTrain(row: z.output<typeof timetableRowSchema>, serviceDay: number): Train {
+  const { arrival, departure, delay, ...attributes } = row
+  return {
+    ...attributes,
+    arrival: parseTimestamp(arrival, serviceDay)!,
+    departure: parseTimestamp(departure, serviceDay)!,
+    delay,
+    status: delay > 0 ? "delayed" : "on-time",
+  }
+}
+
+// Validates every record and converts the valid ones; invalid rows are reported, not imported.
+// `serviceDay` is any timestamp on the day clock times refer to (today when omitted).
+export function importTimetableRecords(records: unknown[], serviceDay: number = dayStart()): ImportResult {
+  const trains: Train[] = []
+  const errors: ImportError[] = []
+  const seen = new Set<string>()
+  // outbound id to the train whose rake forms it
+  const formed = new Map<string, string>()
+
+  records.forEach((record, i) => {
+    const row = i + 1
+    const parsed = timetableRowSchema.safeParse(record)
+    if (!parsed.success) {
+      for (const issue of parsed.error.issues) {
+        errors.push({ row, field: issue.path.join(".") || undefined, message: issue.message })
+      }
+      return
+    }
+    if (seen.has(parsed.data.id)) {
+      errors.push({ row, field: "id", message: `duplicate train id ${parsed.data.id}` })
+      return
+    }
+    const train = rowToTrain(parsed.data, serviceDay)
+    if (train.departure < train.arrival) {
+      errors.push({ row, field: "departure", message: "departure is before arrival" })
+      return
+    }
+    if (train.formsTrain === train.id) {
+      errors.push({ row, field: "formsTrain", message: "a train cannot form itself" })
+      return
+    }
+    if (train.formsTrain !== undefined && formed.has(train.formsTrain)) {
+      const other = formed.get(train.formsTrain)
+      errors.push({ row, field: "formsTrain", message: `${train.formsTrain} is already formed by ${other}` })
+      return
+    }
+    if (train.formsTrain !== undefined) formed.set(train.formsTrain, train.id)
+    seen.add(parsed.data.id)
+    trains.push(train)
+  })
+
+  return { trains, errors }
+}
+
+export function importTimetableCsv(text: string, serviceDay?: number): ImportResult {
+  return importTimetableRecords(csvRecords(text), serviceDay)
+}
+
+// A JSON array of rows, or an object with a `trains` array
+export function importTimetableJson(text: string, serviceDay?: number): ImportResult {
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch (e) {
+    return { trains: [], errors: [{ row: 0, message: `invalid JSON: ${(e as Error).message}` }] }
+  }
+  const records = Array.isArray(data) ? data : (data as { trains?: unknown })?.trains
+  if (!Array.isArray(records)) {
+    return { trains: [], errors: [{ row: 0, message: "expected an array of trains or { trains: [...] }" }] }
+  }
+  return importTimetableRecords(records, serviceDay)
+}
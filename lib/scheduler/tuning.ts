@@ -0,0 +1,84 @@
+import { DEFAULT_WEIGHTS } from "./greedy"
+import { propagateDelays } from "./propagation"
+import { occupiedUntil } from "./rules"
+import type { AssignmentResult, OccupationRules, ScoringWeights, Train, TrainClass } from "./types"
+
+// Weights as API clients and saved presets give them; missing ones fall back to DEFAULT_WEIGHTS
+export type PartialWeights = Partial<Omit<ScoringWeights, "classWeights">> & {
+  classWeights?: Partial<Record<TrainClass, number>>
+}
+
+export function withDefaultWeights(weights: PartialWeights = {}): ScoringWeights {
+  return {
+    ...DEFAULT_WEIGHTS,
+    ...weights,
+    classWeights: { ...DEFAULT_WEIGHTS.classWeights, ...weights.classWeights },
+  }
+}
+
+// People on board a train without a count of its own (Train.passengers); goods trains carry none
+export const DEFAULT_TRAIN_PASSENGERS = 100
+
+export function trainPassengers(train: Train) {
+  return train.passengers ?? (train.service === "goods" ? 0 : DEFAULT_TRAIN_PASSENGERS)
+}
+
+// Weight-independent measures of a plan, for comparing plans made with different weights
+export type PlanTotals = {
+  platformsUsed: number
+  // minutes platforms stand empty between one occupation (with its clearance buffer) and the next
+  idleGap: number
+  // minutes placed trains leave after their timetabled departure, as propagateDelays projects it: reported delay and
+  // knock-on less what the dwell recovers
+  totalDelay: number
+  // minutes placed trains wait for their platform on top of their reported delay: holds and trains before overrunning
+  knockOn: number
+  // minutes the passengers on board (see trainPassengers) lose to the plan, summed: each placed train's knock-on, spent
+  // waiting for the platform, plus its departure delay
+  passengerDelay: number
+  // trains moved off their platform in the previous plan
+  platformChanges: number
+  unassigned: number
+}
+
+export function planTotals(result: AssignmentResult, rules: OccupationRules = {}): PlanTotals {
+  let idleGap = 0
+  for (const pl of result.platforms) {
+    const ordered = [...pl.trains].sort((a, b) => a.effectiveArrival - b.effectiveArrival)
+    for (let i = 1; i < ordered.length; i++) {
+      idleGap += Math.max(0, ordered[i].effectiveArrival - occupiedUntil(ordered[i - 1], pl.spec, rules))
+    }
+  }
+  const trains = new Map(result.platforms.flatMap((pl) => pl.trains.map((t) => [t.id, t])))
+  let totalDelay = 0
+  let knockOn = 0
+  let passengerDelay = 0
+  for (const p of propagateDelays(result.platforms, { rules })) {
+    const late = Math.max(0, p.departureDelay)
+    totalDelay += late
+    knockOn += p.knockOn
+    passengerDelay += (p.knockOn + late) * trainPassengers(trains.get(p.trainId)!)
+  }
+  return {
+    platformsUsed: result.platforms.length,
+    idleGap,
+    totalDelay,
+    knockOn,
+    passengerDelay,
+    platformChanges: result.changes.length,
+    unassigned: result.unassigned.length,
+  }
+}
+
+// `candidate` minus `baseline`, measure by measure; negative is fewer platforms, minutes or changes
+export function totalsDelta(baseline: PlanTotals, candidate: PlanTotals): PlanTotals {
+  return {
+    platformsUsed: candidate.platformsUsed - baseline.platformsUsed,
+    idleGap: candidate.idleGap - baseline.idleGap,
+    totalDelay: candidate.totalDelay - baseline.totalDelay,
+    knockOn: candidate.knockOn - baseline.knockOn,
+    passengerDelay: candidate.passengerDelay - baseline.passengerDelay,
+    platformChanges: candidate.platformChanges - baseline.platformChanges,
+    unassigned: candidate.unassigned - baseline.unassigned,
+  }
+}
@@ -0,0 +1,405 @@
+export type TrainStatus = "on-time" | "delayed"
+
+export type Direction = "up" | "down"
+
+export type Traction = "electric" | "diesel"
+
+export type ServiceKind = "passenger" | "goods"
+
+// Priority class of a train, see ScoringWeights.classWeights
+export type TrainClass = "express" | "mail" | "suburban" | "freight" | "special"
+
+export type Train = {
+  id: string
+  name: string
+  // scheduled times as timestamps in minutes since the Unix epoch (see time.ts)
+  arrival: number
+  departure: number
+  delay: number // minutes of arrival delay; the departure is late only by what the dwell cannot recover
+  status: TrainStatus
+  // defaults to "freight" for goods trains and "suburban" otherwise
+  trainClass?: TrainClass
+  // higher wins platform contention and may bump lower-priority trains; defaults to the class weight
+  priority?: number
+  // physical attributes, checked against PlatformSpec when a station inventory is configured
+  rakeLength?: number // metres
+  traction?: Traction
+  service?: ServiceKind
+  direction?: Direction
+  // minutes the train needs at the platform however late it is; overrides OccupationRules.minDwellByClass. For a
+  // service formed by another train's rake, the turnaround time.
+  minDwell?: number
+  // id of the later service this train's rake forms (terminating train turning round); both should share a platform
+  formsTrain?: string
+  // minutes the departure is held past the timetable, e.g. for a passenger connection
+  departureHold?: number
+  // people on board, weighing the train's delay in passenger-delay measures; see trainPassengers()
+  passengers?: number
+}
+
+export type PlatformSpec = {
+  id: number
+  // usable length in metres
+  length: number
+  electrified: boolean
+  // "mixed" platforms take both passenger and goods trains
+  use: ServiceKind | "mixed"
+  // approach directions the platform can be reached from
+  directions: Direction[]
+  // approach track id; movements over the same approach track must keep OccupationRules.headway apart
+  approach?: string
+  // minutes the platform stays blocked after a departure; overrides OccupationRules.clearance
+  clearance?: number
+  // platforms with the same island share a platform face or footbridge landing, see transferWalk()
+  island?: string
+}
+
+// A platform out of use from `from` until `to` (timestamps); `to` may be Infinity for an open-ended outage
+export type PlatformBlock = {
+  platformId: number
+  from: number
+  to: number
+  reason?: string
+}
+
+export type OccupationRules = {
+  // minutes a platform stays blocked after a departure before the next arrival
+  clearance?: number
+  // per-class clearance buffers; the larger of the platform's and the class's buffer applies
+  clearanceByService?: Partial<Record<ServiceKind, number>>
+  // minimum minutes between two movements over the same approach track
+  headway?: number
+  // pairs of platform ids whose routes through the station throat cross
+  throatConflicts?: [number, number][]
+  // minimum minutes between two movements on crossing throat routes
+  throatWindow?: number
+  // platforms out of use; no occupation, clearance buffer included, may overlap a block
+  blocks?: PlatformBlock[]
+  // technical minimum dwell per train class, see minimumDwell()
+  minDwellByClass?: Partial<Record<TrainClass, number>>
+}
+
+// "incompatible" is only reported for dispatcher overrides, see OverrideConflict
+export type ConflictKind = "clearance" | "headway" | "throat" | "blocked" | "incompatible"
+
+export type Conflict = {
+  kind: ConflictKind
+  // the other train involved; undefined for "blocked" and "incompatible"
+  trainId?: string
+  platformId?: number
+  message: string
+}
+
+export type IncompatibilityCode = "too-short" | "not-electrified" | "service-mismatch" | "wrong-direction"
+
+export type Incompatibility = {
+  platformId: number
+  code: IncompatibilityCode
+  message: string
+}
+
+export type UnassignedTrain = {
+  train: Train
+  // why each platform in the inventory was rejected
+  reasons: Incompatibility[]
+}
+
+// What the engine did with a train that found no free platform:
+// - "hold": held at the home signal until a platform frees (up to maxHoldMinutes)
+// - "shift": arrival re-timed upstream because the wait is longer than a home-signal hold
+// - "bump": gave up its platform to a higher-priority train and waited for the next one
+export type OverflowDecision = "hold" | "shift" | "bump"
+
+export type AssignedTrain = Train & {
+  effectiveArrival: number
+  // earliest feasible departure after the effective arrival, see earliestDeparture()
+  effectiveDeparture: number
+  // extra minutes added by the overflow decision, on top of the reported delay
+  heldMinutes: number
+  overflow?: OverflowDecision
+  // id of the train that bumped this one
+  bumpedBy?: string
+  // kept on its previous platform because it is berthed or inside the freeze horizon
+  frozen?: boolean
+  // placed by a dispatcher override, see AssignOptions.pinned
+  pinned?: boolean
+  // the other service of a rake turning round on this platform (see Train.formsTrain); the platform stays occupied
+  // from the inbound's arrival to the outbound's departure, with no clearance buffer in between
+  turnaroundWith?: string
+}
+
+// Display state of a train on the timeline and in the tables
+export type TrainState = TrainStatus | "held"
+
+export type AssignOptions = {
+  // station platforms with their attributes; trains only use platforms they are compatible with
+  platforms?: PlatformSpec[]
+  // number of platforms at the station (the first platformCount of `platforms` when given);
+  // undefined opens platforms on demand
+  platformCount?: number
+  // longest wait at the home signal before the arrival is re-timed instead
+  maxHoldMinutes?: number
+  // clearance buffers, approach headway and throat conflicts
+  rules?: OccupationRules
+  // platform of every train in the plan being replaced (train id to platform id); moving a train off its
+  // previous platform costs ScoringWeights.platformChange
+  previousPlatforms?: Record<string, number>
+  // current time; with previousPlatforms, trains arriving before now + freezeMinutes (berthed and departed
+  // trains included) keep their previous platform where it is still usable
+  now?: number
+  freezeMinutes?: number
+  // dispatcher overrides (train id to platform id): hard constraints, placed before anything else at the train's
+  // effective arrival even when they conflict; the conflicts are reported in AssignmentResult.overrideConflicts
+  pinned?: Record<string, number>
+  // passenger transfers; connecting trains are kept on nearby platforms (ScoringWeights.connection)
+  connections?: Connection[]
+}
+
+export type Platform = {
+  id: number
+  trains: AssignedTrain[]
+  // end of the last train's clearance buffer
+  nextFreeAt: number
+  // physical attributes; undefined for platforms opened on demand
+  spec?: PlatformSpec
+}
+
+export type ScoringWeights = {
+  // smaller idle gap preferred to pack trains (minimize gaps)
+  idleGap: number
+  // lightly discourage putting too many trains on one platform (load balancing)
+  load: number
+  // spread delayed trains across platforms to reduce clustering
+  delayedSpread: number
+  // keep movements clear of the headway and throat limits, see conflictMargin()
+  margin: number
+  // per train moved off the platform it had in the previous plan
+  platformChange: number
+  // per passenger-minute of walking between the platforms of a connection, see transferWalk()
+  connection: number
+  // priority of each train class: a minute of hold delay costs this much, and higher classes may bump lower ones
+  classWeights: Record<TrainClass, number>
+}
+
+// Why a train ended up on its platform:
+// - "best-score": an existing platform was free and had the lowest score
+// - "opened-platform": no existing platform was free by the train's arrival
+// - "optimized": placed by the optimal solver (minimum colouring + local search)
+// - "overflow": every platform in the inventory was busy, see TrainAssignment.overflow
+// - "frozen": kept on its previous platform, see AssignOptions.freezeMinutes
+// - "pinned": placed by a dispatcher override, see AssignOptions.pinned
+// - "turnaround": formed by the rake of a train already on the platform, see Train.formsTrain
+export type AssignmentReason =
+  | "best-score"
+  | "opened-platform"
+  | "optimized"
+  | "overflow"
+  | "frozen"
+  | "pinned"
+  | "turnaround"
+
+export type SolverKind = "greedy" | "optimal"
+
+export type TrainAssignment = {
+  trainId: string
+  platformId: number
+  reason: AssignmentReason
+  // score of the chosen platform, see PlatformCandidate.score
+  score: number
+  overflow?: OverflowDecision
+  // extra delay caused by the overflow decision
+  extraDelay: number
+  // every platform considered for the train, chosen one included; empty for pinned and frozen trains
+  candidates: PlatformCandidate[]
+}
+
+export type ScoreTermKey = "idleGap" | "load" | "delayedSpread" | "margin" | "platformChange" | "connection"
+
+// One term of a placement score: the measured quantity (minutes, trains, 0/1 for a platform change, passenger-minutes
+// walked), its weight and their product
+export type ScoreTerm = {
+  value: number
+  weight: number
+  cost: number
+}
+
+// A platform evaluated for a train at its effective arrival
+export type PlatformCandidate = {
+  platformId: number
+  // sum of the term costs; undefined when the platform cannot take the train
+  score?: number
+  terms?: Record<ScoreTermKey, ScoreTerm>
+  incompatibilities: Incompatibility[]
+  conflicts: Conflict[]
+}
+
+// A train whose platform differs from AssignOptions.previousPlatforms
+export type PlatformChange = {
+  trainId: string
+  from: number
+  to: number
+}
+
+// A dispatcher override that breaks the occupation rules or cannot be honoured
+export type OverrideConflict = {
+  trainId: string
+  // the platform the train is pinned to
+  platformId: number
+  conflicts: Conflict[]
+}
+
+// A rake link (Train.formsTrain) that does not work as timetabled:
+// - "missing": the inbound or the outbound service has no platform in the plan
+// - "split": the two services are on different platforms, so the rake has to be shunted across
+// - "late": the outbound leaves late because its rake arrives too late for the turnaround
+export type RakeLinkIssueKind = "missing" | "split" | "late"
+
+export type RakeLinkIssue = {
+  inboundId: string
+  outboundId: string
+  kind: RakeLinkIssueKind
+  message: string
+}
+
+// A passenger transfer from one train's arrival to another train's departure
+export type Connection = {
+  fromTrain: string
+  toTrain: string
+  // minutes passengers need to change trains on the same platform or island; other platforms add walking time
+  minTransfer: number
+  passengers: number
+}
+
+// - "ok": enough time to change
+// - "at-risk": the transfer works with less than AT_RISK_SLACK_MINUTES to spare
+// - "broken": the connecting train leaves before the passengers can reach it
+// - "missing": one of the two trains has no platform in the plan
+export type ConnectionState = "ok" | "at-risk" | "broken" | "missing"
+
+// Holding the connecting train until the passengers can make it
+export type ConnectionHold = {
+  trainId: string
+  // departure no earlier than this timestamp
+  until: number
+  // departure delay the hold adds
+  minutes: number
+  // minutes times the held train's priority, as the greedy weighs hold delay
+  cost: number
+  // what the later departure runs into
+  conflicts: Conflict[]
+}
+
+export type ConnectionStatus = {
+  connection: Connection
+  state: ConnectionState
+  fromPlatform?: number
+  toPlatform?: number
+  // minTransfer plus walking between the two platforms
+  transferTime?: number
+  // minutes between the arrival and the departure beyond the transfer time; negative when broken
+  slack?: number
+  // broken connections that can be held for, see MAX_CONNECTION_HOLD_MINUTES
+  hold?: ConnectionHold
+}
+
+// How a re-plan moved one train, see planImpact()
+export type TrainImpact = {
+  trainId: string
+  // platform before and after; undefined where the train had no platform
+  fromPlatform?: number
+  toPlatform?: number
+  // minutes the train's effective arrival moved (positive: later)
+  extraDelay: number
+}
+
+// Delay carried by one train class in a plan
+export type ClassDelay = {
+  trainClass: TrainClass
+  trains: number
+  // reported delay minutes
+  delay: number
+  // minutes added by hold/shift/bump decisions
+  extraDelay: number
+  // part of extraDelay on trains that gave up their platform to a higher-priority train
+  pushedDown: number
+}
+
+export type AssignmentResult = {
+  solver: SolverKind
+  platforms: Platform[]
+  assignments: TrainAssignment[]
+  // total plan cost, see planCost()
+  cost: number
+  costBreakdown: CostBreakdown
+  // sum of extra delay minutes caused by hold/shift/bump decisions
+  totalExtraDelay: number
+  // trains no platform in the inventory can take
+  unassigned: UnassignedTrain[]
+  // platform changes against the previous plan; empty without one
+  changes: PlatformChange[]
+  // delay per train class, highest priority first; only classes with trains in the plan
+  classDelays: ClassDelay[]
+  // pinned trains whose override conflicts with the rest of the plan
+  overrideConflicts: OverrideConflict[]
+  // rake links the plan breaks or delays
+  rakeLinkIssues: RakeLinkIssue[]
+  // every connection of AssignOptions.connections, in the order given
+  connections: ConnectionStatus[]
+}
+
+// Terms of planCost, each multiplied by its weight
+export type CostBreakdown = {
+  idleGap: number
+  load: number
+  delayedSpread: number
+  margin: number
+  platformChange: number
+  connection: number
+  total: number
+}
+
+export type OptimalityGap = {
+  // minimum number of platforms any plan needs (maximum number of overlapping occupations, see platformLowerBound)
+  lowerBound: number
+  greedyPlatforms: number
+  greedyCost: number
+  // greedy minus optimal; >= 0 means the optimal solver is at least as good
+  platformGap: number
+  costGap: number
+}
+
+export type OptimalAssignmentResult = AssignmentResult & {
+  gap: OptimalityGap
+}
+
+// One train in the delay propagation model, see propagateDelays(); times are timestamps, the rest minutes
+export type TrainPropagation = {
+  trainId: string
+  platformId: number
+  // arrival delay the train reported (Train.delay)
+  reportedDelay: number
+  // wait for the platform on top of the reported delay: planned holds and the train before overrunning
+  knockOn: number
+  // train before on the platform whose late departure caused knock-on, if it did
+  knockOnFrom?: string
+  projectedArrival: number
+  arrivalDelay: number
+  scheduledDwell: number
+  projectedDwell: number
+  // arrival delay made up by dwelling less than scheduled
+  recovered: number
+  projectedDeparture: number
+  departureDelay: number
+  // knock-on this train passes to the next train on its platform
+  knockOnCaused: number
+}
+
+// Propagation totals of one platform, in minutes
+export type PlatformPropagation = {
+  platformId: number
+  trains: number
+  reportedDelay: number
+  knockOn: number
+  recovered: number
+  departureDelay: number
+}
@@ -0,0 +1,158 @@
+import {
+  applySectionHolds,
+  corridorTrains,
+  solveCorridor,
+  type Corridor,
+  type CorridorOptions,
+  type OccupationRules,
+  type PlatformSpec,
+  type SectionHold,
+  type SolveOptions,
+  type Train,
+} from "@/lib/scheduler"
+
+// The station the board plans: its platform inventory and occupation rules
+
+// Platforms the board offers until the dispatcher picks another number
+export const DEFAULT_PLATFORM_COUNT = 4
+
+// Station platforms in inventory order; "Platforms available" takes the first N. Platforms 1–6 stand in pairs on
+// three islands; platforms 7 and 8 stand alone.
+export const STATION_PLATFORMS: PlatformSpec[] = [
+  {
+    id: 1,
+    length: 600,
+    electrified: true,
+    use: "passenger",
+    directions: ["up", "down"],
+    approach: "A",
+    island: "north",
+  },
+  {
+    id: 2,
+    length: 600,
+    electrified: true,
+    use: "passenger",
+    directions: ["up", "down"],
+    approach: "A",
+    island: "north",
+  },
+  { id: 3, length: 450, electrified: true, use: "passenger", directions: ["up"], approach: "B", island: "middle" },
+  {
+    id: 4,
+    length: 700,
+    electrified: false,
+    use: "mixed",
+    directions: ["up", "down"],
+    approach: "B",
+    clearance: 5,
+    island: "middle",
+  },
+  { id: 5, length: 450, electrified: true, use: "passenger", directions: ["down"], approach: "C", island: "south" },
+  {
+    id: 6,
+    length: 400,
+    electrified: true,
+    use: "passenger",
+    directions: ["up", "down"],
+    approach: "C",
+    island: "south",
+  },
+  { id: 7, length: 750, electrified: true, use: "goods", directions: ["up", "down"], approach: "D", clearance: 6 },
+  { id: 8, length: 500, electrified: false, use: "passenger", directions: ["down"], approach: "D" },
+]
+
+export const STATION_RULES: OccupationRules = {
+  clearance: 2,
+  clearanceByService: { goods: 6 },
+  headway: 2,
+  throatConflicts: [
+    [2, 3],
+    [4, 5],
+    [6, 7],
+  ],
+  throatWindow: 1,
+  // trains without a minDwell of their own; classes not listed use DEFAULT_MIN_DWELL_MINUTES
+  minDwellByClass: { express: 3, mail: 3, freight: 5 },
+}
+
+// The corridor the station lies on. The board's timetable and delay feed are the station's; corridorTrains extends
+// every train to the neighbouring stations.
+export const HOME_STATION_ID = "central"
+
+export const CORRIDOR: Corridor = {
+  stations: [
+    {
+      id: "northgate",
+      name: "Northgate",
+      km: 0,
+      dwell: 2,
+      platforms: [
+        { id: 1, length: 700, electrified: false, use: "mixed", directions: ["up", "down"] },
+        { id: 2, length: 600, electrified: true, use: "passenger", directions: ["up", "down"] },
+        { id: 3, length: 600, electrified: true, use: "passenger", directions: ["up", "down"] },
+      ],
+      rules: { clearance: 2, headway: 2 },
+    },
+    {
+      id: HOME_STATION_ID,
+      name: "Central",
+      km: 18,
+      dwell: 5,
+      platforms: STATION_PLATFORMS.slice(0, DEFAULT_PLATFORM_COUNT),
+      rules: STATION_RULES,
+    },
+    {
+      id: "southport",
+      name: "Southport",
+      km: 41,
+      dwell: 2,
+      platforms: [
+        { id: 1, length: 750, electrified: false, use: "mixed", directions: ["up", "down"] },
+        { id: 2, length: 600, electrified: true, use: "passenger", directions: ["up", "down"] },
+        { id: 3, length: 450, electrified: true, use: "passenger", directions: ["up", "down"] },
+      ],
+      rules: { clearance: 2, headway: 2, clearanceByService: { goods: 6 } },
+    },
+  ],
+  // double line to Northgate, single line to Southport
+  sections: [
+    {
+      runningMinutes: 14,
+      runningMinutesByClass: { freight: 19 },
+      allowanceMinutes: 2,
+      tracks: 2,
+      blocks: 4,
+      headway: 1,
+    },
+    {
+      runningMinutes: 19,
+      runningMinutesByClass: { freight: 26 },
+      allowanceMinutes: 3,
+      tracks: 1,
+      blocks: 3,
+      headway: 2,
+    },
+  ],
+}
+
+// The station's options for its run in the corridor plan; the neighbours are planned with their own platforms and
+// rules
+export function stationCorridorOptions(options: SolveOptions): CorridorOptions {
+  const { solver, weights, now, freezeMinutes, platforms, rules, previousPlatforms, pinned, connections } = options
+  return {
+    solver,
+    weights,
+    now,
+    freezeMinutes,
+    stations: { [HOME_STATION_ID]: { platforms, rules, previousPlatforms, pinned, connections } },
+  }
+}
+
+// The station's timetabled trains run through the corridor, with dispatcher holds on the line, and the station's
+// trains with the delays carried in: what the board plans the station with. `options` are the station's.
+export function corridorStationTrains(trains: Train[], holds: SectionHold[], options: SolveOptions): Train[] {
+  const runs = applySectionHolds(corridorTrains(trains, CORRIDOR, HOME_STATION_ID), holds)
+  const plan = solveCorridor(runs, CORRIDOR, stationCorridorOptions(options))
+  return plan.stations.find((s) => s.station.id === HOME_STATION_ID)!.trains
+}
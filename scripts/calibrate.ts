@@ -0,0 +1,90 @@
+// Offline weight calibration. Replays simulated days (the sample scenario, or --scenario/--timetable files) or the
+// latest saved plan versions (the plan store under data/plans, or PLAN_STORE_DIR) through the engine in this process,
+// prints the best weights next to the defaults and writes them as a preset file the board's weights panel can
+// import. Unlike POST /api/calibrate, the size of the search is not limited.
+//
+//   pnpm calibrate [--source simulation|history] [--days 10] [--versions 10] [--scenario file.json]
+//     [--timetable file.json] [--objective passengerDelay|totalDelay|knockOn|platformsUsed|idleGap|platformChanges]
+//     [--solver greedy|optimal] [--search random|grid] [--samples 100] [--levels 0.5,1,2] [--refine 3] [--seed 1]
+//     [--name "Calibrated weights"] [--out weight-preset.json]
+
+import { readFileSync, writeFileSync } from "node:fs"
+import { calibrationDays, parseCalibrationRequest } from "@/lib/api/calibration"
+import type { ApiIssue } from "@/lib/api/errors"
+import { calibrateWeights, type PlanTotals } from "@/lib/scheduler"
+
+function option(name: string): string | undefined
+function option(name: string, fallback: string): string
+function option(name: string, fallback?: string) {
+  const i = process.argv.indexOf(`--${name}`)
+  return i >= 0 && process.argv[i + 1] ? process.argv[i + 1] : fallback
+}
+
+function number(name: string) {
+  const value = option(name)
+  return value === undefined ? undefined : Number(value)
+}
+
+function fail(message: string, issues: ApiIssue[] = []): never {
+  console.error(message)
+  for (const issue of issues) console.error(`  ${issue.path}: ${issue.message}`)
+  process.exit(1)
+}
+
+const TERMS = ["idleGap", "load", "delayedSpread", "margin", "platformChange", "connection"] as const
+const TOTALS: (keyof PlanTotals)[] = [
+  "passengerDelay",
+  "totalDelay",
+  "knockOn",
+  "platformsUsed",
+  "idleGap",
+  "platformChanges",
+  "unassigned",
+]
+
+async function main() {
+  const out = option("out", "weight-preset.json")
+  const scenario = option("scenario")
+  const timetable = option("timetable")
+
+  const request = parseCalibrationRequest({
+    source: option("source"),
+    days: number("days"),
+    versions: number("versions"),
+    scenario: scenario ? JSON.parse(readFileSync(scenario, "utf8")) : undefined,
+    // a timetable file is { "trains": [...] }, as in public/fixtures/timetable.json
+    timetable: timetable ? JSON.parse(readFileSync(timetable, "utf8")).trains : undefined,
+    objective: option("objective"),
+    solver: option("solver"),
+    search: option("search"),
+    samples: number("samples"),
+    levels: option("levels")?.split(",").map(Number),
+    refineRounds: number("refine"),
+    seed: number("seed"),
+  })
+  if ("issues" in request) fail("the calibration options are invalid", request.issues)
+
+  const days = await calibrationDays(request)
+  if ("issues" in days) fail("no days to calibrate on", days.issues)
+
+  const { objective, solver, search, levels, samples, refineRounds, seed } = request
+  const started = Date.now()
+  const report = calibrateWeights(days, { objective, solver, search, levels, samples, refineRounds, seed })
+
+  console.log(
+    `${report.evaluated} weight sets on ${report.days} days in ${((Date.now() - started) / 1000).toFixed(1)} s ` +
+      `(${report.solver} solver, ${report.search} search), minimising ${report.objective}`,
+  )
+  console.table(
+    Object.fromEntries([
+      ...TERMS.map((k) => [`weight ${k}`, { default: report.baseline.weights[k], best: report.best.weights[k] }]),
+      ...TOTALS.map((k) => [k, { default: report.baseline.totals[k], best: report.best.totals[k] }]),
+    ]),
+  )
+
+  const preset = { name: option("name", `Calibrated for ${report.objective}`), weights: report.best.weights }
+  writeFileSync(out, `${JSON.stringify(preset, null, 2)}\n`)
+  console.log(`Preset written to ${out}; import it with "Import preset" in the weights panel.`)
+}
+
+main().catch((e) => fail((e as Error).message))
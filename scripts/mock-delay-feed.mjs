@@ -0,0 +1,109 @@
+// Offline mock of a live delay feed. Streams the events of a scripted scenario, one JSON object per message in the
+// scheduler's wire format ({ trainId, eta, reason }), as Server-Sent Events or over a WebSocket.
+//
+//   node scripts/mock-delay-feed.mjs [--port 4010] [--script public/fixtures/delay-script.json] [--speed 1] [--loop]
+//
+// Point the scheduler's "Live stream" feed at http://localhost:4010/events for Server-Sent Events, or at
+// ws://localhost:4010/events for a WebSocket. Every client gets its own playback from the start of the script.
+
+import { createHash } from "node:crypto"
+import { readFileSync } from "node:fs"
+import { createServer } from "node:http"
+
+function option(name, fallback) {
+  const i = process.argv.indexOf(`--${name}`)
+  return i >= 0 && process.argv[i + 1] ? process.argv[i + 1] : fallback
+}
+
+const port = Number(option("port", 4010))
+const scriptPath = option("script", "public/fixtures/delay-script.json")
+const speed = Number(option("speed", 1))
+const loop = process.argv.includes("--loop")
+
+const script = JSON.parse(readFileSync(scriptPath, "utf8"))
+const events = [...script.events].sort((a, b) => a.after - b.after)
+
+// Plays the script to `send`, one JSON message per event; returns a function that stops the playback
+function playback(send) {
+  let timers = []
+  function play() {
+    // a new round replaces the timers of the last one, which have all fired
+    timers = events.map(({ after, ...event }) => setTimeout(() => send(JSON.stringify(event)), (after * 1000) / speed))
+    // the next round starts one second after the last event
+    const length = events.length > 0 ? events[events.length - 1].after : 0
+    if (loop) timers.push(setTimeout(play, ((length + 1) * 1000) / speed))
+  }
+  play()
+  return () => timers.forEach(clearTimeout)
+}
+
+const server = createServer((req, res) => {
+  res.setHeader("Access-Control-Allow-Origin", "*")
+  if (req.url !== "/events") {
+    res.writeHead(404, { "Content-Type": "text/plain" })
+    res.end("delay events are served at /events\n")
+    return
+  }
+
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+  })
+  // no automatic reconnect storm when the script has finished
+  res.write("retry: 10000\n\n")
+
+  const stop = playback((message) => res.write(`data: ${message}\n\n`))
+  // comment lines keep proxies from closing an idle stream
+  const keepAlive = setInterval(() => res.write(": keep-alive\n\n"), 15000)
+
+  req.on("close", () => {
+    stop()
+    clearInterval(keepAlive)
+  })
+})
+
+// Unmasked server frame (RFC 6455): FIN, the opcode, then the payload length
+function frame(opcode, payload) {
+  const length = payload.length
+  const header =
+    length < 126
+      ? Buffer.from([0x80 | opcode, length])
+      : length < 65536
+        ? Buffer.from([0x80 | opcode, 126, length >> 8, length & 0xff])
+        : Buffer.concat([Buffer.from([0x80 | opcode, 127]), bigEndian64(length)])
+  return Buffer.concat([header, payload])
+}
+
+function bigEndian64(n) {
+  const b = Buffer.alloc(8)
+  b.writeBigUInt64BE(BigInt(n))
+  return b
+}
+
+// WebSocket clients: the same playback as text frames. The mock reads no messages; a close frame from the client is
+// answered and ends the connection.
+server.on("upgrade", (req, socket) => {
+  const key = req.headers["sec-websocket-key"]
+  if (req.url !== "/events" || req.headers.upgrade?.toLowerCase() !== "websocket" || !key) {
+    socket.end("HTTP/1.1 400 Bad Request\r\n\r\n")
+    return
+  }
+  const accept = createHash("sha1").update(`${key}258EAFA5-E914-47DA-95CA-C5AB0DC85B11`).digest("base64")
+  socket.write(
+    "HTTP/1.1 101 Switching Protocols\r\nUpgrade: websocket\r\nConnection: Upgrade\r\n" +
+      `Sec-WebSocket-Accept: ${accept}\r\n\r\n`,
+  )
+
+  const stop = playback((message) => socket.write(frame(0x1, Buffer.from(message))))
+  socket.on("data", (data) => {
+    if ((data[0] & 0x0f) === 0x8) socket.end(frame(0x8, Buffer.alloc(0)))
+  })
+  socket.on("close", stop)
+  socket.on("error", stop)
+})
+
+server.listen(port, () => {
+  const where = `http://localhost:${port}/events and ws://localhost:${port}/events`
+  console.log(`"${script.name}": ${events.length} events at ${where}${loop ? " (looping)" : ""}`)
+})